@@ -0,0 +1,151 @@
+/**
+ * Named BinaryLane accounts for BinaryLane MCP Server
+ * Holds one API client per configured account and resolves the account selected for each tool call
+ */
+
+import { z } from 'zod';
+
+import { BinaryLaneClient, ClientConfig } from './api-client.js';
+
+// Account name used when only BINARYLANE_API_TOKEN is configured
+export const DEFAULT_ACCOUNT_NAME = 'default';
+
+/**
+ * Validates that the API token matches the expected BinaryLane format.
+ * @param token - The API token to validate
+ * @returns An error message if validation fails, otherwise null
+ */
+export function validateApiToken(token: string): string | null {
+  // BinaryLane API tokens are 64 alphanumeric characters
+  const TOKEN_PATTERN = /^[a-zA-Z0-9]{64}$/;
+
+  if (token.length !== 64) {
+    return `Invalid token length: expected 64 characters, got ${token.length}`;
+  }
+
+  if (!TOKEN_PATTERN.test(token)) {
+    return 'Invalid token format: token must contain only alphanumeric characters (a-z, A-Z, 0-9)';
+  }
+
+  return null;
+}
+
+// ==================== Configuration ====================
+
+const AccountNameSchema = z.string()
+  .regex(/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/, 'Account names must be alphanumeric and may contain hyphens or underscores');
+
+export const AccountsConfigSchema = z.object({
+  defaultAccount: AccountNameSchema
+    .optional()
+    .describe('Account used when a tool call does not name one (defaults to the first account)'),
+  accounts: z.record(AccountNameSchema, z.object({
+    token: z.string()
+      .optional()
+      .describe('BinaryLane API token for this account'),
+    tokenEnv: z.string()
+      .optional()
+      .describe('Name of an environment variable holding the API token (keeps tokens out of the file)'),
+    description: z.string()
+      .optional()
+      .describe('Human-readable description shown by list_accounts'),
+  }).refine(account => (account.token === undefined) !== (account.tokenEnv === undefined), {
+    message: 'Each account needs exactly one of token or tokenEnv',
+  })),
+}).refine(config => Object.keys(config.accounts).length > 0, {
+  message: 'At least one account must be configured',
+}).refine(config => config.defaultAccount === undefined || config.defaultAccount in config.accounts, {
+  message: 'defaultAccount must name one of the configured accounts',
+  path: ['defaultAccount'],
+});
+
+export type AccountsConfig = z.infer<typeof AccountsConfigSchema>;
+
+// ==================== Registry ====================
+
+export interface AccountSummary {
+  name: string;
+  description?: string;
+  default: boolean;
+}
+
+interface AccountEntry {
+  client: BinaryLaneClient;
+  description?: string;
+}
+
+/**
+ * Registry of named accounts, each with its own BinaryLaneClient.
+ */
+export class AccountRegistry {
+  private accounts = new Map<string, AccountEntry>();
+  readonly defaultAccount: string;
+
+  constructor(
+    accounts: Array<{ name: string; token: string; description?: string }>,
+    defaultAccount?: string,
+    clientConfig?: ClientConfig
+  ) {
+    for (const { name, token, description } of accounts) {
+      this.accounts.set(name, { client: new BinaryLaneClient(token, clientConfig), description });
+    }
+    this.defaultAccount = defaultAccount ?? accounts[0].name;
+  }
+
+  /**
+   * Build a registry from an accounts config, resolving tokenEnv references.
+   * @throws {Error} If a referenced environment variable is missing or a token is malformed
+   */
+  static fromConfig(
+    config: AccountsConfig,
+    clientConfig?: ClientConfig,
+    env: NodeJS.ProcessEnv = process.env
+  ): AccountRegistry {
+    const accounts = Object.entries(config.accounts).map(([name, account]) => {
+      const token = account.token ?? env[account.tokenEnv as string];
+      if (!token) {
+        throw new Error(`Account "${name}": environment variable ${account.tokenEnv} is not set`);
+      }
+      const tokenError = validateApiToken(token);
+      if (tokenError) {
+        throw new Error(`Account "${name}": ${tokenError}`);
+      }
+      return { name, token, description: account.description };
+    });
+    return new AccountRegistry(accounts, config.defaultAccount, clientConfig);
+  }
+
+  /**
+   * Whether more than one account is configured.
+   */
+  get isMultiAccount(): boolean {
+    return this.accounts.size > 1;
+  }
+
+  /**
+   * Resolve the account to use for a call.
+   * @param name Account name, or undefined for the default account
+   * @throws {Error} If no account with that name is configured
+   */
+  resolve(name?: string): { name: string; client: BinaryLaneClient } {
+    const accountName = name ?? this.defaultAccount;
+    const entry = this.accounts.get(accountName);
+    if (!entry) {
+      throw new Error(
+        `Unknown account "${accountName}". Available accounts: ${[...this.accounts.keys()].join(', ')}. Use list_accounts to see them.`
+      );
+    }
+    return { name: accountName, client: entry.client };
+  }
+
+  /**
+   * List configured accounts (without their tokens).
+   */
+  list(): AccountSummary[] {
+    return [...this.accounts].map(([name, entry]) => ({
+      name,
+      ...(entry.description !== undefined && { description: entry.description }),
+      default: name === this.defaultAccount,
+    }));
+  }
+}
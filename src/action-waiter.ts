@@ -0,0 +1,101 @@
+/**
+ * Action tracking for BinaryLane MCP Server
+ * Polls a BinaryLane action until it finishes, reporting progress along the way
+ */
+
+import { Action, BinaryLaneClient } from './api-client.js';
+
+// Time between polls of an action in progress, in milliseconds
+const ACTION_POLL_INTERVAL = 5000;
+
+// Default time to wait for an action before returning a partial result, in seconds
+export const DEFAULT_WAIT_TIMEOUT = 600;
+
+export interface WaitOptions {
+  // Aborted when the MCP request is cancelled
+  signal: AbortSignal;
+  // Called whenever the action's completion percentage increases
+  onProgress: (percentComplete: number, currentStep?: string) => Promise<void>;
+  timeoutSeconds?: number;
+}
+
+export interface WaitResult {
+  action: Action;
+  // Whether the action finished (successfully or not) before the timeout
+  completed: boolean;
+  elapsed_seconds: number;
+  message: string;
+}
+
+// Resolves after the delay, or early if the signal is aborted
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+function describeProgress(action: Action): string {
+  const percent = action.progress?.percent_complete;
+  const step = action.progress?.current_step;
+  if (percent === undefined && !step) {
+    return action.status;
+  }
+  return [percent !== undefined ? `${percent}% complete` : undefined, step].filter(Boolean).join(': ');
+}
+
+/**
+ * Poll an action until it leaves the in-progress state, the timeout passes, or the request is cancelled.
+ * @throws {ApiError} If fetching the action fails
+ * @throws {Error} If the request is cancelled
+ */
+export async function waitForAction(
+  client: BinaryLaneClient,
+  actionId: number,
+  { signal, onProgress, timeoutSeconds = DEFAULT_WAIT_TIMEOUT }: WaitOptions
+): Promise<WaitResult> {
+  const started = Date.now();
+  const deadline = started + timeoutSeconds * 1000;
+  let lastPercent = -1;
+
+  for (;;) {
+    if (signal.aborted) {
+      throw new Error(`Stopped waiting for action ${actionId}: the request was cancelled`);
+    }
+
+    const { action } = await client.getAction(actionId, { signal });
+    const elapsed = Math.round((Date.now() - started) / 1000);
+
+    // Progress notifications must increase, so only report forward movement
+    const percent = action.progress?.percent_complete ?? 0;
+    if (percent > lastPercent) {
+      lastPercent = percent;
+      await onProgress(percent, action.progress?.current_step);
+    }
+
+    if (action.status !== 'in-progress') {
+      return {
+        action,
+        completed: true,
+        elapsed_seconds: elapsed,
+        message: `Action ${actionId} (${action.type}) finished with status "${action.status}" after ${elapsed}s.`,
+      };
+    }
+
+    if (Date.now() + ACTION_POLL_INTERVAL > deadline) {
+      return {
+        action,
+        completed: false,
+        elapsed_seconds: elapsed,
+        message: `Action ${actionId} (${action.type}) is still in progress after ${elapsed}s (${describeProgress(action)}). Use get_action to keep tracking it.`,
+      };
+    }
+
+    await delay(ACTION_POLL_INTERVAL, signal);
+  }
+}
@@ -3,7 +3,22 @@
  * Handles all HTTP communication with the BinaryLane API
  */
 
-const BASE_URL = 'https://api.binarylane.com.au/v2';
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+
+import { CacheConfig, CacheStats, ResponseCache } from './cache.js';
+import { CircuitBreaker, CircuitBreakerConfig, CircuitOpenError, CircuitStatus } from './circuit-breaker.js';
+import { logger } from './logger.js';
+import { RateLimiter, RateLimiterStats, RequestPriority } from './rate-limiter.js';
+import { describeIssues, ResponseValidationError, ResponseValidationMode, validateResponse } from './response-schemas.js';
+
+export const DEFAULT_BASE_URL = 'https://api.binarylane.com.au/v2';
+
+// Largest page size the API accepts
+const MAX_PAGE_SIZE = 200;
+
+// Time allowed for one attempt of a request when no timeout is configured, in milliseconds
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
 
 /**
  * ApiError class for better error handling with status code preservation
@@ -20,6 +35,49 @@ export class ApiError extends Error {
   }
 }
 
+// Error for a request cancelled through its AbortSignal; the reason may be any value, or missing
+function cancelledError(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error) {
+    return signal.reason;
+  }
+  return new Error(signal.reason ? `Request cancelled: ${signal.reason}` : 'Request cancelled');
+}
+
+/**
+ * Raised when a change request failed in a way that leaves unknown whether the API applied it.
+ * Such requests are not retried automatically, since repeating them could apply the change twice.
+ */
+export class UncertainOutcomeError extends Error {
+  // Why the client could not check whether the request was applied, if it tried
+  public reconcileError?: Error;
+
+  constructor(
+    public method: string,
+    public path: string,
+    public cause: Error
+  ) {
+    super(`${method} ${path} may or may not have been applied (${cause.message}). It was not retried automatically to avoid applying it twice`);
+    this.name = 'UncertainOutcomeError';
+    Object.setPrototypeOf(this, UncertainOutcomeError.prototype);
+  }
+}
+
+/**
+ * Raised by a dry-run view of the client in place of sending a change request.
+ * Carries the request exactly as it would have been sent.
+ */
+export class DryRunRequest extends Error {
+  constructor(
+    public method: string,
+    public path: string,
+    public body?: unknown
+  ) {
+    super(`Dry run: ${method} ${path} was not sent`);
+    this.name = 'DryRunRequest';
+    Object.setPrototypeOf(this, DryRunRequest.prototype);
+  }
+}
+
 /**
  * API error response format from BinaryLane
  */
@@ -49,6 +107,23 @@ export interface MetaResponse {
   total?: number;
 }
 
+export interface RequestOptions {
+  signal?: AbortSignal;       // cancels the request, including queueing and retries
+  timeout?: number;           // ms per attempt; overrides the configured timeouts
+  priority?: RequestPriority; // default: 'write' for changes, 'read' for GETs; listAll* use 'bulk'
+}
+
+export interface PaginateOptions extends RequestOptions {
+  maxItems?: number;          // default: the client's maxListItems
+  perPage?: number;           // default: 200 (the API maximum)
+}
+
+// One page of a list response, with its items under `key`
+export type PagedResponse<K extends string, T> = { [P in K]: T[] } & { links?: LinksResponse; meta?: MetaResponse };
+
+// Every page of a list response merged, and whether the item cap cut it short
+export type ListAllResponse<K extends string, T> = { [P in K]: T[] } & { truncated: boolean };
+
 export interface RetryConfig {
   maxRetries?: number;        // default: 3
   baseDelay?: number;         // default: 1000ms
@@ -56,54 +131,159 @@ export interface RetryConfig {
   backoffMultiplier?: number; // default: 2
 }
 
+export interface TimeoutConfig {
+  default?: number;           // default: 30000ms per attempt
+  methods?: Record<string, number>; // per client method name, e.g. { uploadBackup: 120000 }
+}
+
 export interface RateLimitConfig {
   maxConcurrent?: number;     // default: 5
+  requestsPerSecond?: number; // default: 10, lowered automatically from rate-limit headers
+  burst?: number;             // default: 2x requestsPerSecond
   retryConfig?: RetryConfig;
 }
 
+export interface ClientConfig extends RateLimitConfig {
+  baseUrl?: string;           // default: DEFAULT_BASE_URL
+  headers?: Record<string, string>; // sent with every request
+  fetch?: typeof fetch;       // default: global fetch
+  maxListItems?: number;      // default: 1000, cap for listAll* and paginate
+  cache?: CacheConfig;        // default: in-memory cache of reference data
+  timeouts?: TimeoutConfig;
+  circuitBreaker?: CircuitBreakerConfig;
+  responseValidation?: ResponseValidationMode; // default: 'warn'
+}
+
+export interface ClientHealth {
+  circuit: CircuitStatus;
+  rateLimit: RateLimiterStats;
+}
+
+// A cached GET in flight, shared by every caller that asked for it meanwhile
+interface PendingRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Finds the effect of a change request whose outcome is unknown. IDs only grow, so anything the
+// request created has a higher ID than the newest resource that existed before the first attempt.
+interface Reconciler {
+  // One page of the resources the request adds to (e.g. the server's actions), newest first as the API lists them
+  fetchPage: (page: PaginationParams, options: RequestOptions) => Promise<PagedResponse<'items', { id: number }>>;
+  // Whether a resource is one the request would create (e.g. an action of its type)
+  matches: (item: { id: number }) => boolean;
+  // The request's result, given the resource it created
+  result: (created: { id: number }) => unknown;
+}
+
+// Options passed from each public method to request(), naming the method for timeout lookup
+interface CallOptions extends RequestOptions {
+  operation?: string;
+  // Safe to repeat even though the HTTP method is not idempotent
+  idempotent?: boolean;
+  reconcile?: Reconciler;
+}
+
+// Methods that can be repeated without changing the outcome
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+// Network errors raised before the request reached the API, so it cannot have been applied
+const NOT_SENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT']);
+
 export class BinaryLaneClient {
   private apiToken: string;
-  private maxConcurrent: number;
+  private baseUrl: string;
+  private defaultHeaders: Record<string, string>;
+  private fetch: typeof fetch;
+  private maxListItems: number;
+  private cache: ResponseCache;
+  private pendingRequests = new Map<string, PendingRequest>();
   private retryConfig: Required<RetryConfig>;
-  private activeRequests: number = 0;
-  private requestQueue: Array<() => void> = [];
-
-  constructor(apiToken: string, config?: RateLimitConfig) {
+  private timeouts: Required<TimeoutConfig>;
+  private breaker: CircuitBreaker;
+  private limiter: RateLimiter;
+  private responseValidation: ResponseValidationMode;
+  // Mismatches already logged in warn mode, so each is reported once rather than on every call
+  private reportedMismatches = new Set<string>();
+  // Set on views returned by dryRun()
+  private dryRunView = false;
+
+  constructor(apiToken: string, config?: ClientConfig) {
     this.apiToken = apiToken;
-    this.maxConcurrent = config?.maxConcurrent ?? 5;
+    this.baseUrl = (config?.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.defaultHeaders = config?.headers ?? {};
+    this.fetch = config?.fetch ?? globalThis.fetch;
+    this.maxListItems = config?.maxListItems ?? 1000;
+    const cacheDirectory = config?.cache?.directory;
+    this.cache = new ResponseCache(
+      config?.cache,
+      // Keep each account's responses apart without writing its token to disk
+      cacheDirectory && join(cacheDirectory, `${createHash('sha256').update(apiToken).digest('hex').slice(0, 16)}.json`)
+    );
+    this.limiter = new RateLimiter({
+      maxConcurrent: config?.maxConcurrent,
+      requestsPerSecond: config?.requestsPerSecond,
+      burst: config?.burst,
+    });
     this.retryConfig = {
       maxRetries: config?.retryConfig?.maxRetries ?? 3,
       baseDelay: config?.retryConfig?.baseDelay ?? 1000,
       maxDelay: config?.retryConfig?.maxDelay ?? 32000,
       backoffMultiplier: config?.retryConfig?.backoffMultiplier ?? 2,
     };
+    this.timeouts = {
+      default: config?.timeouts?.default ?? DEFAULT_REQUEST_TIMEOUT,
+      methods: config?.timeouts?.methods ?? {},
+    };
+    this.breaker = new CircuitBreaker(config?.circuitBreaker);
+    this.responseValidation = config?.responseValidation ?? 'warn';
   }
 
-  private async waitForSlot(): Promise<void> {
-    if (this.activeRequests < this.maxConcurrent) {
-      this.activeRequests++;
-      return;
-    }
-
-    return new Promise<void>((resolve) => {
-      this.requestQueue.push(() => {
-        this.activeRequests++;
-        resolve();
-      });
-    });
+  private shouldRetry(statusCode: number): boolean {
+    // Retry on rate limit and server errors
+    return statusCode === 429 || statusCode === 502 || statusCode === 503 || statusCode === 504;
   }
 
-  private releaseSlot(): void {
-    this.activeRequests--;
-    const next = this.requestQueue.shift();
-    if (next) {
-      next();
+  /**
+   * Whether a failed attempt can be repeated without risking applying a change twice.
+   * 429 and 503 mean the API turned the request away; 502, 504, timeouts and dropped
+   * connections leave it unknown whether a change went through.
+   */
+  private isSafeToRetry(method: string, options: CallOptions | undefined, statusCode?: number, error?: unknown): boolean {
+    if (IDEMPOTENT_METHODS.has(method) || options?.idempotent) {
+      return true;
     }
+    if (statusCode !== undefined) {
+      return statusCode === 429 || statusCode === 503;
+    }
+    const code = ((error as { cause?: { code?: string } } | undefined)?.cause)?.code;
+    return code !== undefined && NOT_SENT_ERROR_CODES.has(code);
   }
 
-  private shouldRetry(statusCode: number): boolean {
-    // Retry on rate limit and server errors
-    return statusCode === 429 || statusCode === 502 || statusCode === 503 || statusCode === 504;
+  /**
+   * Check a successful response against the shape expected by the method that requested it.
+   * In warn mode mismatches are logged and the response is used as-is.
+   * @throws {ResponseValidationError} In strict mode, if the response does not match
+   */
+  private checkResponse(method: string, path: string, operation: string | undefined, data: unknown): void {
+    if (this.responseValidation === 'off') {
+      return;
+    }
+    const issues = validateResponse(operation, data);
+    if (issues.length === 0) {
+      return;
+    }
+
+    if (this.responseValidation === 'strict') {
+      throw new ResponseValidationError(method, path, issues);
+    }
+    // Ignore list indices, so the same mismatch on every item of every page counts once
+    const key = `${operation} ${issues.map(issue => `${issue.path.replace(/\[\d+\]/g, '[]')}: ${issue.message}`).join('; ')}`;
+    if (!this.reportedMismatches.has(key)) {
+      this.reportedMismatches.add(key);
+      logger.warn(`Unexpected response from ${method} ${path} (${operation}): ${describeIssues(issues)}`);
+    }
   }
 
   private calculateDelay(attempt: number, retryAfter?: number): number {
@@ -120,65 +300,328 @@ export class BinaryLaneClient {
     return Math.max(0, cappedDelay + jitter);
   }
 
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelledError(signal as AbortSignal));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Rejects as soon as the signal is aborted, without waiting for the promise to settle
+  private async abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+    if (signal.aborted) {
+      throw cancelledError(signal);
+    }
+    let onAbort!: () => void;
+    const aborted = new Promise<never>((_resolve, reject) => {
+      onAbort = () => reject(cancelledError(signal));
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+    try {
+      return await Promise.race([promise, aborted]);
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Fetches and reads a response within the timeout, aborting the fetch if the signal fires first
+   * @throws {ApiError} With status 408 if the timeout passes
+   */
+  private async fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<{ response: Response; text: string }> {
+    // The signal may have fired while the request waited for a slot or a retry
+    if (signal?.aborted) {
+      throw cancelledError(signal);
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await this.fetch(url, { ...init, signal: controller.signal });
+      // The body is read under the same timeout, so a stalled body also frees the slot
+      const text = response.status === 204 ? '' : await response.text();
+      return { response, text };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw cancelledError(signal);
+      }
+      if (controller.signal.aborted) {
+        throw new ApiError(`No response from the BinaryLane API within ${timeout}ms`, 408);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
   }
 
   private async request<T>(
     method: string,
     path: string,
     body?: unknown,
-    queryParams?: Record<string, string | number | boolean | undefined>
+    queryParams?: Record<string, string | number | boolean | undefined>,
+    options?: CallOptions
   ): Promise<T> {
-    await this.waitForSlot();
+    let pathWithQuery = path;
+    if (queryParams) {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(queryParams)) {
+        if (value !== undefined && value !== null) {
+          params.append(key, String(value));
+        }
+      }
+      const queryString = params.toString();
+      if (queryString) {
+        pathWithQuery += `?${queryString}`;
+      }
+    }
 
+    // A dry run reads as usual but stops at the first change, before it reaches the limiter or the breaker
+    if (this.dryRunView && method !== 'GET') {
+      const sent = body && (method === 'POST' || method === 'PUT' || method === 'PATCH' || method === 'DELETE');
+      throw new DryRunRequest(method, pathWithQuery, sent ? body : undefined);
+    }
+
+    // Serve reference data from the cache, sharing one fetch between concurrent misses
+    const cacheEndpoint = method === 'GET' ? this.cache.endpointFor(path) : undefined;
+    if (!cacheEndpoint) {
+      return options?.reconcile
+        ? this.sendReconciled<T>(method, path, pathWithQuery, body, { ...options, reconcile: options.reconcile })
+        : this.send<T>(method, path, pathWithQuery, body, options);
+    }
+
+    const cached = this.cache.get<T>(pathWithQuery, cacheEndpoint);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let pending = this.pendingRequests.get(pathWithQuery);
+    if (!pending) {
+      const controller = new AbortController();
+      // A change while the fetch is in flight makes its response stale, so it is not stored
+      const generation = this.cache.generation(pathWithQuery);
+      const entry: PendingRequest = {
+        controller,
+        waiters: 0,
+        promise: this.send<T>(method, path, pathWithQuery, body, { ...options, signal: controller.signal })
+          .then(data => {
+            this.cache.set(pathWithQuery, cacheEndpoint, data, generation);
+            return data;
+          })
+          .finally(() => {
+            if (this.pendingRequests.get(pathWithQuery) === entry) {
+              this.pendingRequests.delete(pathWithQuery);
+            }
+          }),
+      };
+      // Every caller may have stopped waiting by the time the shared fetch fails
+      entry.promise.catch(() => undefined);
+      this.pendingRequests.set(pathWithQuery, entry);
+      pending = entry;
+    }
+
+    // The shared fetch is only aborted once every caller waiting on it has been cancelled
+    const shared = pending;
+    shared.waiters++;
     try {
-      let url = `${BASE_URL}${path}`;
+      return await this.abortable(shared.promise as Promise<T>, options?.signal);
+    } finally {
+      shared.waiters--;
+      if (shared.waiters === 0 && options?.signal?.aborted) {
+        shared.controller.abort();
+        if (this.pendingRequests.get(pathWithQuery) === shared) {
+          this.pendingRequests.delete(pathWithQuery);
+        }
+      }
+    }
+  }
 
-      if (queryParams) {
-        const params = new URLSearchParams();
-        for (const [key, value] of Object.entries(queryParams)) {
-          if (value !== undefined && value !== null) {
-            params.append(key, String(value));
+  /**
+   * Sends a change request that is not safe to repeat blindly. Notes the newest existing ID first;
+   * when an attempt's outcome is unknown, lists what is newer, and only tries again if nothing the
+   * request would create has appeared.
+   * @throws {UncertainOutcomeError} If the newest ID cannot be read beforehand, or what is newer
+   * cannot be listed afterwards, so the outcome cannot be told
+   */
+  private async sendReconciled<T>(
+    method: string,
+    path: string,
+    pathWithQuery: string,
+    body: unknown,
+    options: CallOptions & { reconcile: Reconciler }
+  ): Promise<T> {
+    const { reconcile, signal } = options;
+    let newest: number | undefined;
+    try {
+      // The first page is enough, as the newest come first
+      const { items } = await reconcile.fetchPage({ page: 1, per_page: MAX_PAGE_SIZE }, { priority: 'write', signal });
+      newest = Math.max(0, ...items.map(item => item.id));
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger.warn(`Cannot list existing resources before ${method} ${path} (${error instanceof Error ? error.message : String(error)}); an unknown outcome will not be retried`);
+    }
+    if (newest === undefined) {
+      return this.send<T>(method, path, pathWithQuery, body, options);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(method, path, pathWithQuery, body, options);
+      } catch (error) {
+        if (!(error instanceof UncertainOutcomeError) || attempt >= this.retryConfig.maxRetries) {
+          throw error;
+        }
+
+        let found: { created?: { id: number }; complete: boolean };
+        try {
+          found = await this.findCreated(reconcile, newest, signal);
+        } catch (listError) {
+          if (signal?.aborted) {
+            throw listError;
           }
+          error.reconcileError = listError instanceof Error ? listError : new Error(String(listError));
+          throw error;
+        }
+        if (found.created) {
+          logger.info(`${method} ${path} turned out to have been applied (${error.cause.message}); using the existing result`);
+          return reconcile.result(found.created) as T;
         }
-        const queryString = params.toString();
-        if (queryString) {
-          url += `?${queryString}`;
+        // Something new may lie past the end of the list
+        if (!found.complete) {
+          throw error;
         }
+
+        const delay = this.calculateDelay(attempt);
+        logger.warn(
+          `${method} ${path} was not applied (${error.cause.message}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.retryConfig.maxRetries})`
+        );
+        await this.sleep(delay, signal);
+      }
+    }
+  }
+
+  // Look through resources newer than `newest` for one the request created, page by page until an
+  // older one shows up; complete is false if the list was cut short before that
+  private async findCreated(
+    reconcile: Reconciler,
+    newest: number,
+    signal?: AbortSignal
+  ): Promise<{ created?: { id: number }; complete: boolean }> {
+    let count = 0;
+    const items = this.paginate('items', page => reconcile.fetchPage(page, { priority: 'write', signal }), { maxItems: this.maxListItems + 1 });
+    for await (const item of items) {
+      if (item.id <= newest) {
+        return { complete: true };
+      }
+      if (reconcile.matches(item)) {
+        return { created: item, complete: true };
       }
+      count++;
+    }
+    return { complete: count <= this.maxListItems };
+  }
+
+  private async send<T>(
+    method: string,
+    path: string,
+    pathWithQuery: string,
+    body?: unknown,
+    options?: CallOptions
+  ): Promise<T> {
+    const signal = options?.signal;
+    const timeout = options?.timeout ?? this.timeouts.methods[options?.operation ?? ''] ?? this.timeouts.default;
+    const priority = options?.priority ?? (method === 'GET' ? 'read' : 'write');
+    const cancelled = () => cancelledError(signal as AbortSignal);
+
+    // Fail fast during an outage instead of queueing behind other doomed requests
+    this.breaker.check();
+    await this.limiter.acquire(priority, signal, cancelled);
+
+    try {
+      const url = `${this.baseUrl}${pathWithQuery}`;
 
       const headers: Record<string, string> = {
+        ...this.defaultHeaders,
         'Authorization': `Bearer ${this.apiToken}`,
         'Content-Type': 'application/json',
       };
 
-      const options: RequestInit = {
+      const init: RequestInit = {
         method,
         headers,
       };
 
       if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH' || method === 'DELETE')) {
-        options.body = JSON.stringify(body);
+        init.body = JSON.stringify(body);
       }
 
       let lastError: ApiError | Error | undefined;
+      // Set once an attempt may have been applied without us seeing the response
+      let uncertain = false;
 
       for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+        // The first attempt's token came with the slot; each retry needs another
+        if (attempt > 0) {
+          await this.limiter.acquire(priority, signal, cancelled, true);
+        }
+        this.breaker.acquire();
+
         try {
-          const response = await fetch(url, options);
+          let fetched: { response: Response; text: string };
+          try {
+            fetched = await this.fetchWithTimeout(url, init, timeout, signal);
+          } catch (error) {
+            if (signal?.aborted) {
+              this.breaker.release();
+            } else {
+              this.breaker.recordFailure();
+            }
+            throw error;
+          }
+          const { response, text } = fetched;
+          this.limiter.update(response);
+
+          // Only server errors count against the API's availability
+          if (response.status >= 500) {
+            this.breaker.recordFailure();
+          } else {
+            this.breaker.recordSuccess();
+          }
 
           if (response.status === 204) {
             return {} as T;
           }
 
-          const text = await response.text();
           if (!text) {
-            console.warn(`Empty response body for ${method} ${path} (status ${response.status})`);
+            logger.warn(`Empty response body for ${method} ${path} (status ${response.status})`);
             return {} as T;
           }
           const data = JSON.parse(text);
 
+          // A repeated delete finding nothing means an earlier attempt already deleted it
+          if (response.status === 404 && method === 'DELETE' && uncertain) {
+            return {} as T;
+          }
+
           if (!response.ok) {
             const error = data as ApiErrorResponse;
             const apiError = new ApiError(
@@ -189,41 +632,62 @@ export class BinaryLaneClient {
 
             // Check if we should retry
             if (attempt < this.retryConfig.maxRetries && this.shouldRetry(response.status)) {
+              if (!this.isSafeToRetry(method, options, response.status)) {
+                throw new UncertainOutcomeError(method, path, apiError);
+              }
               lastError = apiError;
+              uncertain ||= response.status === 502 || response.status === 504;
 
               // Check for Retry-After header
               const retryAfter = response.headers.get('Retry-After');
               const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
               const delay = this.calculateDelay(attempt, retryAfterSeconds);
 
-              console.warn(
+              // Stop retrying as soon as the failures so far have opened the circuit
+              this.breaker.check();
+              logger.warn(
                 `Request failed with status ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.retryConfig.maxRetries})`
               );
 
-              await this.sleep(delay);
+              await this.sleep(delay, signal);
               continue;
             }
 
             throw apiError;
           }
 
+          this.checkResponse(method, path, options?.operation, data);
           return data as T;
         } catch (error) {
-          // Network errors or fetch failures
-          if (error instanceof ApiError) {
+          // Cancellation ends the request immediately
+          if (signal?.aborted) {
+            throw cancelledError(signal);
+          }
+
+          // Network errors, fetch failures and timeouts are retried; other API errors, unexpected responses and an open circuit are final
+          if (
+            error instanceof CircuitOpenError
+            || error instanceof UncertainOutcomeError
+            || error instanceof ResponseValidationError
+            || (error instanceof ApiError && error.statusCode !== 408)
+          ) {
             throw error;
           }
 
-          // Retry on network errors
           if (attempt < this.retryConfig.maxRetries) {
+            if (!this.isSafeToRetry(method, options, undefined, error)) {
+              throw new UncertainOutcomeError(method, path, error as Error);
+            }
             lastError = error as Error;
+            uncertain = true;
             const delay = this.calculateDelay(attempt);
 
-            console.warn(
-              `Network error, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.retryConfig.maxRetries}): ${error}`
+            this.breaker.check();
+            logger.warn(
+              `${error instanceof ApiError ? 'Request timed out' : 'Network error'}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.retryConfig.maxRetries}): ${error}`
             );
 
-            await this.sleep(delay);
+            await this.sleep(delay, signal);
             continue;
           }
 
@@ -234,74 +698,206 @@ export class BinaryLaneClient {
       // Should never reach here, but just in case
       throw lastError || new Error('Request failed after all retry attempts');
     } finally {
-      this.releaseSlot();
+      this.limiter.release();
+      // Any other call may have changed what is cached, even if it failed part-way
+      if (method !== 'GET') {
+        this.cache.invalidate(path);
+      }
     }
   }
 
+  // ==================== Dry Run ====================
+
+  /**
+   * Returns a view of this client that sends reads as usual but throws instead of sending a change.
+   * The view shares this client's cache, rate limiter and circuit breaker.
+   * @returns A client whose first POST, PUT, PATCH or DELETE throws a DryRunRequest
+   */
+  dryRun(): BinaryLaneClient {
+    const view = Object.create(this) as BinaryLaneClient;
+    view.dryRunView = true;
+    return view;
+  }
+
+  // ==================== Cache ====================
+
+  /**
+   * Drops every cached response for this client
+   * @returns The number of cached responses removed
+   */
+  clearCache(): number {
+    return this.cache.clear();
+  }
+
+  /**
+   * Reports cache hits, misses and size for this client
+   * @returns Counters overall and per cached endpoint
+   */
+  getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  // ==================== Health ====================
+
+  /**
+   * Reports the circuit breaker state and rate limiter queues for this client
+   * @returns Circuit state and time until the next probe, plus the current request budget, queue depth and wait times per priority
+   */
+  getHealth(): ClientHealth {
+    return {
+      circuit: this.breaker.status(),
+      rateLimit: this.limiter.stats(),
+    };
+  }
+
+  // ==================== Pagination ====================
+
+  /**
+   * Iterates over every item of a paginated list, following links.pages.next
+   * @param key The response property holding the items (e.g., 'servers')
+   * @param fetchPage Fetches one page given pagination parameters
+   * @param options Optional cap on the number of items and page size
+   * @returns Async iterator over the items, stopping after maxItems
+   * @throws {ApiError} If fetching a page fails
+   * @example
+   * for await (const server of client.paginate('servers', page => client.listServers(page))) {
+   *   console.log(server.name);
+   * }
+   */
+  async *paginate<K extends string, T>(
+    key: K,
+    fetchPage: (page: PaginationParams) => Promise<PagedResponse<K, T>>,
+    options?: PaginateOptions
+  ): AsyncGenerator<T, void, undefined> {
+    const maxItems = options?.maxItems ?? this.maxListItems;
+    const perPage = Math.min(options?.perPage ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    let count = 0;
+    let page: number | undefined = 1;
+
+    while (page !== undefined && count < maxItems) {
+      const response = await fetchPage({ page, per_page: perPage });
+      for (const item of response[key] ?? []) {
+        if (count >= maxItems) return;
+        count++;
+        yield item;
+      }
+      page = this.nextPage(response.links, page);
+    }
+  }
+
+  /**
+   * Collects every item of a paginated list into one response
+   * @param key The response property holding the items (e.g., 'servers')
+   * @param fetchPage Fetches one page given pagination parameters
+   * @param options Optional cap on the number of items and page size
+   * @returns Promise containing the items under `key`, and whether the cap cut the list short
+   * @throws {ApiError} If fetching a page fails
+   */
+  async listAll<K extends string, T>(
+    key: K,
+    fetchPage: (page: PaginationParams) => Promise<PagedResponse<K, T>>,
+    options?: PaginateOptions
+  ): Promise<ListAllResponse<K, T>> {
+    const maxItems = options?.maxItems ?? this.maxListItems;
+    const items: T[] = [];
+    // Fetch one extra item to learn whether more exist past the cap
+    for await (const item of this.paginate(key, fetchPage, { ...options, maxItems: maxItems + 1 })) {
+      items.push(item);
+    }
+    const truncated = items.length > maxItems;
+    return { [key]: items.slice(0, maxItems), truncated } as ListAllResponse<K, T>;
+  }
+
+  // Page number from links.pages.next, or undefined on the last page
+  private nextPage(links: LinksResponse | undefined, current: number): number | undefined {
+    const next = links?.pages?.next;
+    if (!next) {
+      return undefined;
+    }
+    const page = Number(new URL(next, this.baseUrl).searchParams.get('page'));
+    // Guard against a link that would loop back
+    return Number.isInteger(page) && page > current ? page : undefined;
+  }
+
   // ==================== Account ====================
 
   /**
    * Retrieves account information for the authenticated user
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the account details including email, verification status, and server limits
    * @throws {ApiError} If the API request fails
    * @example
    * const { account } = await client.getAccount();
    * console.log(account.email);
    */
-  async getAccount() {
-    return this.request<{ account: Account }>('GET', '/account');
+  async getAccount(options?: RequestOptions) {
+    return this.request<{ account: Account }>('GET', '/account', undefined, undefined, { ...options, operation: 'getAccount' });
   }
 
   /**
    * Retrieves the current account balance and month-to-date usage
+   * @param options Optional abort signal and timeout
    * @returns Promise containing balance information including account balance, usage, and remaining balance
    * @throws {ApiError} If the API request fails
    * @example
    * const { balance } = await client.getBalance();
    * console.log(`Current balance: ${balance.account_balance}`);
    */
-  async getBalance() {
-    return this.request<{ balance: Balance }>('GET', '/customers/my/balance');
+  async getBalance(options?: RequestOptions) {
+    return this.request<{ balance: Balance }>('GET', '/customers/my/balance', undefined, undefined, { ...options, operation: 'getBalance' });
   }
 
   /**
    * Retrieves a paginated list of invoices for the authenticated customer
    * @param params Optional pagination parameters (page, per_page)
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of invoices with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { invoices, meta } = await client.getInvoices({ page: 1, per_page: 20 });
    * console.log(`Total invoices: ${meta?.total}`);
    */
-  async getInvoices(params?: PaginationParams) {
+  async getInvoices(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ invoices: Invoice[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/customers/my/invoices', undefined, params as Record<string, string | number>
+      'GET', '/customers/my/invoices', undefined, params as Record<string, string | number>, { ...options, operation: 'getInvoices' }
     );
   }
 
+  /**
+   * Retrieves every invoice, following pagination
+   * @param options Optional cap on the number of invoices
+   * @returns Promise containing all invoices and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllInvoices(options?: PaginateOptions) {
+    return this.listAll('invoices', page => this.getInvoices(page, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves a specific invoice by its ID
    * @param invoiceId The unique identifier of the invoice
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the invoice details
    * @throws {ApiError} If the API request fails or invoice is not found
    * @example
    * const { invoice } = await client.getInvoice(12345);
    * console.log(`Invoice amount: ${invoice.amount}`);
    */
-  async getInvoice(invoiceId: number) {
-    return this.request<{ invoice: Invoice }>('GET', `/customers/my/invoices/${invoiceId}`);
+  async getInvoice(invoiceId: number, options?: RequestOptions) {
+    return this.request<{ invoice: Invoice }>('GET', `/customers/my/invoices/${invoiceId}`, undefined, undefined, { ...options, operation: 'getInvoice' });
   }
 
   /**
    * Retrieves all unpaid invoices with failed payment attempts
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of unpaid failed invoices
    * @throws {ApiError} If the API request fails
    * @example
    * const { unpaid_failed_invoices } = await client.getUnpaidFailedInvoices();
    * console.log(`Failed invoices: ${unpaid_failed_invoices.length}`);
    */
-  async getUnpaidFailedInvoices() {
-    return this.request<{ unpaid_failed_invoices: Invoice[] }>('GET', '/customers/my/unpaid-payment-failed-invoices');
+  async getUnpaidFailedInvoices(options?: RequestOptions) {
+    return this.request<{ unpaid_failed_invoices: Invoice[] }>('GET', '/customers/my/unpaid-payment-failed-invoices', undefined, undefined, { ...options, operation: 'getUnpaidFailedInvoices' });
   }
 
   // ==================== Actions ====================
@@ -310,13 +906,14 @@ export class BinaryLaneClient {
    * Proceeds or cancels an action that requires user interaction
    * @param actionId The unique identifier of the action
    * @param proceed Whether to proceed with the action (true) or cancel it (false)
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the action decision is processed
    * @throws {ApiError} If the API request fails
    * @example
    * await client.proceedAction(123, true); // Proceed with action
    */
-  async proceedAction(actionId: number, proceed: boolean) {
-    return this.request<void>('POST', `/actions/${actionId}/proceed`, { proceed });
+  async proceedAction(actionId: number, proceed: boolean, options?: RequestOptions) {
+    return this.request<void>('POST', `/actions/${actionId}/proceed`, { proceed }, undefined, { ...options, operation: 'proceedAction' });
   }
 
   // ==================== Servers ====================
@@ -324,36 +921,53 @@ export class BinaryLaneClient {
   /**
    * Retrieves a paginated list of all servers in the account
    * @param params Optional pagination parameters and hostname filter
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of servers with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { servers, meta } = await client.listServers({ page: 1, per_page: 10 });
    * console.log(`Total servers: ${meta?.total}`);
    */
-  async listServers(params?: PaginationParams & { hostname?: string }) {
+  async listServers(params?: PaginationParams & { hostname?: string }, options?: RequestOptions) {
     return this.request<{ servers: Server[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/servers', undefined, params as Record<string, string | number>
+      'GET', '/servers', undefined, params as Record<string, string | number>, { ...options, operation: 'listServers' }
     );
   }
 
+  /**
+   * Retrieves every server, following pagination
+   * @param params Optional hostname filter
+   * @param options Optional cap on the number of servers
+   * @returns Promise containing all servers and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   * @example
+   * const { servers, truncated } = await client.listAllServers();
+   */
+  async listAllServers(params?: { hostname?: string }, options?: PaginateOptions) {
+    return this.listAll('servers', page => this.listServers({ ...params, ...page }, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves detailed information about a specific server
    * @param serverId The unique identifier of the server
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the server details
    * @throws {ApiError} If the API request fails or server is not found
    * @example
    * const { server } = await client.getServer(12345);
    * console.log(`Server status: ${server.status}`);
    */
-  async getServer(serverId: number) {
-    return this.request<{ server: Server }>('GET', `/servers/${serverId}`);
+  async getServer(serverId: number, options?: RequestOptions) {
+    return this.request<{ server: Server }>('GET', `/servers/${serverId}`, undefined, undefined, { ...options, operation: 'getServer' });
   }
 
   /**
    * Creates a new server with the specified configuration
    * @param request The server creation request containing size, image, region, and other options
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the newly created server and action link
    * @throws {ApiError} If the API request fails or validation errors occur
+   * @throws {UncertainOutcomeError} If the last attempt's outcome is unknown and it could not be confirmed as applied
    * @example
    * const { server } = await client.createServer({
    *   size: 'std-min',
@@ -362,9 +976,22 @@ export class BinaryLaneClient {
    *   name: 'my-server'
    * });
    */
-  async createServer(request: CreateServerRequest) {
+  async createServer(request: CreateServerRequest, options?: RequestOptions) {
+    const { name } = request;
     return this.request<{ server: Server; links?: { action?: ActionLink } }>(
-      'POST', '/servers', request
+      'POST', '/servers', request, undefined, {
+        ...options,
+        operation: 'createServer',
+        // Before retrying, look for a server with this name newer than any before the first attempt
+        reconcile: name === undefined ? undefined : {
+          fetchPage: async (page, listOptions) => {
+            const { servers, links } = await this.listServers({ hostname: name, ...page }, listOptions);
+            return { items: servers, links };
+          },
+          matches: server => (server as Server).name === name,
+          result: server => ({ server: server as Server }),
+        },
+      }
     );
   }
 
@@ -372,125 +999,158 @@ export class BinaryLaneClient {
    * Deletes a server permanently
    * @param serverId The unique identifier of the server to delete
    * @param reason Optional reason for deletion (for audit purposes)
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the server is deleted
    * @throws {ApiError} If the API request fails
    * @example
    * await client.deleteServer(12345, 'No longer needed');
    */
-  async deleteServer(serverId: number, reason?: string) {
-    return this.request<void>('DELETE', `/servers/${serverId}`, undefined, { reason });
+  async deleteServer(serverId: number, reason?: string, options?: RequestOptions) {
+    return this.request<void>('DELETE', `/servers/${serverId}`, undefined, { reason }, { ...options, operation: 'deleteServer' });
   }
 
   /**
    * Performs an action on a server (e.g., power on, reboot, resize, etc.)
    * @param serverId The unique identifier of the server
    * @param action The action to perform (see ServerAction type for all options)
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the action details for tracking
    * @throws {ApiError} If the API request fails
+   * @throws {UncertainOutcomeError} If the last attempt's outcome is unknown and it could not be confirmed as applied
    * @example
    * const { action } = await client.performServerAction(12345, { type: 'reboot' });
    * console.log(`Action ID: ${action.id}`);
    */
-  async performServerAction(serverId: number, action: ServerAction) {
-    return this.request<{ action: Action }>('POST', `/servers/${serverId}/actions`, action);
+  async performServerAction(serverId: number, action: ServerAction, options?: RequestOptions) {
+    return this.request<{ action: Action }>('POST', `/servers/${serverId}/actions`, action, undefined, {
+      ...options,
+      operation: 'performServerAction',
+      // Before retrying, look for an action of the same type newer than any on the server before the first attempt
+      reconcile: {
+        fetchPage: async (page, listOptions) => {
+          const { actions, links } = await this.listServerActions(serverId, page, listOptions);
+          return { items: actions, links };
+        },
+        matches: started => (started as Action).type === action.type,
+        result: started => ({ action: started as Action }),
+      },
+    });
   }
 
   /**
    * Retrieves a paginated list of all actions performed on a specific server
    * @param serverId The unique identifier of the server
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of actions with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { actions } = await client.listServerActions(12345, { page: 1, per_page: 20 });
    */
-  async listServerActions(serverId: number, params?: PaginationParams) {
+  async listServerActions(serverId: number, params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ actions: Action[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/servers/${serverId}/actions`, undefined, params as Record<string, string | number>
+      'GET', `/servers/${serverId}/actions`, undefined, params as Record<string, string | number>, { ...options, operation: 'listServerActions' }
     );
   }
 
+  /**
+   * Retrieves every action performed on a server, following pagination
+   * @param serverId The unique identifier of the server
+   * @param options Optional cap on the number of actions
+   * @returns Promise containing all actions and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllServerActions(serverId: number, options?: PaginateOptions) {
+    return this.listAll('actions', page => this.listServerActions(serverId, page, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves details about a specific action on a server
    * @param serverId The unique identifier of the server
    * @param actionId The unique identifier of the action
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the action details
    * @throws {ApiError} If the API request fails or action is not found
    * @example
    * const { action } = await client.getServerAction(12345, 67890);
    * console.log(`Action status: ${action.status}`);
    */
-  async getServerAction(serverId: number, actionId: number) {
-    return this.request<{ action: Action }>('GET', `/servers/${serverId}/actions/${actionId}`);
+  async getServerAction(serverId: number, actionId: number, options?: RequestOptions) {
+    return this.request<{ action: Action }>('GET', `/servers/${serverId}/actions/${actionId}`, undefined, undefined, { ...options, operation: 'getServerAction' });
   }
 
   /**
    * Retrieves a paginated list of backups for a specific server
    * @param serverId The unique identifier of the server
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of backups with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { backups } = await client.getServerBackups(12345);
    * console.log(`Available backups: ${backups.length}`);
    */
-  async getServerBackups(serverId: number, params?: PaginationParams) {
+  async getServerBackups(serverId: number, params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ backups: Backup[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/servers/${serverId}/backups`, undefined, params as Record<string, string | number>
+      'GET', `/servers/${serverId}/backups`, undefined, params as Record<string, string | number>, { ...options, operation: 'getServerBackups' }
     );
   }
 
   /**
    * Retrieves the advanced firewall rules configured for a specific server
    * @param serverId The unique identifier of the server
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of firewall rules
    * @throws {ApiError} If the API request fails
    * @example
    * const { firewall_rules } = await client.getServerFirewallRules(12345);
    */
-  async getServerFirewallRules(serverId: number) {
+  async getServerFirewallRules(serverId: number, options?: RequestOptions) {
     return this.request<{ firewall_rules: AdvancedFirewallRule[] }>(
-      'GET', `/servers/${serverId}/advanced_firewall_rules`
+      'GET', `/servers/${serverId}/advanced_firewall_rules`, undefined, undefined, { ...options, operation: 'getServerFirewallRules' }
     );
   }
 
   /**
    * Retrieves console access information for a specific server
    * @param serverId The unique identifier of the server
+   * @param options Optional abort signal and timeout
    * @returns Promise containing VNC console URLs
    * @throws {ApiError} If the API request fails
    * @example
    * const { console } = await client.getServerConsole(12345);
    * console.log(`Web console: ${console.web_vnc_url}`);
    */
-  async getServerConsole(serverId: number) {
-    return this.request<{ console: ConsoleInfo }>('GET', `/servers/${serverId}/console`);
+  async getServerConsole(serverId: number, options?: RequestOptions) {
+    return this.request<{ console: ConsoleInfo }>('GET', `/servers/${serverId}/console`, undefined, undefined, { ...options, operation: 'getServerConsole' });
   }
 
   /**
    * Retrieves current data transfer usage for a specific server
    * @param serverId The unique identifier of the server
+   * @param options Optional abort signal and timeout
    * @returns Promise containing current data usage information
    * @throws {ApiError} If the API request fails
    * @example
    * const { data_usage } = await client.getCurrentDataUsage(12345);
    * console.log(`Used: ${data_usage.current_transfer_usage_gigabytes}GB`);
    */
-  async getCurrentDataUsage(serverId: number) {
-    return this.request<{ data_usage: DataUsage }>('GET', `/data_usages/${serverId}/current`);
+  async getCurrentDataUsage(serverId: number, options?: RequestOptions) {
+    return this.request<{ data_usage: DataUsage }>('GET', `/data_usages/${serverId}/current`, undefined, undefined, { ...options, operation: 'getCurrentDataUsage' });
   }
 
   /**
    * Retrieves current data usage for all servers in the account
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of data usage for all servers
    * @throws {ApiError} If the API request fails
    * @example
    * const { data_usages } = await client.listAllDataUsage({ per_page: 50 });
    */
-  async listAllDataUsage(params?: PaginationParams) {
+  async listAllDataUsage(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ data_usages: DataUsage[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/data_usages/current', undefined, params as Record<string, string | number>
+      'GET', '/data_usages/current', undefined, params as Record<string, string | number>, { ...options, operation: 'listAllDataUsage' }
     );
   }
 
@@ -498,86 +1158,93 @@ export class BinaryLaneClient {
    * Retrieves available kernels for a specific server
    * @param serverId The unique identifier of the server
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of available kernels
    * @throws {ApiError} If the API request fails
    * @example
    * const { kernels } = await client.getServerKernels(12345);
    */
-  async getServerKernels(serverId: number, params?: PaginationParams) {
+  async getServerKernels(serverId: number, params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ kernels: Kernel[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/servers/${serverId}/kernels`, undefined, params as Record<string, string | number>
+      'GET', `/servers/${serverId}/kernels`, undefined, params as Record<string, string | number>, { ...options, operation: 'getServerKernels' }
     );
   }
 
   /**
    * Retrieves available advanced features for a specific server
    * @param serverId The unique identifier of the server
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of available advanced server features
    * @throws {ApiError} If the API request fails
    * @example
    * const { available_advanced_server_features } = await client.getServerAvailableFeatures(12345);
    */
-  async getServerAvailableFeatures(serverId: number) {
+  async getServerAvailableFeatures(serverId: number, options?: RequestOptions) {
     return this.request<{ available_advanced_server_features: AdvancedServerFeature[] }>(
-      'GET', `/servers/${serverId}/available_advanced_features`
+      'GET', `/servers/${serverId}/available_advanced_features`, undefined, undefined, { ...options, operation: 'getServerAvailableFeatures' }
     );
   }
 
   /**
    * Retrieves threshold alert configuration for a specific server
    * @param serverId The unique identifier of the server
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of configured threshold alerts
    * @throws {ApiError} If the API request fails
    * @example
    * const { threshold_alerts } = await client.getServerThresholdAlerts(12345);
    */
-  async getServerThresholdAlerts(serverId: number) {
-    return this.request<{ threshold_alerts: ThresholdAlert[] }>('GET', `/servers/${serverId}/threshold_alerts`);
+  async getServerThresholdAlerts(serverId: number, options?: RequestOptions) {
+    return this.request<{ threshold_alerts: ThresholdAlert[] }>('GET', `/servers/${serverId}/threshold_alerts`, undefined, undefined, { ...options, operation: 'getServerThresholdAlerts' });
   }
 
   /**
    * Retrieves all servers that have currently exceeded their threshold alerts
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of servers with exceeded alerts
    * @throws {ApiError} If the API request fails
    * @example
    * const { current_server_alerts } = await client.listExceededThresholdAlerts();
    * console.log(`Servers with alerts: ${current_server_alerts.length}`);
    */
-  async listExceededThresholdAlerts() {
-    return this.request<{ current_server_alerts: CurrentServerAlert[] }>('GET', '/servers/threshold_alerts');
+  async listExceededThresholdAlerts(options?: RequestOptions) {
+    return this.request<{ current_server_alerts: CurrentServerAlert[] }>('GET', '/servers/threshold_alerts', undefined, undefined, { ...options, operation: 'listExceededThresholdAlerts' });
   }
 
   /**
    * Retrieves licensed software installed on a specific server
    * @param serverId The unique identifier of the server
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of licensed software
    * @throws {ApiError} If the API request fails
    * @example
    * const { software } = await client.getServerSoftware(12345);
    */
-  async getServerSoftware(serverId: number, params?: PaginationParams) {
+  async getServerSoftware(serverId: number, params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ software: LicensedSoftware[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/servers/${serverId}/software`, undefined, params as Record<string, string | number>
+      'GET', `/servers/${serverId}/software`, undefined, params as Record<string, string | number>, { ...options, operation: 'getServerSoftware' }
     );
   }
 
   /**
    * Retrieves the cloud-init user data for a specific server
    * @param serverId The unique identifier of the server
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the user data string
    * @throws {ApiError} If the API request fails
    * @example
    * const { user_data } = await client.getServerUserData(12345);
    */
-  async getServerUserData(serverId: number) {
-    return this.request<{ user_data: string }>('GET', `/servers/${serverId}/user_data`);
+  async getServerUserData(serverId: number, options?: RequestOptions) {
+    return this.request<{ user_data: string }>('GET', `/servers/${serverId}/user_data`, undefined, undefined, { ...options, operation: 'getServerUserData' });
   }
 
   /**
    * Uploads a backup image from a URL to a server
    * @param serverId The unique identifier of the server
    * @param request The upload request containing the URL and optional label
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the action details for tracking the upload
    * @throws {ApiError} If the API request fails
    * @example
@@ -586,22 +1253,23 @@ export class BinaryLaneClient {
    *   label: 'My Backup'
    * });
    */
-  async uploadBackup(serverId: number, request: UploadImageRequest) {
-    return this.request<{ action: Action }>('POST', `/servers/${serverId}/backups`, request);
+  async uploadBackup(serverId: number, request: UploadImageRequest, options?: RequestOptions) {
+    return this.request<{ action: Action }>('POST', `/servers/${serverId}/backups`, request, undefined, { ...options, operation: 'uploadBackup' });
   }
 
   /**
    * Retrieves a paginated list of snapshots for a specific server
    * @param serverId The unique identifier of the server
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of snapshots with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { snapshots } = await client.getServerSnapshots(12345);
    */
-  async getServerSnapshots(serverId: number, params?: PaginationParams) {
+  async getServerSnapshots(serverId: number, params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ snapshots: Backup[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/servers/${serverId}/snapshots`, undefined, params as Record<string, string | number>
+      'GET', `/servers/${serverId}/snapshots`, undefined, params as Record<string, string | number>, { ...options, operation: 'getServerSnapshots' }
     );
   }
 
@@ -610,17 +1278,18 @@ export class BinaryLaneClient {
    * @param serverId The unique identifier of the server
    * @param ipAddress The IPv6 address to update
    * @param reverseName The reverse DNS name to set
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the reverse DNS is updated
    * @throws {ApiError} If the API request fails
    * @example
    * await client.updateIpv6Reverse(12345, '2001:db8::1', 'server.example.com');
    */
-  async updateIpv6Reverse(serverId: number, ipAddress: string, reverseName: string) {
+  async updateIpv6Reverse(serverId: number, ipAddress: string, reverseName: string, options?: RequestOptions) {
     return this.request<void>('PUT', '/reverse_names/ipv6', {
       server_id: serverId,
       ip_address: ipAddress,
       reverse_name: reverseName,
-    });
+    }, undefined, { ...options, operation: 'updateIpv6Reverse' });
   }
 
   // ==================== Sample Sets (Metrics) ====================
@@ -629,6 +1298,7 @@ export class BinaryLaneClient {
    * Retrieves historical performance metrics for a specific server
    * @param serverId The unique identifier of the server
    * @param params Optional parameters for filtering metrics by time range and interval
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of sample sets with metrics data
    * @throws {ApiError} If the API request fails
    * @example
@@ -644,23 +1314,24 @@ export class BinaryLaneClient {
     end?: string;
     page?: number;
     per_page?: number;
-  }) {
+  }, options?: RequestOptions) {
     return this.request<{ sample_sets: SampleSet[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/samplesets/${serverId}`, undefined, params as Record<string, string | number>
+      'GET', `/samplesets/${serverId}`, undefined, params as Record<string, string | number>, { ...options, operation: 'getServerMetrics' }
     );
   }
 
   /**
    * Retrieves the most recent performance metrics for a specific server
    * @param serverId The unique identifier of the server
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the latest sample set with CPU, memory, disk, and network metrics
    * @throws {ApiError} If the API request fails
    * @example
    * const { sample_set } = await client.getServerLatestMetrics(12345);
    * console.log(`CPU usage: ${sample_set.average?.cpu}%`);
    */
-  async getServerLatestMetrics(serverId: number) {
-    return this.request<{ sample_set: SampleSet }>('GET', `/samplesets/${serverId}/latest`);
+  async getServerLatestMetrics(serverId: number, options?: RequestOptions) {
+    return this.request<{ sample_set: SampleSet }>('GET', `/samplesets/${serverId}/latest`, undefined, undefined, { ...options, operation: 'getServerLatestMetrics' });
   }
 
   // ==================== Images ====================
@@ -668,46 +1339,61 @@ export class BinaryLaneClient {
   /**
    * Retrieves a paginated list of available images (distributions, backups, snapshots)
    * @param params Optional pagination parameters and type filter (e.g., 'distribution', 'backup', 'snapshot')
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of images with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { images } = await client.listImages({ type: 'distribution', per_page: 50 });
    */
-  async listImages(params?: PaginationParams & { type?: string }) {
+  async listImages(params?: PaginationParams & { type?: string }, options?: RequestOptions) {
     return this.request<{ images: Image[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/images', undefined, params as Record<string, string | number>
+      'GET', '/images', undefined, params as Record<string, string | number>, { ...options, operation: 'listImages' }
     );
   }
 
+  /**
+   * Retrieves every image, following pagination
+   * @param params Optional type filter
+   * @param options Optional cap on the number of images
+   * @returns Promise containing all images and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllImages(params?: { type?: string }, options?: PaginateOptions) {
+    return this.listAll('images', page => this.listImages({ ...params, ...page }, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves detailed information about a specific image
    * @param imageIdOrSlug The unique identifier or slug of the image
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the image details
    * @throws {ApiError} If the API request fails or image is not found
    * @example
    * const { image } = await client.getImage('ubuntu-22.04');
    * console.log(`Image name: ${image.name}`);
    */
-  async getImage(imageIdOrSlug: number | string) {
-    return this.request<{ image: Image }>('GET', `/images/${imageIdOrSlug}`);
+  async getImage(imageIdOrSlug: number | string, options?: RequestOptions) {
+    return this.request<{ image: Image }>('GET', `/images/${imageIdOrSlug}`, undefined, undefined, { ...options, operation: 'getImage' });
   }
 
   /**
    * Deletes a custom image (backup or snapshot)
    * @param imageId The unique identifier of the image to delete
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the image is deleted
    * @throws {ApiError} If the API request fails
    * @example
    * await client.deleteImage(12345);
    */
-  async deleteImage(imageId: number) {
-    return this.request<void>('DELETE', `/images/${imageId}`);
+  async deleteImage(imageId: number, options?: RequestOptions) {
+    return this.request<void>('DELETE', `/images/${imageId}`, undefined, undefined, { ...options, operation: 'deleteImage' });
   }
 
   /**
    * Updates the name or description of a custom image
    * @param imageId The unique identifier of the image
    * @param request The update request containing the new name and/or description
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the updated image
    * @throws {ApiError} If the API request fails
    * @example
@@ -716,21 +1402,22 @@ export class BinaryLaneClient {
    *   description: 'Production backup from 2024-01-15'
    * });
    */
-  async updateImage(imageId: number, request: UpdateImageRequest) {
-    return this.request<{ image: Image }>('PUT', `/images/${imageId}`, request);
+  async updateImage(imageId: number, request: UpdateImageRequest, options?: RequestOptions) {
+    return this.request<{ image: Image }>('PUT', `/images/${imageId}`, request, undefined, { ...options, operation: 'updateImage' });
   }
 
   /**
    * Retrieves a download URL for a custom image
    * @param imageId The unique identifier of the image
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the download link
    * @throws {ApiError} If the API request fails
    * @example
    * const { links } = await client.getImageDownload(12345);
    * console.log(`Download URL: ${links.download}`);
    */
-  async getImageDownload(imageId: number) {
-    return this.request<{ links: { download: string } }>('GET', `/images/${imageId}/download`);
+  async getImageDownload(imageId: number, options?: RequestOptions) {
+    return this.request<{ links: { download: string } }>('GET', `/images/${imageId}/download`, undefined, undefined, { ...options, operation: 'getImageDownload' });
   }
 
   // ==================== SSH Keys ====================
@@ -738,33 +1425,46 @@ export class BinaryLaneClient {
   /**
    * Retrieves a paginated list of SSH keys registered to the account
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of SSH keys with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { ssh_keys } = await client.listSshKeys({ per_page: 20 });
    */
-  async listSshKeys(params?: PaginationParams) {
+  async listSshKeys(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ ssh_keys: SshKey[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/account/keys', undefined, params as Record<string, string | number>
+      'GET', '/account/keys', undefined, params as Record<string, string | number>, { ...options, operation: 'listSshKeys' }
     );
   }
 
+  /**
+   * Retrieves every SSH key registered to the account, following pagination
+   * @param options Optional cap on the number of keys
+   * @returns Promise containing all SSH keys and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllSshKeys(options?: PaginateOptions) {
+    return this.listAll('ssh_keys', page => this.listSshKeys(page, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves details about a specific SSH key
    * @param keyId The unique identifier of the SSH key
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the SSH key details
    * @throws {ApiError} If the API request fails or key is not found
    * @example
    * const { ssh_key } = await client.getSshKey(12345);
    * console.log(`Key name: ${ssh_key.name}`);
    */
-  async getSshKey(keyId: number) {
-    return this.request<{ ssh_key: SshKey }>('GET', `/account/keys/${keyId}`);
+  async getSshKey(keyId: number, options?: RequestOptions) {
+    return this.request<{ ssh_key: SshKey }>('GET', `/account/keys/${keyId}`, undefined, undefined, { ...options, operation: 'getSshKey' });
   }
 
   /**
    * Registers a new SSH public key to the account
    * @param request The SSH key creation request containing the public key and name
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the newly created SSH key
    * @throws {ApiError} If the API request fails or the key is invalid
    * @example
@@ -774,33 +1474,35 @@ export class BinaryLaneClient {
    *   default: true
    * });
    */
-  async createSshKey(request: CreateSshKeyRequest) {
-    return this.request<{ ssh_key: SshKey }>('POST', '/account/keys', request);
+  async createSshKey(request: CreateSshKeyRequest, options?: RequestOptions) {
+    return this.request<{ ssh_key: SshKey }>('POST', '/account/keys', request, undefined, { ...options, operation: 'createSshKey' });
   }
 
   /**
    * Updates an existing SSH key's name or default status
    * @param keyId The unique identifier of the SSH key
    * @param request The update request containing the new name and/or default status
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the updated SSH key
    * @throws {ApiError} If the API request fails
    * @example
    * const { ssh_key } = await client.updateSshKey(12345, { name: 'Work Laptop' });
    */
-  async updateSshKey(keyId: number, request: UpdateSshKeyRequest) {
-    return this.request<{ ssh_key: SshKey }>('PUT', `/account/keys/${keyId}`, request);
+  async updateSshKey(keyId: number, request: UpdateSshKeyRequest, options?: RequestOptions) {
+    return this.request<{ ssh_key: SshKey }>('PUT', `/account/keys/${keyId}`, request, undefined, { ...options, operation: 'updateSshKey' });
   }
 
   /**
    * Deletes an SSH key from the account
    * @param keyId The unique identifier of the SSH key to delete
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the key is deleted
    * @throws {ApiError} If the API request fails
    * @example
    * await client.deleteSshKey(12345);
    */
-  async deleteSshKey(keyId: number) {
-    return this.request<void>('DELETE', `/account/keys/${keyId}`);
+  async deleteSshKey(keyId: number, options?: RequestOptions) {
+    return this.request<void>('DELETE', `/account/keys/${keyId}`, undefined, undefined, { ...options, operation: 'deleteSshKey' });
   }
 
   // ==================== Domains ====================
@@ -808,33 +1510,46 @@ export class BinaryLaneClient {
   /**
    * Retrieves a paginated list of domains managed in the account
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of domains with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { domains } = await client.listDomains({ per_page: 20 });
    */
-  async listDomains(params?: PaginationParams) {
+  async listDomains(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ domains: Domain[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/domains', undefined, params as Record<string, string | number>
+      'GET', '/domains', undefined, params as Record<string, string | number>, { ...options, operation: 'listDomains' }
     );
   }
 
+  /**
+   * Retrieves every domain, following pagination
+   * @param options Optional cap on the number of domains
+   * @returns Promise containing all domains and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllDomains(options?: PaginateOptions) {
+    return this.listAll('domains', page => this.listDomains(page, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves detailed information about a specific domain
    * @param domainName The domain name or ID
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the domain details including nameservers
    * @throws {ApiError} If the API request fails or domain is not found
    * @example
    * const { domain } = await client.getDomain('example.com');
    * console.log(`Nameservers: ${domain.current_nameservers?.join(', ')}`);
    */
-  async getDomain(domainName: string | number) {
-    return this.request<{ domain: Domain }>('GET', `/domains/${domainName}`);
+  async getDomain(domainName: string | number, options?: RequestOptions) {
+    return this.request<{ domain: Domain }>('GET', `/domains/${domainName}`, undefined, undefined, { ...options, operation: 'getDomain' });
   }
 
   /**
    * Registers a new domain to be managed by BinaryLane DNS
    * @param request The domain creation request containing the domain name and optional IP address
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the newly created domain
    * @throws {ApiError} If the API request fails or domain already exists
    * @example
@@ -843,49 +1558,63 @@ export class BinaryLaneClient {
    *   ip_address: '203.0.113.10'
    * });
    */
-  async createDomain(request: CreateDomainRequest) {
-    return this.request<{ domain: Domain }>('POST', '/domains', request);
+  async createDomain(request: CreateDomainRequest, options?: RequestOptions) {
+    return this.request<{ domain: Domain }>('POST', '/domains', request, undefined, { ...options, operation: 'createDomain' });
   }
 
   /**
    * Deletes a domain from BinaryLane DNS management
    * @param domainName The domain name or ID to delete
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the domain is deleted
    * @throws {ApiError} If the API request fails
    * @example
    * await client.deleteDomain('example.com');
    */
-  async deleteDomain(domainName: string | number) {
-    return this.request<void>('DELETE', `/domains/${domainName}`);
+  async deleteDomain(domainName: string | number, options?: RequestOptions) {
+    return this.request<void>('DELETE', `/domains/${domainName}`, undefined, undefined, { ...options, operation: 'deleteDomain' });
   }
 
   /**
    * Retrieves a paginated list of DNS records for a specific domain
    * @param domainName The domain name or ID
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of domain records with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { domain_records } = await client.listDomainRecords('example.com');
    */
-  async listDomainRecords(domainName: string | number, params?: PaginationParams) {
+  async listDomainRecords(domainName: string | number, params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ domain_records: DomainRecord[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/domains/${domainName}/records`, undefined, params as Record<string, string | number>
+      'GET', `/domains/${domainName}/records`, undefined, params as Record<string, string | number>, { ...options, operation: 'listDomainRecords' }
     );
   }
 
+  /**
+   * Retrieves every DNS record of a domain, following pagination
+   * @param domainName The domain name or ID
+   * @param options Optional cap on the number of records
+   * @returns Promise containing all records and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllDomainRecords(domainName: string | number, options?: PaginateOptions) {
+    return this.listAll('domain_records', page => this.listDomainRecords(domainName, page, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves details about a specific DNS record
    * @param domainName The domain name or ID
    * @param recordId The unique identifier of the DNS record
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the domain record details
    * @throws {ApiError} If the API request fails or record is not found
    * @example
    * const { domain_record } = await client.getDomainRecord('example.com', 12345);
    */
-  async getDomainRecord(domainName: string | number, recordId: number) {
+  async getDomainRecord(domainName: string | number, recordId: number, options?: RequestOptions) {
     return this.request<{ domain_record: DomainRecord }>(
-      'GET', `/domains/${domainName}/records/${recordId}`
+      'GET', `/domains/${domainName}/records/${recordId}`, undefined, undefined, { ...options, operation: 'getDomainRecord' }
     );
   }
 
@@ -893,6 +1622,7 @@ export class BinaryLaneClient {
    * Creates a new DNS record for a domain
    * @param domainName The domain name or ID
    * @param request The DNS record creation request
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the newly created domain record
    * @throws {ApiError} If the API request fails or validation errors occur
    * @example
@@ -903,9 +1633,9 @@ export class BinaryLaneClient {
    *   ttl: 3600
    * });
    */
-  async createDomainRecord(domainName: string | number, request: CreateDomainRecordRequest) {
+  async createDomainRecord(domainName: string | number, request: CreateDomainRecordRequest, options?: RequestOptions) {
     return this.request<{ domain_record: DomainRecord }>(
-      'POST', `/domains/${domainName}/records`, request
+      'POST', `/domains/${domainName}/records`, request, undefined, { ...options, operation: 'createDomainRecord' }
     );
   }
 
@@ -914,6 +1644,7 @@ export class BinaryLaneClient {
    * @param domainName The domain name or ID
    * @param recordId The unique identifier of the DNS record
    * @param request The DNS record update request
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the updated domain record
    * @throws {ApiError} If the API request fails
    * @example
@@ -922,9 +1653,9 @@ export class BinaryLaneClient {
    *   ttl: 7200
    * });
    */
-  async updateDomainRecord(domainName: string | number, recordId: number, request: UpdateDomainRecordRequest) {
+  async updateDomainRecord(domainName: string | number, recordId: number, request: UpdateDomainRecordRequest, options?: RequestOptions) {
     return this.request<{ domain_record: DomainRecord }>(
-      'PUT', `/domains/${domainName}/records/${recordId}`, request
+      'PUT', `/domains/${domainName}/records/${recordId}`, request, undefined, { ...options, operation: 'updateDomainRecord' }
     );
   }
 
@@ -932,37 +1663,40 @@ export class BinaryLaneClient {
    * Deletes a DNS record from a domain
    * @param domainName The domain name or ID
    * @param recordId The unique identifier of the DNS record to delete
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the record is deleted
    * @throws {ApiError} If the API request fails
    * @example
    * await client.deleteDomainRecord('example.com', 12345);
    */
-  async deleteDomainRecord(domainName: string | number, recordId: number) {
-    return this.request<void>('DELETE', `/domains/${domainName}/records/${recordId}`);
+  async deleteDomainRecord(domainName: string | number, recordId: number, options?: RequestOptions) {
+    return this.request<void>('DELETE', `/domains/${domainName}/records/${recordId}`, undefined, undefined, { ...options, operation: 'deleteDomainRecord' });
   }
 
   /**
    * Retrieves the list of BinaryLane nameservers
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of nameservers with their IP addresses
    * @throws {ApiError} If the API request fails
    * @example
    * const { nameservers } = await client.listNameservers();
    * nameservers.forEach(ns => console.log(`${ns.name}: ${ns.ip_addresses.join(', ')}`));
    */
-  async listNameservers() {
-    return this.request<{ nameservers: Nameserver[] }>('GET', '/domains/nameservers');
+  async listNameservers(options?: RequestOptions) {
+    return this.request<{ nameservers: Nameserver[] }>('GET', '/domains/nameservers', undefined, undefined, { ...options, operation: 'listNameservers' });
   }
 
   /**
    * Refreshes the nameserver cache for a specific domain
    * @param domainName The domain name to refresh
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the cache is refreshed
    * @throws {ApiError} If the API request fails
    * @example
    * await client.refreshNameserverCache('example.com');
    */
-  async refreshNameserverCache(domainName: string) {
-    return this.request<void>('POST', '/domains/refresh_nameserver_cache', { domain_name: domainName });
+  async refreshNameserverCache(domainName: string, options?: RequestOptions) {
+    return this.request<void>('POST', '/domains/refresh_nameserver_cache', { domain_name: domainName }, undefined, { ...options, operation: 'refreshNameserverCache', idempotent: true });
   }
 
   // ==================== Reverse Names ====================
@@ -970,14 +1704,15 @@ export class BinaryLaneClient {
   /**
    * Retrieves a paginated list of IPv6 reverse DNS entries
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of IPv6 reverse DNS entries
    * @throws {ApiError} If the API request fails
    * @example
    * const { reverse_names } = await client.listIpv6ReverseName();
    */
-  async listIpv6ReverseName(params?: PaginationParams) {
+  async listIpv6ReverseName(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ reverse_names: ReverseName[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/reverse_names/ipv6', undefined, params as Record<string, string | number>
+      'GET', '/reverse_names/ipv6', undefined, params as Record<string, string | number>, { ...options, operation: 'listIpv6ReverseName' }
     );
   }
 
@@ -986,33 +1721,46 @@ export class BinaryLaneClient {
   /**
    * Retrieves a paginated list of Virtual Private Clouds (VPCs)
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of VPCs with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { vpcs } = await client.listVpcs({ per_page: 20 });
    */
-  async listVpcs(params?: PaginationParams) {
+  async listVpcs(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ vpcs: Vpc[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/vpcs', undefined, params as Record<string, string | number>
+      'GET', '/vpcs', undefined, params as Record<string, string | number>, { ...options, operation: 'listVpcs' }
     );
   }
 
+  /**
+   * Retrieves every VPC, following pagination
+   * @param options Optional cap on the number of VPCs
+   * @returns Promise containing all VPCs and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllVpcs(options?: PaginateOptions) {
+    return this.listAll('vpcs', page => this.listVpcs(page, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves detailed information about a specific VPC
    * @param vpcId The unique identifier of the VPC
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the VPC details including IP range and route entries
    * @throws {ApiError} If the API request fails or VPC is not found
    * @example
    * const { vpc } = await client.getVpc(12345);
    * console.log(`VPC IP range: ${vpc.ip_range}`);
    */
-  async getVpc(vpcId: number) {
-    return this.request<{ vpc: Vpc }>('GET', `/vpcs/${vpcId}`);
+  async getVpc(vpcId: number, options?: RequestOptions) {
+    return this.request<{ vpc: Vpc }>('GET', `/vpcs/${vpcId}`, undefined, undefined, { ...options, operation: 'getVpc' });
   }
 
   /**
    * Creates a new Virtual Private Cloud (VPC)
    * @param request The VPC creation request containing name and optional IP range
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the newly created VPC
    * @throws {ApiError} If the API request fails or validation errors occur
    * @example
@@ -1021,82 +1769,110 @@ export class BinaryLaneClient {
    *   ip_range: '10.0.0.0/16'
    * });
    */
-  async createVpc(request: CreateVpcRequest) {
-    return this.request<{ vpc: Vpc }>('POST', '/vpcs', request);
+  async createVpc(request: CreateVpcRequest, options?: RequestOptions) {
+    return this.request<{ vpc: Vpc }>('POST', '/vpcs', request, undefined, { ...options, operation: 'createVpc' });
   }
 
   /**
    * Updates an existing VPC's name or route entries
    * @param vpcId The unique identifier of the VPC
    * @param request The VPC update request containing the new name and/or route entries
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the updated VPC
    * @throws {ApiError} If the API request fails
    * @example
    * const { vpc } = await client.updateVpc(12345, { name: 'staging-vpc' });
    */
-  async updateVpc(vpcId: number, request: UpdateVpcRequest) {
-    return this.request<{ vpc: Vpc }>('PATCH', `/vpcs/${vpcId}`, request);
+  async updateVpc(vpcId: number, request: UpdateVpcRequest, options?: RequestOptions) {
+    return this.request<{ vpc: Vpc }>('PATCH', `/vpcs/${vpcId}`, request, undefined, { ...options, operation: 'updateVpc' });
   }
 
   /**
    * Deletes a Virtual Private Cloud (VPC)
    * @param vpcId The unique identifier of the VPC to delete
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the VPC is deleted
    * @throws {ApiError} If the API request fails
    * @example
    * await client.deleteVpc(12345);
    */
-  async deleteVpc(vpcId: number) {
-    return this.request<void>('DELETE', `/vpcs/${vpcId}`);
+  async deleteVpc(vpcId: number, options?: RequestOptions) {
+    return this.request<void>('DELETE', `/vpcs/${vpcId}`, undefined, undefined, { ...options, operation: 'deleteVpc' });
   }
 
   /**
    * Retrieves a paginated list of resources that are members of a VPC
    * @param vpcId The unique identifier of the VPC
    * @param params Optional pagination parameters and resource type filter
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of VPC members with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { members } = await client.getVpcMembers(12345, { resource_type: 'server' });
    */
-  async getVpcMembers(vpcId: number, params?: PaginationParams & { resource_type?: string }) {
+  async getVpcMembers(vpcId: number, params?: PaginationParams & { resource_type?: string }, options?: RequestOptions) {
     return this.request<{ members: VpcMember[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/vpcs/${vpcId}/members`, undefined, params as Record<string, string | number>
+      'GET', `/vpcs/${vpcId}/members`, undefined, params as Record<string, string | number>, { ...options, operation: 'getVpcMembers' }
     );
   }
 
+  /**
+   * Retrieves every member of a VPC, following pagination
+   * @param vpcId The unique identifier of the VPC
+   * @param params Optional resource type filter
+   * @param options Optional cap on the number of members
+   * @returns Promise containing all members and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllVpcMembers(vpcId: number, params?: { resource_type?: string }, options?: PaginateOptions) {
+    return this.listAll('members', page => this.getVpcMembers(vpcId, { ...params, ...page }, { priority: 'bulk', ...options }), options);
+  }
+
   // ==================== Load Balancers ====================
 
   /**
    * Retrieves a paginated list of load balancers
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of load balancers with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { load_balancers } = await client.listLoadBalancers({ per_page: 20 });
    */
-  async listLoadBalancers(params?: PaginationParams) {
+  async listLoadBalancers(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ load_balancers: LoadBalancer[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/load_balancers', undefined, params as Record<string, string | number>
+      'GET', '/load_balancers', undefined, params as Record<string, string | number>, { ...options, operation: 'listLoadBalancers' }
     );
   }
 
+  /**
+   * Retrieves every load balancer, following pagination
+   * @param options Optional cap on the number of load balancers
+   * @returns Promise containing all load balancers and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllLoadBalancers(options?: PaginateOptions) {
+    return this.listAll('load_balancers', page => this.listLoadBalancers(page, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves detailed information about a specific load balancer
    * @param loadBalancerId The unique identifier of the load balancer
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the load balancer details
    * @throws {ApiError} If the API request fails or load balancer is not found
    * @example
    * const { load_balancer } = await client.getLoadBalancer(12345);
    * console.log(`Load balancer IP: ${load_balancer.ip}`);
    */
-  async getLoadBalancer(loadBalancerId: number) {
-    return this.request<{ load_balancer: LoadBalancer }>('GET', `/load_balancers/${loadBalancerId}`);
+  async getLoadBalancer(loadBalancerId: number, options?: RequestOptions) {
+    return this.request<{ load_balancer: LoadBalancer }>('GET', `/load_balancers/${loadBalancerId}`, undefined, undefined, { ...options, operation: 'getLoadBalancer' });
   }
 
   /**
    * Creates a new load balancer with the specified configuration
    * @param request The load balancer creation request containing forwarding rules, health checks, and server IDs
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the newly created load balancer
    * @throws {ApiError} If the API request fails or validation errors occur
    * @example
@@ -1106,14 +1882,15 @@ export class BinaryLaneClient {
    *   server_ids: [1, 2, 3]
    * });
    */
-  async createLoadBalancer(request: CreateLoadBalancerRequest) {
-    return this.request<{ load_balancer: LoadBalancer }>('POST', '/load_balancers', request);
+  async createLoadBalancer(request: CreateLoadBalancerRequest, options?: RequestOptions) {
+    return this.request<{ load_balancer: LoadBalancer }>('POST', '/load_balancers', request, undefined, { ...options, operation: 'createLoadBalancer' });
   }
 
   /**
    * Updates an existing load balancer's configuration
    * @param loadBalancerId The unique identifier of the load balancer
    * @param request The update request containing the new configuration
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the updated load balancer
    * @throws {ApiError} If the API request fails
    * @example
@@ -1122,33 +1899,35 @@ export class BinaryLaneClient {
    *   algorithm: 'round_robin'
    * });
    */
-  async updateLoadBalancer(loadBalancerId: number, request: UpdateLoadBalancerRequest) {
-    return this.request<{ load_balancer: LoadBalancer }>('PUT', `/load_balancers/${loadBalancerId}`, request);
+  async updateLoadBalancer(loadBalancerId: number, request: UpdateLoadBalancerRequest, options?: RequestOptions) {
+    return this.request<{ load_balancer: LoadBalancer }>('PUT', `/load_balancers/${loadBalancerId}`, request, undefined, { ...options, operation: 'updateLoadBalancer' });
   }
 
   /**
    * Deletes a load balancer
    * @param loadBalancerId The unique identifier of the load balancer to delete
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the load balancer is deleted
    * @throws {ApiError} If the API request fails
    * @example
    * await client.deleteLoadBalancer(12345);
    */
-  async deleteLoadBalancer(loadBalancerId: number) {
-    return this.request<void>('DELETE', `/load_balancers/${loadBalancerId}`);
+  async deleteLoadBalancer(loadBalancerId: number, options?: RequestOptions) {
+    return this.request<void>('DELETE', `/load_balancers/${loadBalancerId}`, undefined, undefined, { ...options, operation: 'deleteLoadBalancer' });
   }
 
   /**
    * Retrieves load balancer availability and pricing information for a region
    * @param region The region slug to check availability
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of available load balancer sizes and pricing
    * @throws {ApiError} If the API request fails
    * @example
    * const { load_balancer_availability } = await client.getLoadBalancerAvailability('syd');
    */
-  async getLoadBalancerAvailability(region: string) {
+  async getLoadBalancerAvailability(region: string, options?: RequestOptions) {
     return this.request<{ load_balancer_availability: LoadBalancerAvailability[] }>(
-      'GET', '/load_balancers/availability', undefined, { region }
+      'GET', '/load_balancers/availability', undefined, { region }, { ...options, operation: 'getLoadBalancerAvailability' }
     );
   }
 
@@ -1156,32 +1935,35 @@ export class BinaryLaneClient {
    * Adds servers to a load balancer's pool
    * @param loadBalancerId The unique identifier of the load balancer
    * @param serverIds Array of server IDs to add to the load balancer
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the servers are added
    * @throws {ApiError} If the API request fails
    * @example
    * await client.addServersToLoadBalancer(12345, [1, 2, 3]);
    */
-  async addServersToLoadBalancer(loadBalancerId: number, serverIds: number[]) {
-    return this.request<void>('POST', `/load_balancers/${loadBalancerId}/servers`, { server_ids: serverIds });
+  async addServersToLoadBalancer(loadBalancerId: number, serverIds: number[], options?: RequestOptions) {
+    return this.request<void>('POST', `/load_balancers/${loadBalancerId}/servers`, { server_ids: serverIds }, undefined, { ...options, operation: 'addServersToLoadBalancer' });
   }
 
   /**
    * Removes servers from a load balancer's pool
    * @param loadBalancerId The unique identifier of the load balancer
    * @param serverIds Array of server IDs to remove from the load balancer
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the servers are removed
    * @throws {ApiError} If the API request fails
    * @example
    * await client.removeServersFromLoadBalancer(12345, [1, 2]);
    */
-  async removeServersFromLoadBalancer(loadBalancerId: number, serverIds: number[]) {
-    return this.request<void>('DELETE', `/load_balancers/${loadBalancerId}/servers`, { server_ids: serverIds });
+  async removeServersFromLoadBalancer(loadBalancerId: number, serverIds: number[], options?: RequestOptions) {
+    return this.request<void>('DELETE', `/load_balancers/${loadBalancerId}/servers`, { server_ids: serverIds }, undefined, { ...options, operation: 'removeServersFromLoadBalancer' });
   }
 
   /**
    * Adds forwarding rules to a load balancer
    * @param loadBalancerId The unique identifier of the load balancer
    * @param forwardingRules Array of forwarding rules to add
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the forwarding rules are added
    * @throws {ApiError} If the API request fails
    * @example
@@ -1189,14 +1971,15 @@ export class BinaryLaneClient {
    *   { entry_protocol: 'https', entry_port: 443, target_protocol: 'http', target_port: 80 }
    * ]);
    */
-  async addForwardingRulesToLoadBalancer(loadBalancerId: number, forwardingRules: ForwardingRule[]) {
-    return this.request<void>('POST', `/load_balancers/${loadBalancerId}/forwarding_rules`, { forwarding_rules: forwardingRules });
+  async addForwardingRulesToLoadBalancer(loadBalancerId: number, forwardingRules: ForwardingRule[], options?: RequestOptions) {
+    return this.request<void>('POST', `/load_balancers/${loadBalancerId}/forwarding_rules`, { forwarding_rules: forwardingRules }, undefined, { ...options, operation: 'addForwardingRulesToLoadBalancer' });
   }
 
   /**
    * Removes forwarding rules from a load balancer
    * @param loadBalancerId The unique identifier of the load balancer
    * @param forwardingRules Array of forwarding rules to remove
+   * @param options Optional abort signal and timeout
    * @returns Promise that resolves when the forwarding rules are removed
    * @throws {ApiError} If the API request fails
    * @example
@@ -1204,36 +1987,38 @@ export class BinaryLaneClient {
    *   { entry_protocol: 'http', entry_port: 8080, target_protocol: 'http', target_port: 80 }
    * ]);
    */
-  async removeForwardingRulesFromLoadBalancer(loadBalancerId: number, forwardingRules: ForwardingRule[]) {
-    return this.request<void>('DELETE', `/load_balancers/${loadBalancerId}/forwarding_rules`, { forwarding_rules: forwardingRules });
+  async removeForwardingRulesFromLoadBalancer(loadBalancerId: number, forwardingRules: ForwardingRule[], options?: RequestOptions) {
+    return this.request<void>('DELETE', `/load_balancers/${loadBalancerId}/forwarding_rules`, { forwarding_rules: forwardingRules }, undefined, { ...options, operation: 'removeForwardingRulesFromLoadBalancer' });
   }
 
   // ==================== Regions & Sizes ====================
 
   /**
    * Retrieves a list of all available regions
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of regions with their features and availability
    * @throws {ApiError} If the API request fails
    * @example
    * const { regions } = await client.listRegions();
    * regions.forEach(r => console.log(`${r.name} (${r.slug}): ${r.available ? 'Available' : 'Unavailable'}`));
    */
-  async listRegions() {
-    return this.request<{ regions: Region[] }>('GET', '/regions');
+  async listRegions(options?: RequestOptions) {
+    return this.request<{ regions: Region[] }>('GET', '/regions', undefined, undefined, { ...options, operation: 'listRegions' });
   }
 
   /**
    * Retrieves a list of available server sizes (plans)
    * @param params Optional parameters to filter sizes by server ID or image
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of available sizes with pricing and specifications
    * @throws {ApiError} If the API request fails
    * @example
    * const { sizes } = await client.listSizes({ image: 'ubuntu-22.04' });
    * sizes.forEach(s => console.log(`${s.slug}: $${s.price_monthly}/month`));
    */
-  async listSizes(params?: { server_id?: number; image?: string | number }) {
+  async listSizes(params?: { server_id?: number; image?: string | number }, options?: RequestOptions) {
     return this.request<{ sizes: Size[] }>(
-      'GET', '/sizes', undefined, params as Record<string, string | number>
+      'GET', '/sizes', undefined, params as Record<string, string | number>, { ...options, operation: 'listSizes' }
     );
   }
 
@@ -1242,29 +2027,41 @@ export class BinaryLaneClient {
   /**
    * Retrieves a paginated list of all actions (global action history)
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of actions with pagination metadata
    * @throws {ApiError} If the API request fails
    * @example
    * const { actions, meta } = await client.listActions({ page: 1, per_page: 20 });
    * console.log(`Total actions: ${meta?.total}`);
    */
-  async listActions(params?: PaginationParams) {
+  async listActions(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ actions: Action[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/actions', undefined, params as Record<string, string | number>
+      'GET', '/actions', undefined, params as Record<string, string | number>, { ...options, operation: 'listActions' }
     );
   }
 
+  /**
+   * Retrieves every action in the account history, following pagination
+   * @param options Optional cap on the number of actions
+   * @returns Promise containing all actions and whether the cap cut the list short
+   * @throws {ApiError} If the API request fails
+   */
+  async listAllActions(options?: PaginateOptions) {
+    return this.listAll('actions', page => this.listActions(page, { priority: 'bulk', ...options }), options);
+  }
+
   /**
    * Retrieves details about a specific action
    * @param actionId The unique identifier of the action
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the action details including status and progress
    * @throws {ApiError} If the API request fails or action is not found
    * @example
    * const { action } = await client.getAction(12345);
    * console.log(`Action status: ${action.status}, progress: ${action.progress?.percent_complete}%`);
    */
-  async getAction(actionId: number) {
-    return this.request<{ action: Action }>('GET', `/actions/${actionId}`);
+  async getAction(actionId: number, options?: RequestOptions) {
+    return this.request<{ action: Action }>('GET', `/actions/${actionId}`, undefined, undefined, { ...options, operation: 'getAction' });
   }
 
   // ==================== Software ====================
@@ -1272,14 +2069,15 @@ export class BinaryLaneClient {
   /**
    * Retrieves a paginated list of all available licensed software
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of software with pricing information
    * @throws {ApiError} If the API request fails
    * @example
    * const { software } = await client.listSoftware({ per_page: 50 });
    */
-  async listSoftware(params?: PaginationParams) {
+  async listSoftware(params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ software: Software[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', '/software', undefined, params as Record<string, string | number>
+      'GET', '/software', undefined, params as Record<string, string | number>, { ...options, operation: 'listSoftware' }
     );
   }
 
@@ -1287,42 +2085,45 @@ export class BinaryLaneClient {
    * Retrieves a paginated list of software available for a specific operating system
    * @param operatingSystem The operating system slug or identifier
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of available software for the OS
    * @throws {ApiError} If the API request fails
    * @example
    * const { software } = await client.listAvailableSoftware('ubuntu-22.04');
    */
-  async listAvailableSoftware(operatingSystem: string, params?: PaginationParams) {
+  async listAvailableSoftware(operatingSystem: string, params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ software: Software[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/software/${operatingSystem}/available`, undefined, params as Record<string, string | number>
+      'GET', `/software/${operatingSystem}/available`, undefined, params as Record<string, string | number>, { ...options, operation: 'listAvailableSoftware' }
     );
   }
 
   /**
    * Retrieves details about a specific software package
    * @param softwareId The unique identifier of the software
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the software details including pricing and licensing information
    * @throws {ApiError} If the API request fails or software is not found
    * @example
    * const { software } = await client.getSoftware(12345);
    * console.log(`${software.name}: $${software.cost_per_licence_per_month}/license/month`);
    */
-  async getSoftware(softwareId: number) {
-    return this.request<{ software: Software }>('GET', `/software/${softwareId}`);
+  async getSoftware(softwareId: number, options?: RequestOptions) {
+    return this.request<{ software: Software }>('GET', `/software/${softwareId}`, undefined, undefined, { ...options, operation: 'getSoftware' });
   }
 
   /**
    * Retrieves a paginated list of software available for a specific operating system by OS ID
    * @param operatingSystemId The operating system ID or slug
    * @param params Optional pagination parameters
+   * @param options Optional abort signal and timeout
    * @returns Promise containing the list of software for the operating system
    * @throws {ApiError} If the API request fails
    * @example
    * const { software } = await client.listSoftwareForOS('ubuntu-22.04');
    */
-  async listSoftwareForOS(operatingSystemId: string | number, params?: PaginationParams) {
+  async listSoftwareForOS(operatingSystemId: string | number, params?: PaginationParams, options?: RequestOptions) {
     return this.request<{ software: Software[]; links?: LinksResponse; meta?: MetaResponse }>(
-      'GET', `/software/operating_system/${operatingSystemId}`, undefined, params as Record<string, string | number>
+      'GET', `/software/operating_system/${operatingSystemId}`, undefined, params as Record<string, string | number>, { ...options, operation: 'listSoftwareForOS' }
     );
   }
 }
@@ -1604,14 +2405,30 @@ interface ChangeRegionServerAction extends BaseServerAction {
   region: string;
 }
 
-// Backup schedule actions (parameters not yet defined in schema)
-interface BackupScheduleServerAction extends BaseServerAction {
-  type: 'change_backup_schedule' | 'change_offsite_backup_location' | 'change_manage_offsite_backup_copies';
+// Backup schedule (-1 stops weekly or monthly backups)
+interface ChangeBackupScheduleServerAction extends BaseServerAction {
+  type: 'change_backup_schedule';
+  backup_hour_of_day?: number;
+  backup_day_of_week?: number;
+  backup_day_of_month?: number;
+}
+
+// Offsite backup location (null uses BinaryLane's own storage)
+interface ChangeOffsiteBackupLocationServerAction extends BaseServerAction {
+  type: 'change_offsite_backup_location';
+  offsite_backup_location: string | null;
+}
+
+// Whether BinaryLane removes older offsite copies beyond the paid limit
+interface ChangeManageOffsiteBackupCopiesServerAction extends BaseServerAction {
+  type: 'change_manage_offsite_backup_copies';
+  manage_offsite_backup_copies: boolean;
 }
 
-// IPv6 reverse nameservers (parameters not yet defined in schema)
+// IPv6 reverse nameservers (an empty list removes them)
 interface ChangeIpv6ReverseNameserversServerAction extends BaseServerAction {
   type: 'change_ipv6_reverse_nameservers';
+  ipv6_reverse_nameservers: string[];
 }
 
 // Change partner
@@ -1639,7 +2456,9 @@ export type ServerAction =
   | ThresholdAlertsServerAction
   | ChangeKernelServerAction
   | ChangeRegionServerAction
-  | BackupScheduleServerAction
+  | ChangeBackupScheduleServerAction
+  | ChangeOffsiteBackupLocationServerAction
+  | ChangeManageOffsiteBackupCopiesServerAction
   | ChangeIpv6ReverseNameserversServerAction
   | ChangePartnerServerAction;
 
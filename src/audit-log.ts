@@ -0,0 +1,226 @@
+/**
+ * Audit log for BinaryLane MCP Server
+ * Appends one JSON line per mutating tool call to a file, each entry carrying the hash of the one before it
+ */
+
+import { createHash } from 'node:crypto';
+import { appendFileSync, mkdirSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import { logger } from './logger.js';
+
+export const DEFAULT_AUDIT_FILE = join(homedir(), '.binarylane-mcp', 'audit.jsonl');
+
+export const AUDIT_OUTCOMES = ['success', 'error', 'denied', 'confirmation_required', 'dry_run'] as const;
+
+export type AuditOutcome = typeof AUDIT_OUTCOMES[number];
+
+// prev_hash of the first entry in a file
+const GENESIS_HASH = '0'.repeat(64);
+
+// Argument names whose values are never written to the log, at any depth
+const REDACTED_ARGUMENTS = ['user_data'];
+// Argument names containing any of these are treated as secrets too (e.g. password, api_token)
+const SECRET_ARGUMENT_PATTERN = /password|secret|token/i;
+// Credentials embedded in a URL-valued argument (e.g. url, offsite_backup_location): scheme://userinfo@
+const URL_USERINFO_PATTERN = /^([a-z][a-z0-9+.-]*:\/\/)[^/?#\s]*@/i;
+const REDACTED = '[redacted]';
+
+// What happened in one tool call
+export interface AuditRecord {
+  tool: string;
+  account?: string;          // unset when the call named an unknown or invalid account
+  caller: string;            // authenticated client ID, or the transport when there is none
+  client?: string;           // MCP client name and version from initialize
+  arguments: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string;
+  action_id?: number;        // BinaryLane action started by the call
+}
+
+export interface AuditEntry extends AuditRecord {
+  seq: number;
+  timestamp: string;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  account?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  caller?: string;
+  since?: string;
+  until?: string;
+  limit: number;
+}
+
+export interface AuditVerification {
+  file: string;
+  entries: number;
+  intact: boolean;
+  last_hash: string;
+  problems: string[];
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, REDACTED_ARGUMENTS.includes(key) || SECRET_ARGUMENT_PATTERN.test(key) ? REDACTED : redact(item)]));
+  }
+  if (typeof value === 'string') {
+    return value.replace(URL_USERINFO_PATTERN, `$1${REDACTED}@`);
+  }
+  return value;
+}
+
+// An entry's hash covers every field before it, in the order written
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return sha256(JSON.stringify(entry));
+}
+
+function readLines(file: string): string[] {
+  try {
+    return readFileSync(file, 'utf8').split('\n').filter(line => line.trim() !== '');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * The action a tool started, from the action it returned or the link to it: links.action, or the
+ * first of links.actions.
+ */
+export function findActionId(result: unknown): number | undefined {
+  const data = (result as {
+    data?: { action?: { id?: unknown }; links?: { action?: { id?: unknown }; actions?: Array<{ id?: unknown }> } };
+  } | undefined)?.data;
+  const links = data?.links;
+  const linked = Array.isArray(links?.actions) ? links.actions.find(link => typeof link?.id === 'number') : undefined;
+  const id = data?.action?.id ?? links?.action?.id ?? linked?.id;
+  return typeof id === 'number' ? id : undefined;
+}
+
+/**
+ * Append-only audit log. Entries are chained by hash, so editing, removing or reordering
+ * any entry but the last breaks the chain; compare the last hash with a copy kept elsewhere
+ * to detect truncation. Only one process should write to a file.
+ */
+export class AuditLog {
+  private seq = 0;
+  private lastHash = GENESIS_HASH;
+
+  constructor(public readonly file: string) {
+    const last = readLines(file).at(-1);
+    if (last === undefined) {
+      return;
+    }
+    try {
+      const entry = JSON.parse(last) as AuditEntry;
+      this.seq = entry.seq;
+      this.lastHash = entry.hash;
+    } catch {
+      // Keep appending, linked to the damaged line, so verification still points at it
+      logger.warn(`Audit log ${file} ends with an unreadable entry; run verify-audit-log to check it`);
+      this.seq = readLines(file).length;
+      this.lastHash = sha256(last);
+    }
+  }
+
+  /**
+   * Append an entry for a tool call, redacting secret arguments.
+   * A failed write is logged rather than failing the call, which has already happened.
+   */
+  record(record: AuditRecord): void {
+    const unsigned: Omit<AuditEntry, 'hash'> = {
+      seq: this.seq + 1,
+      timestamp: new Date().toISOString(),
+      ...record,
+      arguments: redact(record.arguments) as Record<string, unknown>,
+      prev_hash: this.lastHash,
+    };
+    const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      appendFileSync(this.file, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+      this.seq = entry.seq;
+      this.lastHash = entry.hash;
+    } catch (error) {
+      logger.error(`Failed to write audit log ${this.file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Find entries, newest first. Entries without an account match any account.
+   */
+  query({ limit, ...filter }: AuditQuery): { entries: AuditEntry[]; total: number } {
+    const since = filter.since ? Date.parse(filter.since) : -Infinity;
+    const until = filter.until ? Date.parse(filter.until) : Infinity;
+    const matching = readLines(this.file)
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as AuditEntry];
+        } catch {
+          return [];
+        }
+      })
+      .filter(entry =>
+        (!filter.account || entry.account === undefined || entry.account === filter.account)
+        && (!filter.tool || entry.tool === filter.tool)
+        && (!filter.outcome || entry.outcome === filter.outcome)
+        && (!filter.caller || entry.caller === filter.caller)
+        && Date.parse(entry.timestamp) >= since
+        && Date.parse(entry.timestamp) <= until)
+      .reverse();
+    return { entries: matching.slice(0, limit), total: matching.length };
+  }
+}
+
+/**
+ * Recompute the hash chain of an audit log file.
+ * @returns Every broken link found, by line number
+ * @throws If the file cannot be read
+ */
+export function verifyAuditLog(file: string): AuditVerification {
+  const lines = readLines(file);
+  const problems: string[] = [];
+  let previous = GENESIS_HASH;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line) as AuditEntry;
+    } catch {
+      problems.push(`Line ${lineNumber}: not valid JSON`);
+      previous = sha256(line);
+      return;
+    }
+
+    const { hash, ...unsigned } = entry;
+    if (entry.seq !== lineNumber) {
+      problems.push(`Line ${lineNumber}: sequence number is ${entry.seq}, expected ${lineNumber} (entries removed or reordered)`);
+    }
+    if (entry.prev_hash !== previous) {
+      problems.push(`Line ${lineNumber}: prev_hash does not match the entry before it`);
+    }
+    if (hash !== hashEntry(unsigned)) {
+      problems.push(`Line ${lineNumber}: hash does not match the entry's contents (entry modified)`);
+    }
+    previous = hash;
+  });
+
+  return { file, entries: lines.length, intact: problems.length === 0, last_hash: previous, problems };
+}
@@ -0,0 +1,187 @@
+/**
+ * Inbound authentication for BinaryLane MCP Server HTTP mode
+ * Validates static API keys and HMAC-signed bearer tokens, and maps their scopes to tool groups
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { z } from 'zod';
+
+import { getToolGroup, toolGroups } from './tools.js';
+
+// Scope granting access to every tool group
+export const ALL_SCOPES = '*';
+
+// Minimum secret lengths, in characters
+const MIN_API_KEY_LENGTH = 32;
+const MIN_TOKEN_SECRET_LENGTH = 32;
+
+// ==================== Configuration ====================
+
+const ScopeSchema = z.string()
+  .refine(scope => scope === ALL_SCOPES || scope in toolGroups, scope => ({
+    message: `Unknown scope "${scope}". Valid scopes: ${ALL_SCOPES}, ${Object.keys(toolGroups).join(', ')}`,
+  }));
+
+export const AuthConfigSchema = z.object({
+  apiKeys: z.array(z.object({
+    id: z.string()
+      .min(1)
+      .describe('Identifier reported as the caller for requests using this key'),
+    key: z.string()
+      .min(MIN_API_KEY_LENGTH, `API keys must be at least ${MIN_API_KEY_LENGTH} characters`)
+      .describe('The static key, sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"'),
+    scopes: z.array(ScopeSchema)
+      .min(1)
+      .describe('Tool groups this key may list and call'),
+  })).default([]),
+  tokenSecret: z.string()
+    .min(MIN_TOKEN_SECRET_LENGTH, `tokenSecret must be at least ${MIN_TOKEN_SECRET_LENGTH} characters`)
+    .optional()
+    .describe('Shared secret used to verify HMAC-signed bearer tokens'),
+}).refine(config => config.apiKeys.length > 0 || config.tokenSecret !== undefined, {
+  message: 'At least one API key or a tokenSecret must be configured',
+});
+
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+// ==================== Bearer Tokens ====================
+
+interface TokenPayload {
+  sub: string;
+  scopes: string[];
+  exp?: number;
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+// Constant-time comparison of two strings of arbitrary length
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest();
+  const hashB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Issue an HMAC-signed bearer token.
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256(secret, encoded payload))
+ * @param secret The tokenSecret from the auth configuration
+ * @param subject Caller identity recorded for requests using this token
+ * @param scopes Tool groups the token may list and call
+ * @param ttlSeconds Optional lifetime; tokens without one never expire
+ * @example
+ * const token = issueBearerToken(secret, 'nightly-report', ['servers', 'account'], 3600);
+ */
+export function issueBearerToken(secret: string, subject: string, scopes: string[], ttlSeconds?: number): string {
+  const payload: TokenPayload = {
+    sub: subject,
+    scopes,
+    ...(ttlSeconds !== undefined && { exp: Math.floor(Date.now() / 1000) + ttlSeconds }),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(secret, encoded)}`;
+}
+
+function verifyBearerToken(secret: string, token: string): AuthInfo | undefined {
+  const [encoded, signature, extra] = token.split('.');
+  if (!encoded || !signature || extra !== undefined || !safeEqual(signature, sign(secret, encoded))) {
+    return undefined;
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return undefined;
+  }
+
+  if (typeof payload.sub !== 'string' || !Array.isArray(payload.scopes)) {
+    return undefined;
+  }
+  if (payload.exp !== undefined && payload.exp * 1000 <= Date.now()) {
+    return undefined;
+  }
+
+  return { token, clientId: payload.sub, scopes: payload.scopes, expiresAt: payload.exp };
+}
+
+// ==================== Authentication ====================
+
+/**
+ * Authenticates inbound HTTP requests against the configured API keys and token secret.
+ */
+export class Authenticator {
+  constructor(private config: AuthConfig) {}
+
+  /**
+   * Resolve the caller from request headers.
+   * Accepts "Authorization: Bearer <key-or-token>" or "X-API-Key: <key>".
+   * @returns AuthInfo for the caller, or undefined if the credentials are missing or invalid
+   */
+  authenticate(headers: Record<string, string | string[] | undefined>): AuthInfo | undefined {
+    const authorization = headers['authorization'];
+    const apiKeyHeader = headers['x-api-key'];
+
+    let credential: string | undefined;
+    if (typeof authorization === 'string' && authorization.startsWith('Bearer ')) {
+      credential = authorization.slice('Bearer '.length).trim();
+    } else if (typeof apiKeyHeader === 'string') {
+      credential = apiKeyHeader.trim();
+    }
+
+    if (!credential) {
+      return undefined;
+    }
+
+    // Check every key so timing does not reveal which one matched
+    let matched: AuthInfo | undefined;
+    for (const apiKey of this.config.apiKeys) {
+      if (safeEqual(credential, apiKey.key) && !matched) {
+        matched = { token: credential, clientId: apiKey.id, scopes: apiKey.scopes };
+      }
+    }
+    if (matched) {
+      return matched;
+    }
+
+    if (this.config.tokenSecret) {
+      return verifyBearerToken(this.config.tokenSecret, credential);
+    }
+
+    return undefined;
+  }
+}
+
+// ==================== Authorization ====================
+
+/**
+ * Check whether a caller has the scope for a tool group.
+ * Requests without auth info (stdio, or HTTP without auth configured) are unrestricted.
+ */
+export function isGroupAllowed(authInfo: AuthInfo | undefined, group: string): boolean {
+  if (!authInfo) {
+    return true;
+  }
+  return authInfo.scopes.includes(ALL_SCOPES) || authInfo.scopes.includes(group);
+}
+
+/**
+ * Check whether a caller may see every caller's activity, such as other callers' audit entries.
+ * Only requests without auth info and callers with the "*" scope can.
+ */
+export function hasFullAccess(authInfo: AuthInfo | undefined): boolean {
+  return !authInfo || authInfo.scopes.includes(ALL_SCOPES);
+}
+
+/**
+ * Check whether a caller may list and call a tool.
+ */
+export function isToolAllowed(authInfo: AuthInfo | undefined, toolName: string): boolean {
+  if (!authInfo) {
+    return true;
+  }
+  const group = getToolGroup(toolName);
+  return group !== undefined && isGroupAllowed(authInfo, group);
+}
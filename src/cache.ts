@@ -0,0 +1,247 @@
+/**
+ * Response cache for BinaryLane MCP Server
+ * Keeps GET responses for slow-changing endpoints in memory (optionally on disk) and drops them when related data changes
+ */
+
+import { readFileSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { logger } from './logger.js';
+
+// Cached endpoints and their default TTLs, in seconds
+const CACHE_ENDPOINTS = {
+  regions: { pattern: /^\/regions$/, ttl: 3600 },
+  sizes: { pattern: /^\/sizes$/, ttl: 3600 },
+  images: { pattern: /^\/images(\/[^/]+)?$/, ttl: 600 },
+  nameservers: { pattern: /^\/domains\/nameservers$/, ttl: 3600 },
+  software: { pattern: /^\/software(\/.*)?$/, ttl: 3600 },
+  domain_records: { pattern: /^\/domains\/[^/]+\/records$/, ttl: 300 },
+  servers: { pattern: /^\/servers\/\d+$/, ttl: 15 },
+};
+
+export type CacheEndpoint = keyof typeof CACHE_ENDPOINTS;
+
+export const CACHE_ENDPOINT_NAMES = Object.keys(CACHE_ENDPOINTS) as CacheEndpoint[];
+
+// Changes under these paths also affect other cached lists (e.g., backups appear as images).
+// Domains can be addressed by name or ID, so a change to one drops every cached domain response.
+const RELATED_PATHS: Array<{ pattern: RegExp; invalidates: string[] }> = [
+  { pattern: /^\/servers(\/|$)/, invalidates: ['/images'] },
+  { pattern: /^\/images(\/|$)/, invalidates: ['/servers'] },
+  { pattern: /^\/domains(\/|$)/, invalidates: ['/domains'] },
+];
+
+// How long changes are gathered before the cache file is written, in milliseconds
+const SAVE_DELAY = 1000;
+
+export interface CacheConfig {
+  enabled?: boolean;          // default: true
+  ttls?: Partial<Record<CacheEndpoint, number>>; // seconds; 0 disables caching for that endpoint
+  directory?: string;         // persist the cache across restarts, one file per API token
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  endpoints: Partial<Record<CacheEndpoint, { hits: number; misses: number }>>;
+}
+
+interface CacheEntry {
+  endpoint: CacheEndpoint;
+  expires: number;
+  value: unknown;
+}
+
+/**
+ * In-memory cache of API responses with per-endpoint TTLs.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttls: Record<CacheEndpoint, number>;
+  private counters = { hits: 0, misses: 0, invalidations: 0 };
+  private endpointCounters: CacheStats['endpoints'] = {};
+  // Bumped each time a key's response is dropped, so responses fetched before the drop are not stored
+  private generations = new Map<string, number>();
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param config Cache settings
+   * @param diskFile File to load the cache from and save it to, if any
+   */
+  constructor(private config: CacheConfig = {}, private diskFile?: string) {
+    this.ttls = Object.fromEntries(
+      CACHE_ENDPOINT_NAMES.map(name => [name, config.ttls?.[name] ?? CACHE_ENDPOINTS[name].ttl])
+    ) as Record<CacheEndpoint, number>;
+
+    if (diskFile) {
+      this.load(diskFile);
+    }
+  }
+
+  /**
+   * Find the cached endpoint a GET path belongs to.
+   * @returns The endpoint, or undefined if responses for this path are not cached
+   */
+  endpointFor(path: string): CacheEndpoint | undefined {
+    if (this.config.enabled === false) {
+      return undefined;
+    }
+    return CACHE_ENDPOINT_NAMES.find(name => this.ttls[name] > 0 && CACHE_ENDPOINTS[name].pattern.test(path));
+  }
+
+  get<T>(key: string, endpoint: CacheEndpoint): T | undefined {
+    const entry = this.entries.get(key);
+    const counters = (this.endpointCounters[endpoint] ??= { hits: 0, misses: 0 });
+
+    if (entry && entry.expires > Date.now()) {
+      this.counters.hits++;
+      counters.hits++;
+      return entry.value as T;
+    }
+
+    if (entry) {
+      this.entries.delete(key);
+    }
+    this.counters.misses++;
+    counters.misses++;
+    return undefined;
+  }
+
+  /**
+   * The current generation of a key. Read it before fetching and pass it to set, so a response
+   * that was in flight when the key was invalidated is discarded.
+   */
+  generation(key: string): number {
+    const generation = this.generations.get(key) ?? 0;
+    this.generations.set(key, generation);
+    return generation;
+  }
+
+  /**
+   * Store a response.
+   * @param generation The key's generation when the fetch started; the value is discarded if it has changed
+   */
+  set(key: string, endpoint: CacheEndpoint, value: unknown, generation?: number): void {
+    if (generation !== undefined && generation !== this.generation(key)) {
+      return;
+    }
+    this.entries.set(key, { endpoint, expires: Date.now() + this.ttls[endpoint] * 1000, value });
+    this.scheduleSave();
+  }
+
+  /**
+   * Drop cached responses affected by a change to a path.
+   * A change to /servers/123/actions drops everything under /servers/123 plus the /servers list.
+   */
+  invalidate(path: string): void {
+    const segments = path.split('?')[0].split('/').filter(Boolean);
+    const collection = `/${segments[0] ?? ''}`;
+    const resource = segments.length > 1 ? `${collection}/${segments[1]}` : collection;
+    const related = RELATED_PATHS.filter(r => r.pattern.test(path)).flatMap(r => r.invalidates);
+
+    const affected = (key: string) => {
+      const keyPath = key.split('?')[0];
+      return keyPath === collection
+        || keyPath === resource
+        || keyPath.startsWith(`${resource}/`)
+        || related.some(prefix => keyPath === prefix || keyPath.startsWith(`${prefix}/`));
+    };
+
+    for (const [key, generation] of this.generations) {
+      if (affected(key)) {
+        this.generations.set(key, generation + 1);
+      }
+    }
+
+    let removed = 0;
+    for (const key of this.entries.keys()) {
+      if (affected(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.counters.invalidations += removed;
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Drop every cached response.
+   * @returns The number of entries removed
+   */
+  clear(): number {
+    const removed = this.entries.size;
+    this.entries.clear();
+    for (const [key, generation] of this.generations) {
+      this.generations.set(key, generation + 1);
+    }
+    this.scheduleSave();
+    return removed;
+  }
+
+  stats(): CacheStats {
+    return {
+      entries: this.entries.size,
+      ...this.counters,
+      endpoints: this.endpointCounters,
+    };
+  }
+
+  private load(path: string): void {
+    let stored: Record<string, CacheEntry>;
+    try {
+      stored = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Ignoring unreadable cache file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return;
+    }
+
+    const now = Date.now();
+    for (const [key, entry] of Object.entries(stored)) {
+      if (entry.expires > now && entry.endpoint in CACHE_ENDPOINTS) {
+        this.entries.set(key, entry);
+      }
+    }
+  }
+
+  /**
+   * Write any pending changes to the cache file now.
+   */
+  flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      // One write at a time, each with the entries as they are when it starts
+      this.saving = this.saving.then(() => this.save());
+    }
+    return this.saving;
+  }
+
+  // Write the cache file at most once per SAVE_DELAY; the timer does not keep the process alive
+  private scheduleSave(): void {
+    if (!this.diskFile || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => void this.flush(), SAVE_DELAY).unref();
+  }
+
+  private async save(): Promise<void> {
+    const path = this.diskFile;
+    if (!path) return;
+
+    // Write to a temporary file first so a crash never leaves a truncated cache
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify(Object.fromEntries(this.entries)), { mode: 0o600 });
+      await rename(`${path}.tmp`, path);
+    } catch (error) {
+      logger.warn(`Failed to write cache file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
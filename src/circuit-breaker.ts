@@ -0,0 +1,117 @@
+/**
+ * Circuit breaker for BinaryLane MCP Server
+ * Stops sending requests during a sustained API outage so tool calls fail fast instead of retrying
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  enabled?: boolean;          // default: true
+  failureThreshold?: number;  // default: 5 consecutive failures open the circuit
+  resetTimeout?: number;      // default: 30000ms before a probe request is let through
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: string;
+  // Seconds until the next probe request is allowed, while the circuit is open
+  next_probe_in_seconds?: number;
+}
+
+/**
+ * Raised instead of sending a request while the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public retryInMs: number
+  ) {
+    super(`BinaryLane API circuit is open; next probe in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Tracks consecutive API failures (5xx responses, network errors and timeouts).
+ *
+ * closed: requests flow normally. After failureThreshold consecutive failures the circuit opens.
+ * open: requests fail immediately until resetTimeout has passed.
+ * half-open: one probe request is let through; success closes the circuit, failure reopens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private enabled: boolean;
+  private failureThreshold: number;
+  private resetTimeout: number;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.resetTimeout = config.resetTimeout ?? 30000;
+  }
+
+  /**
+   * Check whether a request could be sent now, without claiming the probe.
+   * @throws {CircuitOpenError} If the circuit is open, or half-open with a probe already in flight
+   */
+  check(): void {
+    if (!this.enabled || this.state === 'closed') {
+      return;
+    }
+
+    const retryInMs = this.openedAt + this.resetTimeout - Date.now();
+    if (retryInMs > 0 || this.probeInFlight) {
+      throw new CircuitOpenError(Math.max(retryInMs, 0));
+    }
+  }
+
+  /**
+   * Check whether a request may be sent now, claiming the probe if the circuit is ready for one.
+   * @throws {CircuitOpenError} If the circuit is open, or half-open with a probe already in flight
+   */
+  acquire(): void {
+    this.check();
+    if (this.enabled && this.state !== 'closed') {
+      this.state = 'half-open';
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Release a claimed probe whose request ended without reaching the API (e.g., it was cancelled).
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  status(): CircuitStatus {
+    if (this.state === 'closed') {
+      return { state: this.state, consecutive_failures: this.failures };
+    }
+    return {
+      state: this.state,
+      consecutive_failures: this.failures,
+      opened_at: new Date(this.openedAt).toISOString(),
+      next_probe_in_seconds: Math.max(Math.ceil((this.openedAt + this.resetTimeout - Date.now()) / 1000), 0),
+    };
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Argument completion for BinaryLane MCP Server
+ * Suggests region, size and image slugs and server, domain and VPC identifiers from cached list calls
+ */
+
+import { BinaryLaneClient } from './api-client.js';
+
+// How long list results are reused for completions, in milliseconds
+const COMPLETION_CACHE_TTL = 60000;
+
+// Maximum number of values returned in one completion response (MCP limit)
+const MAX_COMPLETIONS = 100;
+
+interface Candidate {
+  // Value inserted into the argument: a slug, ID or name
+  value: string;
+  // Human-readable name also matched against the typed prefix
+  name: string;
+  // Regions the value is available in, for narrowing by an already-chosen region
+  regions?: string[];
+}
+
+export type CompletionSource = 'regions' | 'sizes' | 'images' | 'servers' | 'domains' | 'vpcs';
+
+// Fetches candidates for each source, with the tool group whose scope grants access to it
+const sources: Record<CompletionSource, { group: string; fetch: (client: BinaryLaneClient) => Promise<Candidate[]> }> = {
+  regions: {
+    group: 'regions',
+    fetch: async (client) => (await client.listRegions()).regions
+      .filter(r => r.available)
+      .map(r => ({ value: r.slug, name: r.name })),
+  },
+  sizes: {
+    group: 'regions',
+    fetch: async (client) => (await client.listSizes()).sizes
+      .filter(s => s.available)
+      .map(s => ({ value: s.slug, name: s.slug, regions: s.regions })),
+  },
+  images: {
+    group: 'images',
+    fetch: async (client) => (await client.listAllImages({ type: 'distribution' })).images
+      .filter(i => i.slug)
+      .map(i => ({ value: i.slug as string, name: i.name, regions: i.regions })),
+  },
+  servers: {
+    group: 'servers',
+    fetch: async (client) => (await client.listAllServers()).servers
+      .map(s => ({ value: String(s.id), name: s.name })),
+  },
+  domains: {
+    group: 'domains',
+    fetch: async (client) => (await client.listAllDomains()).domains
+      .map(d => ({ value: d.name, name: d.name })),
+  },
+  vpcs: {
+    group: 'vpcs',
+    fetch: async (client) => (await client.listAllVpcs()).vpcs
+      .map(v => ({ value: String(v.id), name: v.name })),
+  },
+};
+
+// Prompt and resource template arguments that can be completed, by argument name
+const promptArgumentSources: Record<string, CompletionSource> = {
+  region: 'regions',
+  size: 'sizes',
+  image: 'images',
+  server_id: 'servers',
+  domain: 'domains',
+  domain_name: 'domains',
+  vpc_id: 'vpcs',
+};
+
+const resourceArgumentSources: Record<string, Record<string, CompletionSource>> = {
+  'binarylane://servers/{id}': { id: 'servers' },
+  'binarylane://domains/{name}/zone': { name: 'domains' },
+  'binarylane://vpcs/{id}': { id: 'vpcs' },
+};
+
+/**
+ * Find the completion source for a prompt or resource template argument.
+ */
+export function getCompletionSource(
+  ref: { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string },
+  argumentName: string
+): CompletionSource | undefined {
+  return ref.type === 'ref/prompt'
+    ? promptArgumentSources[argumentName]
+    : resourceArgumentSources[ref.uri]?.[argumentName];
+}
+
+/**
+ * Get the tool group whose scope is needed to complete from a source.
+ */
+export function getCompletionGroup(source: CompletionSource): string {
+  return sources[source].group;
+}
+
+// Cached candidates per client, so each account keeps its own results
+const cache = new WeakMap<BinaryLaneClient, Map<CompletionSource, { expires: number; candidates: Promise<Candidate[]> }>>();
+
+function getCandidates(client: BinaryLaneClient, source: CompletionSource): Promise<Candidate[]> {
+  const entries = cache.get(client) ?? new Map<CompletionSource, { expires: number; candidates: Promise<Candidate[]> }>();
+  cache.set(client, entries);
+
+  const cached = entries.get(source);
+  if (cached && cached.expires > Date.now()) {
+    return cached.candidates;
+  }
+
+  const candidates = sources[source].fetch(client);
+  entries.set(source, { expires: Date.now() + COMPLETION_CACHE_TTL, candidates });
+  // Do not keep failures around for the whole TTL
+  candidates.catch(() => {
+    if (entries.get(source)?.candidates === candidates) {
+      entries.delete(source);
+    }
+  });
+  return candidates;
+}
+
+/**
+ * Complete an argument value by case-insensitive prefix match on value and name.
+ * @param region Region already chosen by the user, used to narrow sizes and images
+ */
+export async function complete(
+  client: BinaryLaneClient,
+  source: CompletionSource,
+  prefix: string,
+  region?: string
+): Promise<{ values: string[]; total: number; hasMore: boolean }> {
+  const needle = prefix.toLowerCase();
+  const matches = (await getCandidates(client, source))
+    .filter(c => !region || !c.regions || c.regions.includes(region))
+    .filter(c => c.value.toLowerCase().startsWith(needle) || c.name.toLowerCase().startsWith(needle))
+    .map(c => c.value);
+
+  return {
+    values: matches.slice(0, MAX_COMPLETIONS),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETIONS,
+  };
+}
@@ -0,0 +1,357 @@
+/**
+ * Configuration for BinaryLane MCP Server
+ * Loads a JSON or YAML config file, overlays environment variables and command-line flags, and validates the result
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+import { AccountsConfigSchema } from './accounts.js';
+import { BinaryLaneClient } from './api-client.js';
+import { AuthConfigSchema } from './auth.js';
+import { CACHE_ENDPOINT_NAMES, CacheEndpoint } from './cache.js';
+import { LOG_LEVELS } from './logger.js';
+import { RESPONSE_VALIDATION_MODES } from './response-schemas.js';
+import { DEFAULT_AUDIT_FILE } from './audit-log.js';
+import { DEFAULT_CONFIRMATION_TTL } from './confirmation.js';
+import { DEFAULT_SESSION_IDLE_TIMEOUT } from './http-server.js';
+import { PolicyConfigSchema } from './policy.js';
+import { SAFETY_MODES } from './safety.js';
+import { DEFAULT_POLL_INTERVAL } from './subscriptions.js';
+import { allTools, toolGroups } from './tools.js';
+
+export const TRANSPORTS = ['stdio', 'http'] as const;
+
+// ==================== Schema ====================
+
+const ToolGroupSchema = z.string()
+  .refine(group => group in toolGroups, group => ({
+    message: `Unknown tool group "${group}". Valid groups: ${Object.keys(toolGroups).join(', ')}`,
+  }));
+
+const ToolNameSchema = z.string()
+  .refine(name => allTools.some(tool => tool.name === name), name => ({
+    message: `Unknown tool "${name}"`,
+  }));
+
+const ClientMethodSchema = z.string()
+  .refine(
+    name => name !== 'constructor'
+      && typeof Object.getOwnPropertyDescriptor(BinaryLaneClient.prototype, name)?.value === 'function',
+    name => ({ message: `Unknown client method "${name}" (e.g., getServer, uploadBackup)` })
+  );
+
+export const ConfigSchema = z.object({
+  server: z.object({
+    name: z.string().min(1).default('binarylane-mcp'),
+    version: z.string().min(1).default('1.0.0'),
+  }).strict().default({}),
+  transport: z.object({
+    type: z.enum(TRANSPORTS).default('stdio'),
+    host: z.string().min(1).default('127.0.0.1'),
+    port: z.number().int().min(0).max(65535).default(3000),
+    // Reject requests whose Host or Origin header names another host; turning this off requires auth
+    dnsRebindingProtection: z.boolean().default(true),
+    // Host names accepted in the Host and Origin headers (default: loopback names and transport.host)
+    allowedHosts: z.array(z.string().min(1)).optional(),
+    // Further origins accepted in the Origin header
+    allowedOrigins: z.array(z.string().url()).optional(),
+    // Milliseconds without requests before an HTTP session is closed; 0 keeps sessions open
+    sessionIdleTimeout: z.number().int().min(0).default(DEFAULT_SESSION_IDLE_TIMEOUT),
+  }).strict().default({}),
+  api: z.object({
+    baseUrl: z.string()
+      .url()
+      .optional()
+      .describe('BinaryLane API base URL (default: https://api.binarylane.com.au/v2)'),
+    headers: z.record(z.string())
+      .optional()
+      .describe('Extra headers sent with every API request, e.g. for a proxy'),
+    maxConcurrent: z.number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Maximum concurrent API requests per account'),
+    requestsPerSecond: z.number()
+      .positive()
+      .optional()
+      .describe('Maximum API requests per second per account (default: 10); lowered automatically from rate-limit headers'),
+    burst: z.number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Requests that can be sent at once after a quiet period (default: twice requestsPerSecond)'),
+    maxListItems: z.number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Maximum items collected when a list follows every page (default: 1000)'),
+    cache: z.object({
+      enabled: z.boolean().optional(),
+      ttls: z.object(Object.fromEntries(
+        CACHE_ENDPOINT_NAMES.map(name => [name, z.number().int().min(0).optional()])
+      ) as Record<CacheEndpoint, z.ZodOptional<z.ZodNumber>>)
+        .strict()
+        .optional()
+        .describe('Cache lifetime in seconds per endpoint; 0 disables caching for it'),
+      directory: z.string()
+        .min(1)
+        .optional()
+        .describe('Directory to persist cached responses in across restarts'),
+    }).strict().optional(),
+    timeouts: z.object({
+      default: z.number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Milliseconds to wait for each API request attempt (default: 30000)'),
+      methods: z.record(ClientMethodSchema, z.number().int().positive())
+        .optional()
+        .describe('Per-method timeouts in milliseconds, keyed by client method name'),
+    }).strict().optional(),
+    circuitBreaker: z.object({
+      enabled: z.boolean().optional(),
+      failureThreshold: z.number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Consecutive 5xx or network failures that open the circuit (default: 5)'),
+      resetTimeout: z.number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Milliseconds the circuit stays open before a probe request (default: 30000)'),
+    }).strict().optional(),
+    responseValidation: z.enum(RESPONSE_VALIDATION_MODES)
+      .optional()
+      .describe('Check API responses against the expected shapes: off, warn (log mismatches) or strict (fail the call) (default: warn)'),
+    retry: z.object({
+      maxRetries: z.number().int().min(0).optional(),
+      baseDelay: z.number().int().min(0).optional(),
+      maxDelay: z.number().int().min(0).optional(),
+      backoffMultiplier: z.number().min(1).optional(),
+    }).strict().optional(),
+  }).strict().default({}),
+  tools: z.object({
+    enabledGroups: z.array(ToolGroupSchema)
+      .min(1)
+      .optional()
+      .describe('Tool groups to expose (default: all)'),
+  }).strict().default({}),
+  resources: z.object({
+    pollInterval: z.number()
+      .int()
+      .min(1000)
+      .default(DEFAULT_POLL_INTERVAL)
+      .describe('Milliseconds between polls of subscribed resources'),
+  }).strict().default({}),
+  safety: z.object({
+    mode: z.enum(SAFETY_MODES)
+      .default('full')
+      .describe('Tools to expose by their annotations: read-only, no-destructive or full'),
+    allowTools: z.array(ToolNameSchema)
+      .optional()
+      .describe('Tools to expose even if the mode hides them'),
+    denyTools: z.array(ToolNameSchema)
+      .optional()
+      .describe('Tools never to expose, whatever the mode'),
+    confirmationTtl: z.number()
+      .int()
+      .min(10000)
+      .default(DEFAULT_CONFIRMATION_TTL)
+      .describe('Milliseconds a destructive tool\'s confirmation token stays valid'),
+    dryRun: z.boolean()
+      .default(false)
+      .describe('Return the request each change would send instead of sending it'),
+  }).strict().superRefine(({ allowTools = [], denyTools = [] }, ctx) => {
+    for (const name of allowTools.filter(name => denyTools.includes(name))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['allowTools'],
+        message: `Tool "${name}" is listed in both allowTools and denyTools`,
+      });
+    }
+  }).default({}),
+  audit: z.object({
+    enabled: z.boolean()
+      .default(true)
+      .describe('Record every tool call that makes changes'),
+    file: z.string()
+      .min(1)
+      .default(DEFAULT_AUDIT_FILE)
+      .describe('Append-only JSONL file the audit log is written to'),
+  }).strict().default({}),
+  logging: z.object({
+    level: z.enum(LOG_LEVELS).default('info'),
+  }).strict().default({}),
+  auth: AuthConfigSchema.optional(),
+  accounts: AccountsConfigSchema.optional(),
+  policy: PolicyConfigSchema.optional(),
+}).strict();
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+// ==================== Overlays ====================
+
+type ValueKind = 'string' | 'number' | 'boolean' | 'list';
+
+// Environment variables that override config file values
+const ENV_OVERRIDES: Array<{ env: string; path: string[]; kind: ValueKind }> = [
+  { env: 'BINARYLANE_MCP_TRANSPORT', path: ['transport', 'type'], kind: 'string' },
+  { env: 'BINARYLANE_MCP_HOST', path: ['transport', 'host'], kind: 'string' },
+  { env: 'BINARYLANE_MCP_PORT', path: ['transport', 'port'], kind: 'number' },
+  { env: 'BINARYLANE_API_BASE_URL', path: ['api', 'baseUrl'], kind: 'string' },
+  { env: 'BINARYLANE_MCP_MAX_CONCURRENT', path: ['api', 'maxConcurrent'], kind: 'number' },
+  { env: 'BINARYLANE_MCP_REQUESTS_PER_SECOND', path: ['api', 'requestsPerSecond'], kind: 'number' },
+  { env: 'BINARYLANE_MCP_CACHE', path: ['api', 'cache', 'enabled'], kind: 'boolean' },
+  { env: 'BINARYLANE_MCP_CACHE_DIR', path: ['api', 'cache', 'directory'], kind: 'string' },
+  { env: 'BINARYLANE_MCP_MAX_LIST_ITEMS', path: ['api', 'maxListItems'], kind: 'number' },
+  { env: 'BINARYLANE_MCP_TIMEOUT', path: ['api', 'timeouts', 'default'], kind: 'number' },
+  { env: 'BINARYLANE_MCP_RESPONSE_VALIDATION', path: ['api', 'responseValidation'], kind: 'string' },
+  { env: 'BINARYLANE_MCP_MAX_RETRIES', path: ['api', 'retry', 'maxRetries'], kind: 'number' },
+  { env: 'BINARYLANE_MCP_POLL_INTERVAL', path: ['resources', 'pollInterval'], kind: 'number' },
+  { env: 'BINARYLANE_MCP_TOOL_GROUPS', path: ['tools', 'enabledGroups'], kind: 'list' },
+  { env: 'BINARYLANE_MCP_MODE', path: ['safety', 'mode'], kind: 'string' },
+  { env: 'BINARYLANE_MCP_ALLOW_TOOLS', path: ['safety', 'allowTools'], kind: 'list' },
+  { env: 'BINARYLANE_MCP_DENY_TOOLS', path: ['safety', 'denyTools'], kind: 'list' },
+  { env: 'BINARYLANE_MCP_DRY_RUN', path: ['safety', 'dryRun'], kind: 'boolean' },
+  { env: 'BINARYLANE_MCP_AUDIT', path: ['audit', 'enabled'], kind: 'boolean' },
+  { env: 'BINARYLANE_MCP_AUDIT_FILE', path: ['audit', 'file'], kind: 'string' },
+  { env: 'BINARYLANE_MCP_LOG_LEVEL', path: ['logging', 'level'], kind: 'string' },
+];
+
+// Command-line flags that override config file and environment values
+const FLAG_OVERRIDES: Array<{ flag: string; path: string[]; kind: ValueKind }> = [
+  { flag: 'transport', path: ['transport', 'type'], kind: 'string' },
+  { flag: 'host', path: ['transport', 'host'], kind: 'string' },
+  { flag: 'port', path: ['transport', 'port'], kind: 'number' },
+  { flag: 'mode', path: ['safety', 'mode'], kind: 'string' },
+  { flag: 'dry-run', path: ['safety', 'dryRun'], kind: 'boolean' },
+];
+
+// Separate JSON or YAML files that replace a whole config section
+const SECTION_FILES: Array<{ env: string; flag: string; section: 'auth' | 'accounts' | 'policy' }> = [
+  { env: 'BINARYLANE_MCP_AUTH_CONFIG', flag: 'auth-config', section: 'auth' },
+  { env: 'BINARYLANE_MCP_ACCOUNTS_CONFIG', flag: 'accounts-config', section: 'accounts' },
+  { env: 'BINARYLANE_MCP_POLICY_CONFIG', flag: 'policy-config', section: 'policy' },
+];
+
+/**
+ * Raised when configuration cannot be loaded or is invalid.
+ * Each issue names the offending field and where its value came from.
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public issues: string[]
+  ) {
+    super(message);
+    this.name = 'ConfigError';
+    Object.setPrototypeOf(this, ConfigError.prototype);
+  }
+}
+
+function convertValue(raw: string, kind: ValueKind): unknown {
+  switch (kind) {
+    case 'number':
+      return raw.trim() === '' ? NaN : Number(raw);
+    case 'boolean':
+      if (['true', '1', 'yes'].includes(raw.toLowerCase())) return true;
+      if (['false', '0', 'no'].includes(raw.toLowerCase())) return false;
+      return raw;
+    case 'list':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[path[path.length - 1]] = value;
+}
+
+// Files ending in .yaml or .yml are read as YAML, anything else as JSON
+function readConfigFile(path: string, description: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read ${description} ${path}`, [error instanceof Error ? error.message : String(error)]);
+  }
+  const yaml = ['.yaml', '.yml'].includes(extname(path).toLowerCase());
+  try {
+    return yaml ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Invalid ${yaml ? 'YAML' : 'JSON'} in ${description} ${path}`, [error instanceof Error ? error.message : String(error)]);
+  }
+}
+
+// ==================== Loading ====================
+
+export interface ConfigSources {
+  // Path to the main config file (--config or BINARYLANE_MCP_CONFIG)
+  path?: string;
+  env: NodeJS.ProcessEnv;
+  flags: Record<string, string | undefined>;
+}
+
+/**
+ * Load configuration: config file, then environment variables, then command-line flags.
+ * @throws {ConfigError} If a file cannot be read or the merged configuration is invalid
+ */
+export function loadConfig({ path, env, flags }: ConfigSources): Config {
+  const raw = path ? readConfigFile(path, 'config file') : {};
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(`Invalid config file ${path}`, ['The config file must contain an object of settings']);
+  }
+  const merged = raw as Record<string, unknown>;
+
+  // Remember where overridden values came from, for diagnostics
+  const origins = new Map<string, string>();
+
+  for (const { env: name, path: fieldPath, kind } of ENV_OVERRIDES) {
+    const value = env[name];
+    if (value !== undefined) {
+      setPath(merged, fieldPath, convertValue(value, kind));
+      origins.set(fieldPath.join('.'), `environment variable ${name}`);
+    }
+  }
+
+  for (const { flag, path: fieldPath, kind } of FLAG_OVERRIDES) {
+    const value = flags[flag];
+    if (value !== undefined) {
+      setPath(merged, fieldPath, convertValue(value, kind));
+      origins.set(fieldPath.join('.'), `flag --${flag}`);
+    }
+  }
+
+  for (const { env: name, flag, section } of SECTION_FILES) {
+    const sectionPath = flags[flag] ?? env[name];
+    if (sectionPath !== undefined) {
+      merged[section] = readConfigFile(sectionPath, `${section} config`);
+      origins.set(section, sectionPath);
+    }
+  }
+
+  const result = ConfigSchema.safeParse(merged);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => {
+      const field = issue.path.join('.');
+      const origin = [...origins].find(([prefix]) => field === prefix || field.startsWith(`${prefix}.`));
+      const label = field ? `${field}${origin ? ` (from ${origin[1]})` : ''}: ` : '';
+      return `${label}${issue.message}`;
+    });
+    throw new ConfigError(path ? `Invalid configuration in ${path}` : 'Invalid configuration', issues);
+  }
+
+  return result.data;
+}
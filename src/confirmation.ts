@@ -0,0 +1,107 @@
+/**
+ * Confirmation tokens for BinaryLane MCP Server
+ * Destructive tools first return a preview and a token, and only proceed when called again with it
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+
+// Milliseconds a confirmation token stays valid
+export const DEFAULT_CONFIRMATION_TTL = 5 * 60 * 1000;
+
+// What a token was issued for; redeeming it requires the same values
+export interface ConfirmationRequest {
+  tool: string;
+  account: string;
+  caller?: string; // authenticated client ID over HTTP
+  args: Record<string, unknown>;
+}
+
+export interface IssuedConfirmation {
+  confirmation_token: string;
+  expires_at: string;
+}
+
+interface PendingConfirmation {
+  tool: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+/**
+ * Raised when a confirmation token is unknown, expired, already used, or was issued for a different call.
+ */
+export class ConfirmationError extends Error {
+  constructor(
+    message: string,
+    public tool: string
+  ) {
+    super(message);
+    this.name = 'ConfirmationError';
+    Object.setPrototypeOf(this, ConfirmationError.prototype);
+  }
+}
+
+// JSON with object keys sorted, so argument order does not change the fingerprint
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function fingerprint({ tool, account, caller, args }: ConfirmationRequest): string {
+  return createHash('sha256').update(canonicalJson({ tool, account, caller, args })).digest('hex');
+}
+
+/**
+ * Issues short-lived, single-use tokens tied to one tool call.
+ * Shared by every session, so a token may be redeemed on a different HTTP session by the same caller.
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private ttl: number = DEFAULT_CONFIRMATION_TTL) {}
+
+  get ttlSeconds(): number {
+    return Math.round(this.ttl / 1000);
+  }
+
+  issue(request: ConfirmationRequest): IssuedConfirmation {
+    this.prune();
+    const token = randomBytes(18).toString('base64url');
+    const expiresAt = Date.now() + this.ttl;
+    this.pending.set(token, { tool: request.tool, fingerprint: fingerprint(request), expiresAt });
+    return { confirmation_token: token, expires_at: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Use up a token.
+   * @throws {ConfirmationError} If the token is unknown, expired or already used, or the call differs from the one previewed
+   */
+  redeem(token: string, request: ConfirmationRequest): void {
+    this.prune();
+    const pending = this.pending.get(token);
+    if (!pending) {
+      throw new ConfirmationError('The confirmation token is unknown, expired or already used', request.tool);
+    }
+    if (pending.tool !== request.tool || pending.fingerprint !== fingerprint(request)) {
+      throw new ConfirmationError('The confirmation token was issued for a different call; the arguments must match the preview', request.tool);
+    }
+    this.pending.delete(token);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, { expiresAt }] of this.pending) {
+      if (expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Dry runs for BinaryLane MCP Server
+ * Checks that the resources a change refers to exist, then reports the request it would send instead of sending it
+ */
+
+import { ApiError, BinaryLaneClient, DryRunRequest } from './api-client.js';
+import type { ToolContext, ToolHandler } from './handlers.js';
+
+// A resource named by a call's arguments, as found in the account
+export interface ResolvedReference {
+  argument: string;
+  value: string | number;
+  name?: string;
+}
+
+export interface DryRunResult {
+  success: true;
+  dry_run: true;
+  message: string;
+  request?: {
+    method: string;
+    path: string;
+    body?: unknown;
+  };
+  resolved: ResolvedReference[];
+}
+
+/**
+ * Raised when a dry run finds arguments naming resources that do not exist. Nothing has been sent to the API.
+ */
+export class DryRunError extends Error {
+  constructor(public problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'DryRunError';
+    Object.setPrototypeOf(this, DryRunError.prototype);
+  }
+}
+
+interface Reference {
+  resource: string;
+  listTool: string;
+  // The resource's name; undefined, or a 404, if it does not exist
+  find: (client: BinaryLaneClient, value: string | number, args: Record<string, unknown>, signal: AbortSignal) => Promise<string | undefined>;
+}
+
+const server: Reference = {
+  resource: 'server',
+  listTool: 'list_servers',
+  find: async (client, id, _args, signal) => (await client.getServer(Number(id), { signal })).server.name,
+};
+
+// Arguments naming resources that must exist for a change to succeed
+const REFERENCE_ARGUMENTS: Record<string, Reference> = {
+  server_id: server,
+  target_server_id: server,
+  partner_server_id: server,
+  server_ids: server,
+  size: {
+    resource: 'size',
+    listTool: 'list_sizes',
+    find: async (client, slug, _args, signal) =>
+      (await client.listSizes(undefined, { signal })).sizes.find(size => size.slug === slug)?.slug,
+  },
+  region: {
+    resource: 'region',
+    listTool: 'list_regions',
+    find: async (client, slug, _args, signal) =>
+      (await client.listRegions({ signal })).regions.find(region => region.slug === slug)?.name,
+  },
+  // Slugs are looked up among the images listed; IDs, which include backups and may be given as strings, directly
+  image: {
+    resource: 'image',
+    listTool: 'list_images',
+    find: async (client, image, _args, signal) => {
+      if (typeof image === 'number' || /^\d+$/.test(image)) {
+        return (await client.getImage(Number(image), { signal })).image.name;
+      }
+      const { images } = await client.listAll('images', page => client.listImages(page, { priority: 'bulk', signal }));
+      return images.find(candidate => candidate.slug === image)?.name;
+    },
+  },
+  image_id: {
+    resource: 'image',
+    listTool: 'list_images',
+    find: async (client, id, _args, signal) => (await client.getImage(id, { signal })).image.name,
+  },
+  key_id: {
+    resource: 'SSH key',
+    listTool: 'list_ssh_keys',
+    find: async (client, id, _args, signal) => (await client.getSshKey(Number(id), { signal })).ssh_key.name,
+  },
+  domain_name: {
+    resource: 'domain',
+    listTool: 'list_domains',
+    find: async (client, domain, _args, signal) => (await client.getDomain(domain, { signal })).domain.name,
+  },
+  record_id: {
+    resource: 'DNS record',
+    listTool: 'list_domain_records',
+    find: async (client, id, args, signal) => {
+      const domain = args.domain_name as string | number;
+      return (await client.getDomainRecord(domain, Number(id), { signal })).domain_record.name;
+    },
+  },
+  vpc_id: {
+    resource: 'VPC',
+    listTool: 'list_vpcs',
+    find: async (client, id, _args, signal) => (await client.getVpc(Number(id), { signal })).vpc.name,
+  },
+  load_balancer_id: {
+    resource: 'load balancer',
+    listTool: 'list_load_balancers',
+    find: async (client, id, _args, signal) => (await client.getLoadBalancer(Number(id), { signal })).load_balancer.name,
+  },
+};
+
+/**
+ * Look up every resource a call's arguments name.
+ * @throws {DryRunError} Naming each argument whose resource does not exist
+ * @throws {ApiError} If a lookup fails for another reason
+ */
+async function resolveReferences(client: BinaryLaneClient, args: Record<string, unknown>, signal: AbortSignal): Promise<ResolvedReference[]> {
+  const resolved: ResolvedReference[] = [];
+  const problems: string[] = [];
+
+  for (const [argument, { resource, listTool, find }] of Object.entries(REFERENCE_ARGUMENTS)) {
+    const values = Array.isArray(args[argument]) ? args[argument] as unknown[] : [args[argument]];
+    for (const value of values) {
+      if (typeof value !== 'number' && (typeof value !== 'string' || value === '')) {
+        continue;
+      }
+      let name: string | undefined;
+      try {
+        name = await find(client, value, args, signal);
+      } catch (error) {
+        if (!(error instanceof ApiError && error.statusCode === 404)) {
+          throw error;
+        }
+      }
+      if (name === undefined) {
+        problems.push(`${argument}: no ${resource} ${JSON.stringify(value)} exists (use ${listTool} to see the options)`);
+      } else {
+        resolved.push({ argument, value, name });
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new DryRunError(problems);
+  }
+  return resolved;
+}
+
+/**
+ * Run a handler against a dry-run view of the client: its input is validated and its reads are
+ * made as usual, but its first change is captured instead of sent.
+ * @returns The captured request and the resources the arguments named
+ * @throws {DryRunError} If the arguments name resources that do not exist
+ */
+export async function runDryRun(
+  handler: ToolHandler,
+  client: BinaryLaneClient,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<DryRunResult> {
+  let captured: DryRunRequest | undefined;
+  try {
+    await handler(client.dryRun(), args, { ...context, dryRun: true });
+  } catch (error) {
+    if (!(error instanceof DryRunRequest)) {
+      throw error;
+    }
+    captured = error;
+  }
+
+  const resolved = await resolveReferences(client, args, context.signal);
+  if (!captured) {
+    return {
+      success: true,
+      dry_run: true,
+      message: `Nothing was sent. ${context.tool} would not send a change with these arguments.`,
+      resolved,
+    };
+  }
+
+  const { method, path, body } = captured;
+  return {
+    success: true,
+    dry_run: true,
+    message: `Nothing was sent. ${context.tool} would send this request to the BinaryLane API.`,
+    request: { method, path, ...(body !== undefined && { body }) },
+    resolved,
+  };
+}
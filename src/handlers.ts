@@ -3,10 +3,34 @@
  * Maps tool names to their implementation functions
  */
 
-import { BinaryLaneClient, ServerAction } from './api-client.js';
+import { BinaryLaneClient, PagedResponse, PaginationParams, RequestOptions, ServerAction } from './api-client.js';
+import { AccountRegistry } from './accounts.js';
+import { waitForAction } from './action-waiter.js';
+import { AuditLog } from './audit-log.js';
+import { ConfirmationStore } from './confirmation.js';
 import * as schemas from './schemas.js';
 
-type ToolHandler = (client: BinaryLaneClient, args: unknown) => Promise<unknown>;
+// Per-call context passed to every handler alongside the selected account's client
+export interface ToolContext {
+  tool: string;
+  account: string;
+  accounts: AccountRegistry;
+  // Authenticated client ID over HTTP
+  caller?: string;
+  // Unauthenticated, or authenticated with the "*" scope (see hasFullAccess)
+  fullAccess: boolean;
+  confirmations: ConfirmationStore;
+  // Undefined when audit.enabled is false
+  audit?: AuditLog;
+  // Set when the client only captures changes (see runDryRun)
+  dryRun: boolean;
+  // Aborted when the client cancels the call
+  signal: AbortSignal;
+  // Sends an MCP progress notification if the client asked for them
+  reportProgress: (progress: number, total?: number, message?: string) => Promise<void>;
+}
+
+export type ToolHandler = (client: BinaryLaneClient, args: unknown, context: ToolContext) => Promise<unknown>;
 
 // Helper to format successful responses
 function formatSuccess(message: string): { success: true; message: string } {
@@ -18,44 +42,98 @@ function formatData<T>(data: T): { success: true; data: T } {
   return { success: true, data };
 }
 
-// Helper for audit logging of destructive operations
-function auditLog(operation: string, params: Record<string, unknown>): void {
-  const timestamp = new Date().toISOString();
-  const sanitizedParams = { ...params };
-  // Remove sensitive data if present
-  delete sanitizedParams.token;
-  delete sanitizedParams.api_token;
-
-  console.error(JSON.stringify({
-    timestamp,
-    audit: true,
-    operation,
-    params: sanitizedParams
-  }));
+// Helper to return one page, or every page when the caller passed all: true
+async function formatList<K extends string, T>(
+  client: BinaryLaneClient,
+  args: unknown,
+  key: K,
+  fetchPage: (page: PaginationParams, options?: RequestOptions) => Promise<PagedResponse<K, T>>
+) {
+  const { all, max_items } = schemas.ListAllSchema.parse(args);
+  if (!all) {
+    return formatData(await fetchPage({}));
+  }
+  // Following every page yields to single reads and changes from other calls
+  return formatData(await client.listAll(key, page => fetchPage(page, { priority: 'bulk' }), { maxItems: max_items }));
+}
+
+// Helper to wait for the action a tool started when the caller passed wait: true
+async function withActionWait<T extends object>(
+  client: BinaryLaneClient,
+  args: unknown,
+  context: ToolContext,
+  response: T,
+  actionId: number | undefined
+) {
+  const { wait, wait_timeout } = schemas.WaitSchema.parse(args);
+  if (!wait) {
+    return formatData(response);
+  }
+  if (actionId === undefined) {
+    return formatData({ ...response, wait: { completed: false, message: 'No action was returned to wait for.' } });
+  }
+
+  const { action, ...result } = await waitForAction(client, actionId, {
+    signal: context.signal,
+    timeoutSeconds: wait_timeout,
+    onProgress: (percent, step) => context.reportProgress(percent, 100, step),
+  });
+  return formatData({ ...response, action, wait: result });
+}
+
+// Helper for tools that need confirmation: without a token, return a preview of what the call
+// would do and issue a token; with one, redeem it and perform the operation
+export function withConfirmation(preview: ToolHandler, perform: ToolHandler): ToolHandler {
+  return async (client, args, context) => {
+    const { confirmation_token } = schemas.ConfirmationSchema.parse(args);
+    const { confirmation_token: _, ...toolArgs } = args as Record<string, unknown>;
+    const request = { tool: context.tool, account: context.account, caller: context.caller, args: toolArgs };
+
+    // A dry run changes nothing, so it needs no token and leaves any token given unused
+    if (context.dryRun) {
+      return perform(client, toolArgs, context);
+    }
+
+    if (confirmation_token === undefined) {
+      const data = await preview(client, args, context);
+      return {
+        success: true,
+        confirmation_required: true,
+        message: `Nothing has been changed. To proceed, call ${context.tool} again with the same arguments and this confirmation_token within ${context.confirmations.ttlSeconds} seconds.`,
+        preview: data,
+        ...context.confirmations.issue(request),
+      };
+    }
+
+    context.confirmations.redeem(confirmation_token, request);
+    return perform(client, args, context);
+  };
 }
 
 // ==================== Account Handlers ====================
 
 export const accountHandlers: Record<string, ToolHandler> = {
-  get_account: async (client) => formatData(await client.getAccount()),
+  list_accounts: async (_client, _args, { accounts }) => formatData({ accounts: accounts.list() }),
+
+  get_account: async (client, _args, { signal }) => formatData(await client.getAccount({ signal })),
 
-  get_balance: async (client) => formatData(await client.getBalance()),
+  get_balance: async (client, _args, { signal }) => formatData(await client.getBalance({ signal })),
 
-  list_invoices: async (client, args) => {
+  list_invoices: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.getInvoices(params));
+    return formatList(client, args, 'invoices', (page, options) => client.getInvoices({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_invoice: async (client, args) => {
+  get_invoice: async (client, args, { signal }) => {
     const { invoice_id } = schemas.GetInvoiceSchema.parse(args);
-    return formatData(await client.getInvoice(invoice_id));
+    return formatData(await client.getInvoice(invoice_id, { signal }));
   },
 
-  get_unpaid_invoices: async (client) => formatData(await client.getUnpaidFailedInvoices()),
+  get_unpaid_invoices: async (client, _args, { signal }) => formatData(await client.getUnpaidFailedInvoices({ signal })),
 
-  proceed_action: async (client, args) => {
+  proceed_action: async (client, args, { signal }) => {
     const { action_id, proceed } = schemas.ProceedActionSchema.parse(args);
-    await client.proceedAction(action_id, proceed);
+    await client.proceedAction(action_id, proceed, { signal });
     return formatSuccess(`Action ${action_id} ${proceed ? 'confirmed' : 'cancelled'}`);
   },
 };
@@ -63,206 +141,211 @@ export const accountHandlers: Record<string, ToolHandler> = {
 // ==================== Server Handlers ====================
 
 export const serverHandlers: Record<string, ToolHandler> = {
-  list_servers: async (client, args) => {
+  list_servers: async (client, args, { signal }) => {
     const params = schemas.ListServersSchema.parse(args);
-    return formatData(await client.listServers(params));
+    return formatList(client, args, 'servers', (page, options) => client.listServers({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_server: async (client, args) => {
+  get_server: async (client, args, { signal }) => {
     const { server_id } = schemas.ServerIdSchema.parse(args);
-    return formatData(await client.getServer(server_id));
+    return formatData(await client.getServer(server_id, { signal }));
   },
 
-  create_server: async (client, args) => {
+  create_server: async (client, args, context) => {
     const params = schemas.CreateServerSchema.parse(args);
-    return formatData(await client.createServer(params));
-  },
-
-  delete_server: async (client, args) => {
-    const { server_id, reason } = schemas.DeleteServerSchema.parse(args);
-    auditLog('delete_server', { server_id, reason });
-    await client.deleteServer(server_id, reason);
-    return formatSuccess(`Server ${server_id} deletion initiated`);
-  },
-
-  server_action: async (client, args) => {
-    const params = schemas.ServerActionSchema.parse(args);
-
-    // Build action object by spreading all defined parameters
-    // This automatically includes only the parameters that are present
-    const action: ServerAction = {
-      type: params.action_type,
-      ...(params.image !== undefined && { image: params.image }),
-      ...(params.size !== undefined && { size: params.size }),
-      ...(params.name !== undefined && { name: params.name }),
-      ...(params.backup_type !== undefined && { backup_type: params.backup_type }),
-      ...(params.replacement_strategy !== undefined && { replacement_strategy: params.replacement_strategy }),
-      ...(params.backup_id_to_replace !== undefined && { backup_id_to_replace: params.backup_id_to_replace }),
-      ...(params.label !== undefined && { label: params.label }),
-      ...(params.disk_id !== undefined && { disk_id: params.disk_id }),
-      ...(params.size_gigabytes !== undefined && { size_gigabytes: params.size_gigabytes }),
-      ...(params.ipv4_address !== undefined && { ipv4_address: params.ipv4_address }),
-      ...(params.reverse_name !== undefined && { reverse_name: params.reverse_name }),
-      ...(params.enabled !== undefined && { enabled: params.enabled }),
-      ...(params.features !== undefined && { features: params.features }),
-      ...(params.firewall_rules !== undefined && { firewall_rules: params.firewall_rules }),
-      ...(params.threshold_alerts !== undefined && { threshold_alerts: params.threshold_alerts }),
-      ...(params.target_server_id !== undefined && { target_server_id: params.target_server_id }),
-      ...(params.kernel_id !== undefined && { kernel: params.kernel_id }),
-      ...(params.partner_server_id !== undefined && { partner_server_id: params.partner_server_id }),
-      ...(params.region !== undefined && { region: params.region }),
-    } as ServerAction;
-
-    return formatData(await client.performServerAction(params.server_id, action));
-  },
-
-  list_server_actions: async (client, args) => {
-    const parsed = schemas.ServerIdSchema.merge(schemas.PaginationSchema).parse(args);
-    return formatData(await client.listServerActions(parsed.server_id, parsed));
-  },
-
-  get_server_action: async (client, args) => {
+    const response = await client.createServer(params, { signal: context.signal });
+    return withActionWait(client, args, context, response, response.links?.action?.id);
+  },
+
+  delete_server: withConfirmation(
+    // The server's addresses, disks and backups all go with it
+    async (client, args, { signal }) => {
+      const { server_id } = schemas.DeleteServerSchema.parse(args);
+      const [{ server }, { backups, truncated }] = await Promise.all([
+        client.getServer(server_id, { signal }),
+        client.listAll('backups', page => client.getServerBackups(server_id, page, { priority: 'bulk', signal })),
+      ]);
+      return {
+        server: {
+          id: server.id,
+          name: server.name,
+          status: server.status,
+          region: server.region.slug,
+          size: server.size_slug,
+          ipv4_addresses: server.networks.v4.map(network => network.ip_address),
+          ipv6_addresses: server.networks.v6.map(network => network.ip_address),
+          disks: (server.disks ?? []).map(({ id, size_gigabytes, description }) => ({ id, size_gigabytes, description })),
+        },
+        backups: backups.map(({ id, name, backup_type, created_at, size_gigabytes }) => ({ id, name, backup_type, created_at, size_gigabytes })),
+        ...(truncated && { backups_truncated: true }),
+      };
+    },
+    async (client, args, { signal }) => {
+      const { server_id, reason } = schemas.DeleteServerSchema.parse(args);
+      await client.deleteServer(server_id, reason, { signal });
+      return formatSuccess(`Server ${server_id} deletion initiated`);
+    }
+  ),
+
+  server_action: async (client, args, context) => {
+    // Each action type only keeps the parameters it takes, so the rest map straight onto the API request
+    const { server_id, action_type, ...params } = schemas.ServerActionSchema.parse(args);
+
+    // The API names the kernel parameter "kernel"
+    const action = ('kernel_id' in params
+      ? { type: action_type, kernel: params.kernel_id }
+      : { type: action_type, ...params }) as ServerAction;
+
+    const response = await client.performServerAction(server_id, action, { signal: context.signal });
+    return withActionWait(client, args, context, response, response.action.id);
+  },
+
+  list_server_actions: async (client, args, { signal }) => {
+    const parsed = schemas.ServerPaginationSchema.parse(args);
+    return formatList(client, args, 'actions', (page, options) => client.listServerActions(parsed.server_id, { ...parsed, ...page }, { ...options, signal }));
+  },
+
+  get_server_action: async (client, args, { signal }) => {
     const parsed = schemas.GetServerActionSchema.parse(args);
-    return formatData(await client.getServerAction(parsed.server_id, parsed.action_id));
+    return formatData(await client.getServerAction(parsed.server_id, parsed.action_id, { signal }));
   },
 
-  get_server_backups: async (client, args) => {
-    const parsed = schemas.ServerIdSchema.merge(schemas.PaginationSchema).parse(args);
-    return formatData(await client.getServerBackups(parsed.server_id, parsed));
+  get_server_backups: async (client, args, { signal }) => {
+    const parsed = schemas.ServerPaginationSchema.parse(args);
+    return formatList(client, args, 'backups', (page, options) => client.getServerBackups(parsed.server_id, { ...parsed, ...page }, { ...options, signal }));
   },
 
-  get_server_snapshots: async (client, args) => {
-    const parsed = schemas.ServerIdSchema.merge(schemas.PaginationSchema).parse(args);
-    return formatData(await client.getServerSnapshots(parsed.server_id, parsed));
+  get_server_snapshots: async (client, args, { signal }) => {
+    const parsed = schemas.ServerPaginationSchema.parse(args);
+    return formatList(client, args, 'snapshots', (page, options) => client.getServerSnapshots(parsed.server_id, { ...parsed, ...page }, { ...options, signal }));
   },
 
-  upload_backup: async (client, args) => {
+  upload_backup: async (client, args, context) => {
     const params = schemas.UploadBackupSchema.parse(args);
-    return formatData(await client.uploadBackup(params.server_id, {
+    const response = await client.uploadBackup(params.server_id, {
       url: params.url,
       label: params.label,
       backup_type: params.backup_type,
-    }));
+    }, { signal: context.signal });
+    return withActionWait(client, args, context, response, response.action.id);
   },
 
-  get_server_firewall: async (client, args) => {
+  get_server_firewall: async (client, args, { signal }) => {
     const { server_id } = schemas.ServerIdSchema.parse(args);
-    return formatData(await client.getServerFirewallRules(server_id));
+    return formatData(await client.getServerFirewallRules(server_id, { signal }));
   },
 
-  get_server_console: async (client, args) => {
+  get_server_console: async (client, args, { signal }) => {
     const { server_id } = schemas.ServerIdSchema.parse(args);
-    return formatData(await client.getServerConsole(server_id));
+    return formatData(await client.getServerConsole(server_id, { signal }));
   },
 
-  get_data_usage: async (client, args) => {
+  get_data_usage: async (client, args, { signal }) => {
     const { server_id } = schemas.ServerIdSchema.parse(args);
-    return formatData(await client.getCurrentDataUsage(server_id));
+    return formatData(await client.getCurrentDataUsage(server_id, { signal }));
   },
 
-  list_all_data_usage: async (client, args) => {
+  list_all_data_usage: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.listAllDataUsage(params));
+    return formatList(client, args, 'data_usages', (page, options) => client.listAllDataUsage({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_server_kernels: async (client, args) => {
-    const parsed = schemas.ServerIdSchema.merge(schemas.PaginationSchema).parse(args);
-    return formatData(await client.getServerKernels(parsed.server_id, parsed));
+  get_server_kernels: async (client, args, { signal }) => {
+    const parsed = schemas.ServerPaginationSchema.parse(args);
+    return formatList(client, args, 'kernels', (page, options) => client.getServerKernels(parsed.server_id, { ...parsed, ...page }, { ...options, signal }));
   },
 
-  get_server_features: async (client, args) => {
+  get_server_features: async (client, args, { signal }) => {
     const { server_id } = schemas.ServerIdSchema.parse(args);
-    return formatData(await client.getServerAvailableFeatures(server_id));
+    return formatData(await client.getServerAvailableFeatures(server_id, { signal }));
   },
 
-  get_server_threshold_alerts: async (client, args) => {
+  get_server_threshold_alerts: async (client, args, { signal }) => {
     const { server_id } = schemas.ServerIdSchema.parse(args);
-    return formatData(await client.getServerThresholdAlerts(server_id));
+    return formatData(await client.getServerThresholdAlerts(server_id, { signal }));
   },
 
-  list_exceeded_alerts: async (client) => formatData(await client.listExceededThresholdAlerts()),
+  list_exceeded_alerts: async (client, _args, { signal }) => formatData(await client.listExceededThresholdAlerts({ signal })),
 
-  get_server_software: async (client, args) => {
-    const parsed = schemas.ServerIdSchema.merge(schemas.PaginationSchema).parse(args);
-    return formatData(await client.getServerSoftware(parsed.server_id, parsed));
+  get_server_software: async (client, args, { signal }) => {
+    const parsed = schemas.ServerPaginationSchema.parse(args);
+    return formatList(client, args, 'software', (page, options) => client.getServerSoftware(parsed.server_id, { ...parsed, ...page }, { ...options, signal }));
   },
 
-  get_server_user_data: async (client, args) => {
+  get_server_user_data: async (client, args, { signal }) => {
     const { server_id } = schemas.ServerIdSchema.parse(args);
-    return formatData(await client.getServerUserData(server_id));
+    return formatData(await client.getServerUserData(server_id, { signal }));
   },
 
-  get_server_metrics: async (client, args) => {
+  get_server_metrics: async (client, args, { signal }) => {
     const params = schemas.ServerMetricsSchema.parse(args);
-    return formatData(await client.getServerMetrics(params.server_id, params));
+    return formatList(client, args, 'sample_sets', (page, options) => client.getServerMetrics(params.server_id, { ...params, ...page }, { ...options, signal }));
   },
 
-  get_server_latest_metrics: async (client, args) => {
+  get_server_latest_metrics: async (client, args, { signal }) => {
     const { server_id } = schemas.ServerIdSchema.parse(args);
-    return formatData(await client.getServerLatestMetrics(server_id));
+    return formatData(await client.getServerLatestMetrics(server_id, { signal }));
   },
 };
 
 // ==================== Image Handlers ====================
 
 export const imageHandlers: Record<string, ToolHandler> = {
-  list_images: async (client, args) => {
+  list_images: async (client, args, { signal }) => {
     const params = schemas.ListImagesSchema.parse(args);
-    return formatData(await client.listImages(params));
+    return formatList(client, args, 'images', (page, options) => client.listImages({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_image: async (client, args) => {
+  get_image: async (client, args, { signal }) => {
     const { image_id } = schemas.ImageIdSchema.parse(args);
-    return formatData(await client.getImage(image_id));
+    return formatData(await client.getImage(image_id, { signal }));
   },
 
-  delete_image: async (client, args) => {
+  delete_image: async (client, args, { signal }) => {
     const { image_id } = schemas.ImageIdSchema.parse(args);
-    auditLog('delete_image', { image_id });
     const numericImageId = typeof image_id === 'string' ? parseInt(image_id, 10) : image_id;
-    await client.deleteImage(numericImageId);
+    await client.deleteImage(numericImageId, { signal });
     return formatSuccess(`Image ${image_id} deleted`);
   },
 
-  update_image: async (client, args) => {
+  update_image: async (client, args, { signal }) => {
     const { image_id, ...rest } = schemas.UpdateImageSchema.parse(args);
-    return formatData(await client.updateImage(image_id, rest));
+    return formatData(await client.updateImage(image_id, rest, { signal }));
   },
 
-  get_image_download: async (client, args) => {
+  get_image_download: async (client, args, { signal }) => {
     const { image_id } = schemas.ImageIdSchema.parse(args);
     const numericImageId = typeof image_id === 'string' ? parseInt(image_id, 10) : image_id;
-    return formatData(await client.getImageDownload(numericImageId));
+    return formatData(await client.getImageDownload(numericImageId, { signal }));
   },
 };
 
 // ==================== SSH Key Handlers ====================
 
 export const sshKeyHandlers: Record<string, ToolHandler> = {
-  list_ssh_keys: async (client, args) => {
+  list_ssh_keys: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.listSshKeys(params));
+    return formatList(client, args, 'ssh_keys', (page, options) => client.listSshKeys({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_ssh_key: async (client, args) => {
+  get_ssh_key: async (client, args, { signal }) => {
     const { key_id } = schemas.SshKeyIdSchema.parse(args);
-    return formatData(await client.getSshKey(key_id));
+    return formatData(await client.getSshKey(key_id, { signal }));
   },
 
-  create_ssh_key: async (client, args) => {
+  create_ssh_key: async (client, args, { signal }) => {
     const params = schemas.CreateSshKeySchema.parse(args);
-    return formatData(await client.createSshKey(params));
+    return formatData(await client.createSshKey(params, { signal }));
   },
 
-  update_ssh_key: async (client, args) => {
+  update_ssh_key: async (client, args, { signal }) => {
     const { key_id, ...rest } = schemas.UpdateSshKeySchema.parse(args);
-    return formatData(await client.updateSshKey(key_id, rest));
+    return formatData(await client.updateSshKey(key_id, rest, { signal }));
   },
 
-  delete_ssh_key: async (client, args) => {
+  delete_ssh_key: async (client, args, { signal }) => {
     const { key_id } = schemas.SshKeyIdSchema.parse(args);
-    auditLog('delete_ssh_key', { key_id });
-    await client.deleteSshKey(key_id);
+    await client.deleteSshKey(key_id, { signal });
     return formatSuccess(`SSH key ${key_id} deleted`);
   },
 };
@@ -270,168 +353,207 @@ export const sshKeyHandlers: Record<string, ToolHandler> = {
 // ==================== Domain Handlers ====================
 
 export const domainHandlers: Record<string, ToolHandler> = {
-  list_domains: async (client, args) => {
+  list_domains: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.listDomains(params));
+    return formatList(client, args, 'domains', (page, options) => client.listDomains({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_domain: async (client, args) => {
+  get_domain: async (client, args, { signal }) => {
     const { domain_name } = schemas.DomainNameSchema.parse(args);
-    return formatData(await client.getDomain(domain_name));
+    return formatData(await client.getDomain(domain_name, { signal }));
   },
 
-  create_domain: async (client, args) => {
+  create_domain: async (client, args, { signal }) => {
     const params = schemas.CreateDomainSchema.parse(args);
-    return formatData(await client.createDomain(params));
-  },
-
-  delete_domain: async (client, args) => {
-    const { domain_name } = schemas.DomainNameSchema.parse(args);
-    auditLog('delete_domain', { domain_name });
-    await client.deleteDomain(domain_name);
-    return formatSuccess(`Domain ${domain_name} deleted`);
-  },
-
-  list_domain_records: async (client, args) => {
-    const parsed = schemas.DomainNameSchema.merge(schemas.PaginationSchema).parse(args);
-    return formatData(await client.listDomainRecords(parsed.domain_name, parsed));
-  },
-
-  get_domain_record: async (client, args) => {
+    return formatData(await client.createDomain(params, { signal }));
+  },
+
+  delete_domain: withConfirmation(
+    // Every record in the zone is deleted with it
+    async (client, args, { signal }) => {
+      const { domain_name } = schemas.DomainNameSchema.parse(args);
+      const [{ domain }, { domain_records, truncated }] = await Promise.all([
+        client.getDomain(domain_name, { signal }),
+        client.listAllDomainRecords(domain_name, { signal }),
+      ]);
+      return {
+        domain: { name: domain.name, current_nameservers: domain.current_nameservers },
+        records: domain_records.map(({ id, type, name, data }) => ({ id, type, name, data })),
+        ...(truncated && { records_truncated: true }),
+      };
+    },
+    async (client, args, { signal }) => {
+      const { domain_name } = schemas.DomainNameSchema.parse(args);
+      await client.deleteDomain(domain_name, { signal });
+      return formatSuccess(`Domain ${domain_name} deleted`);
+    }
+  ),
+
+  list_domain_records: async (client, args, { signal }) => {
+    const parsed = schemas.DomainPaginationSchema.parse(args);
+    return formatList(client, args, 'domain_records', (page, options) => client.listDomainRecords(parsed.domain_name, { ...parsed, ...page }, { ...options, signal }));
+  },
+
+  get_domain_record: async (client, args, { signal }) => {
     const { domain_name, record_id } = schemas.DomainRecordSchema.parse(args);
-    return formatData(await client.getDomainRecord(domain_name, record_id));
+    return formatData(await client.getDomainRecord(domain_name, record_id, { signal }));
   },
 
-  create_domain_record: async (client, args) => {
+  create_domain_record: async (client, args, { signal }) => {
     const { domain_name, ...rest } = schemas.CreateDomainRecordSchema.parse(args);
-    return formatData(await client.createDomainRecord(domain_name, rest));
+    return formatData(await client.createDomainRecord(domain_name, rest, { signal }));
   },
 
-  update_domain_record: async (client, args) => {
+  update_domain_record: async (client, args, { signal }) => {
     const { domain_name, record_id, ...rest } = schemas.UpdateDomainRecordSchema.parse(args);
-    return formatData(await client.updateDomainRecord(domain_name, record_id, rest));
+    return formatData(await client.updateDomainRecord(domain_name, record_id, rest, { signal }));
   },
 
-  delete_domain_record: async (client, args) => {
+  delete_domain_record: async (client, args, { signal }) => {
     const { domain_name, record_id } = schemas.DomainRecordSchema.parse(args);
-    auditLog('delete_domain_record', { domain_name, record_id });
-    await client.deleteDomainRecord(domain_name, record_id);
+    await client.deleteDomainRecord(domain_name, record_id, { signal });
     return formatSuccess(`DNS record ${record_id} deleted`);
   },
 
-  list_nameservers: async (client) => formatData(await client.listNameservers()),
+  list_nameservers: async (client, _args, { signal }) => formatData(await client.listNameservers({ signal })),
 
-  refresh_nameserver_cache: async (client, args) => {
+  refresh_nameserver_cache: async (client, args, { signal }) => {
     const { domain_name } = schemas.DomainNameSchema.parse(args);
-    await client.refreshNameserverCache(String(domain_name));
+    await client.refreshNameserverCache(String(domain_name), { signal });
     return formatSuccess(`Nameserver cache refreshed for ${domain_name}`);
   },
 
-  list_ipv6_reverse_names: async (client, args) => {
+  list_ipv6_reverse_names: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.listIpv6ReverseName(params));
+    return formatList(client, args, 'reverse_names', (page, options) => client.listIpv6ReverseName({ ...params, ...page }, { ...options, signal }));
   },
 
-  update_ipv6_reverse: async (client, args) => {
+  update_ipv6_reverse: async (client, args, { signal }) => {
     const params = schemas.UpdateIpv6ReverseSchema.parse(args);
-    return formatData(await client.updateIpv6Reverse(params.server_id, params.ip_address, params.reverse_name));
+    return formatData(await client.updateIpv6Reverse(params.server_id, params.ip_address, params.reverse_name, { signal }));
   },
 };
 
 // ==================== VPC Handlers ====================
 
 export const vpcHandlers: Record<string, ToolHandler> = {
-  list_vpcs: async (client, args) => {
+  list_vpcs: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.listVpcs(params));
+    return formatList(client, args, 'vpcs', (page, options) => client.listVpcs({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_vpc: async (client, args) => {
+  get_vpc: async (client, args, { signal }) => {
     const { vpc_id } = schemas.VpcIdSchema.parse(args);
-    return formatData(await client.getVpc(vpc_id));
+    return formatData(await client.getVpc(vpc_id, { signal }));
   },
 
-  create_vpc: async (client, args) => {
+  create_vpc: async (client, args, { signal }) => {
     const params = schemas.CreateVpcSchema.parse(args);
-    return formatData(await client.createVpc(params));
+    return formatData(await client.createVpc(params, { signal }));
   },
 
-  update_vpc: async (client, args) => {
+  update_vpc: async (client, args, { signal }) => {
     const { vpc_id, ...rest } = schemas.UpdateVpcSchema.parse(args);
-    return formatData(await client.updateVpc(vpc_id, rest));
-  },
-
-  delete_vpc: async (client, args) => {
-    const { vpc_id } = schemas.VpcIdSchema.parse(args);
-    auditLog('delete_vpc', { vpc_id });
-    await client.deleteVpc(vpc_id);
-    return formatSuccess(`VPC ${vpc_id} deleted`);
-  },
-
-  get_vpc_members: async (client, args) => {
+    return formatData(await client.updateVpc(vpc_id, rest, { signal }));
+  },
+
+  delete_vpc: withConfirmation(
+    // Members are listed because the API refuses to delete a VPC that still has any
+    async (client, args, { signal }) => {
+      const { vpc_id } = schemas.VpcIdSchema.parse(args);
+      const [{ vpc }, { members, truncated }] = await Promise.all([
+        client.getVpc(vpc_id, { signal }),
+        client.listAllVpcMembers(vpc_id, undefined, { signal }),
+      ]);
+      return {
+        vpc: { id: vpc.id, name: vpc.name, ip_range: vpc.ip_range, route_entries: vpc.route_entries.length },
+        members: members.map(({ name, resource_type, resource_id }) => ({ name, resource_type, resource_id })),
+        ...(truncated && { members_truncated: true }),
+      };
+    },
+    async (client, args, { signal }) => {
+      const { vpc_id } = schemas.VpcIdSchema.parse(args);
+      await client.deleteVpc(vpc_id, { signal });
+      return formatSuccess(`VPC ${vpc_id} deleted`);
+    }
+  ),
+
+  get_vpc_members: async (client, args, { signal }) => {
     const params = schemas.VpcMembersSchema.parse(args);
-    return formatData(await client.getVpcMembers(params.vpc_id, params));
+    return formatList(client, args, 'members', (page, options) => client.getVpcMembers(params.vpc_id, { ...params, ...page }, { ...options, signal }));
   },
 };
 
 // ==================== Load Balancer Handlers ====================
 
 export const loadBalancerHandlers: Record<string, ToolHandler> = {
-  list_load_balancers: async (client, args) => {
+  list_load_balancers: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.listLoadBalancers(params));
+    return formatList(client, args, 'load_balancers', (page, options) => client.listLoadBalancers({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_load_balancer: async (client, args) => {
+  get_load_balancer: async (client, args, { signal }) => {
     const { load_balancer_id } = schemas.LoadBalancerIdSchema.parse(args);
-    return formatData(await client.getLoadBalancer(load_balancer_id));
+    return formatData(await client.getLoadBalancer(load_balancer_id, { signal }));
   },
 
-  create_load_balancer: async (client, args) => {
+  create_load_balancer: async (client, args, { signal }) => {
     const params = schemas.CreateLoadBalancerSchema.parse(args);
-    return formatData(await client.createLoadBalancer(params));
+    return formatData(await client.createLoadBalancer(params, { signal }));
   },
 
-  update_load_balancer: async (client, args) => {
+  update_load_balancer: async (client, args, { signal }) => {
     const { load_balancer_id, ...rest } = schemas.UpdateLoadBalancerSchema.parse(args);
-    return formatData(await client.updateLoadBalancer(load_balancer_id, rest));
+    return formatData(await client.updateLoadBalancer(load_balancer_id, rest, { signal }));
   },
 
-  delete_load_balancer: async (client, args) => {
+  delete_load_balancer: async (client, args, { signal }) => {
     const { load_balancer_id } = schemas.LoadBalancerIdSchema.parse(args);
-    auditLog('delete_load_balancer', { load_balancer_id });
-    await client.deleteLoadBalancer(load_balancer_id);
+    await client.deleteLoadBalancer(load_balancer_id, { signal });
     return formatSuccess(`Load balancer ${load_balancer_id} deleted`);
   },
 
-  get_load_balancer_availability: async (client, args) => {
+  get_load_balancer_availability: async (client, args, { signal }) => {
     const { region } = schemas.LoadBalancerAvailabilitySchema.parse(args);
-    return formatData(await client.getLoadBalancerAvailability(region));
+    return formatData(await client.getLoadBalancerAvailability(region, { signal }));
   },
 
-  add_servers_to_load_balancer: async (client, args) => {
+  add_servers_to_load_balancer: async (client, args, { signal }) => {
     const { load_balancer_id, server_ids } = schemas.LoadBalancerServersSchema.parse(args);
-    await client.addServersToLoadBalancer(load_balancer_id, server_ids);
+    await client.addServersToLoadBalancer(load_balancer_id, server_ids, { signal });
     return formatSuccess(`Added ${server_ids.length} server(s) to load balancer ${load_balancer_id}`);
   },
 
-  remove_servers_from_load_balancer: async (client, args) => {
-    const { load_balancer_id, server_ids } = schemas.LoadBalancerServersSchema.parse(args);
-    auditLog('remove_servers_from_load_balancer', { load_balancer_id, server_ids });
-    await client.removeServersFromLoadBalancer(load_balancer_id, server_ids);
-    return formatSuccess(`Removed ${server_ids.length} server(s) from load balancer ${load_balancer_id}`);
-  },
-
-  add_forwarding_rules: async (client, args) => {
+  remove_servers_from_load_balancer: withConfirmation(
+    // Shows which backends would be left to serve traffic
+    async (client, args, { signal }) => {
+      const { load_balancer_id, server_ids } = schemas.LoadBalancerServersSchema.parse(args);
+      const { load_balancer } = await client.getLoadBalancer(load_balancer_id, { signal });
+      const remaining = load_balancer.server_ids.filter(id => !server_ids.includes(id));
+      return {
+        load_balancer: { id: load_balancer.id, name: load_balancer.name, ip: load_balancer.ip, status: load_balancer.status },
+        removing: server_ids.filter(id => load_balancer.server_ids.includes(id)),
+        not_attached: server_ids.filter(id => !load_balancer.server_ids.includes(id)),
+        remaining,
+        ...(remaining.length === 0 && { warning: 'No servers would be left behind this load balancer' }),
+      };
+    },
+    async (client, args, { signal }) => {
+      const { load_balancer_id, server_ids } = schemas.LoadBalancerServersSchema.parse(args);
+      await client.removeServersFromLoadBalancer(load_balancer_id, server_ids, { signal });
+      return formatSuccess(`Removed ${server_ids.length} server(s) from load balancer ${load_balancer_id}`);
+    }
+  ),
+
+  add_forwarding_rules: async (client, args, { signal }) => {
     const { load_balancer_id, forwarding_rules } = schemas.LoadBalancerRulesSchema.parse(args);
-    await client.addForwardingRulesToLoadBalancer(load_balancer_id, forwarding_rules);
+    await client.addForwardingRulesToLoadBalancer(load_balancer_id, forwarding_rules, { signal });
     return formatSuccess(`Added ${forwarding_rules.length} forwarding rule(s)`);
   },
 
-  remove_forwarding_rules: async (client, args) => {
+  remove_forwarding_rules: async (client, args, { signal }) => {
     const { load_balancer_id, forwarding_rules } = schemas.LoadBalancerRulesSchema.parse(args);
-    auditLog('remove_forwarding_rules', { load_balancer_id, forwarding_rules });
-    await client.removeForwardingRulesFromLoadBalancer(load_balancer_id, forwarding_rules);
+    await client.removeForwardingRulesFromLoadBalancer(load_balancer_id, forwarding_rules, { signal });
     return formatSuccess(`Removed ${forwarding_rules.length} forwarding rule(s)`);
   },
 };
@@ -439,44 +561,75 @@ export const loadBalancerHandlers: Record<string, ToolHandler> = {
 // ==================== Region & Size Handlers ====================
 
 export const regionSizeHandlers: Record<string, ToolHandler> = {
-  list_regions: async (client) => formatData(await client.listRegions()),
+  list_regions: async (client, _args, { signal }) => formatData(await client.listRegions({ signal })),
 
-  list_sizes: async (client, args) => {
+  list_sizes: async (client, args, { signal }) => {
     const params = schemas.ListSizesSchema.parse(args);
-    return formatData(await client.listSizes(params));
+    return formatData(await client.listSizes(params, { signal }));
   },
 };
 
 // ==================== Action Handlers ====================
 
 export const actionHandlers: Record<string, ToolHandler> = {
-  list_actions: async (client, args) => {
+  list_actions: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.listActions(params));
+    return formatList(client, args, 'actions', (page, options) => client.listActions({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_action: async (client, args) => {
+  get_action: async (client, args, { signal }) => {
     const { action_id } = schemas.ActionIdSchema.parse(args);
-    return formatData(await client.getAction(action_id));
+    return formatData(await client.getAction(action_id, { signal }));
   },
 };
 
 // ==================== Software Handlers ====================
 
 export const softwareHandlers: Record<string, ToolHandler> = {
-  list_software: async (client, args) => {
+  list_software: async (client, args, { signal }) => {
     const params = schemas.PaginationSchema.parse(args);
-    return formatData(await client.listSoftware(params));
+    return formatList(client, args, 'software', (page, options) => client.listSoftware({ ...params, ...page }, { ...options, signal }));
   },
 
-  get_software: async (client, args) => {
+  get_software: async (client, args, { signal }) => {
     const { software_id } = schemas.SoftwareIdSchema.parse(args);
-    return formatData(await client.getSoftware(software_id));
+    return formatData(await client.getSoftware(software_id, { signal }));
   },
 
-  list_software_for_os: async (client, args) => {
+  list_software_for_os: async (client, args, { signal }) => {
     const params = schemas.SoftwareForOSSchema.parse(args);
-    return formatData(await client.listSoftwareForOS(params.operating_system_id, params));
+    return formatList(client, args, 'software', (page, options) => client.listSoftwareForOS(params.operating_system_id, { ...params, ...page }, { ...options, signal }));
+  },
+};
+
+// ==================== Cache Handlers ====================
+
+export const cacheHandlers: Record<string, ToolHandler> = {
+  get_cache_stats: async (client) => formatData(client.getCacheStats()),
+
+  clear_cache: async (client, _args, { account }) => {
+    const removed = client.clearCache();
+    return formatSuccess(`Cleared ${removed} cached responses for account "${account}"`);
+  },
+};
+
+// ==================== Health Handlers ====================
+
+export const healthHandlers: Record<string, ToolHandler> = {
+  get_health: async (client, _args, { account }) => formatData({ account, ...client.getHealth() }),
+};
+
+// ==================== Audit Handlers ====================
+
+export const auditHandlers: Record<string, ToolHandler> = {
+  query_audit_log: async (_client, args, { account, caller, fullAccess, audit }) => {
+    if (!audit) {
+      throw new Error('The audit log is disabled (audit.enabled is false)');
+    }
+    const filter = schemas.QueryAuditLogSchema.parse(args);
+    // Entries hold other callers' arguments, so callers without the "*" scope see only their own
+    const own = fullAccess ? {} : { caller };
+    return formatData({ file: audit.file, ...audit.query({ ...filter, ...own, account }) });
   },
 };
 
@@ -493,4 +646,7 @@ export const allHandlers: Record<string, ToolHandler> = {
   ...regionSizeHandlers,
   ...actionHandlers,
   ...softwareHandlers,
+  ...cacheHandlers,
+  ...healthHandlers,
+  ...auditHandlers,
 };
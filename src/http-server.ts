@@ -0,0 +1,291 @@
+/**
+ * HTTP transports for BinaryLane MCP Server
+ * Serves Streamable HTTP (and legacy SSE) sessions so one instance can be shared by several clients
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { logger } from './logger.js';
+
+// Maximum accepted size of a JSON-RPC request body
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Endpoint paths
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+// Default time a session may go without requests before it is closed: 30 minutes
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+// Longest wait between checks for idle sessions
+const IDLE_SWEEP_INTERVAL = 60 * 1000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Resolves the caller for a request; when set, requests it rejects get 401
+  authenticate?: (req: IncomingMessage) => AuthInfo | undefined;
+  // Host names accepted in the Host and Origin headers; when unset, neither header is checked
+  allowedHosts?: string[];
+  // Further origins accepted in the Origin header, e.g. "https://agents.example.com"
+  allowedOrigins?: string[];
+  // Milliseconds without requests before a session is closed; 0 keeps sessions open
+  sessionIdleTimeout?: number;
+}
+
+// Connected session, whichever transport it arrived on
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  // Caller that opened the session; only they may use it
+  clientId?: string;
+  // When the session last received a request, in epoch milliseconds
+  lastActivity: number;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+/**
+ * Read and parse a JSON request body, enforcing MAX_BODY_BYTES.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+// Helper to send a JSON-RPC error outside of any session
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }));
+}
+
+// Lower-cased host name of a Host header or origin, without IPv6 brackets; undefined when malformed
+function hostnameOf(value: string): string | undefined {
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check the Host and Origin headers against the allowed hosts and origins, so a web page
+ * cannot reach the server through DNS rebinding or a cross-origin request.
+ *
+ * @returns Why the request is refused, or undefined when it is allowed
+ */
+function checkRequestOrigin(req: IncomingMessage, options: HttpServerOptions): string | undefined {
+  const { allowedHosts, allowedOrigins = [] } = options;
+  if (!allowedHosts) {
+    return undefined;
+  }
+
+  const host = req.headers.host;
+  const hostname = host && hostnameOf(host);
+  if (!hostname || !allowedHosts.includes(hostname)) {
+    return `Host not allowed: ${host ?? '(none)'}`;
+  }
+
+  const origin = req.headers.origin;
+  if (origin !== undefined && !allowedOrigins.includes(origin)) {
+    const originHost = origin === 'null' ? undefined : hostnameOf(origin);
+    if (!originHost || !allowedHosts.includes(originHost)) {
+      return `Origin not allowed: ${origin}`;
+    }
+  }
+  return undefined;
+}
+
+function sendUnauthorized(res: ServerResponse): void {
+  res.setHeader('WWW-Authenticate', 'Bearer realm="binarylane-mcp"');
+  sendJsonRpcError(res, 401, 'Unauthorized: provide a valid API key or bearer token');
+}
+
+/**
+ * Start an HTTP server exposing the MCP server over Streamable HTTP at /mcp
+ * and the legacy SSE transport at /sse + /messages.
+ *
+ * Every session gets its own Server instance from createServer, since a
+ * Server can only be connected to one transport at a time.
+ *
+ * @returns A function that closes all sessions and stops listening
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions
+): Promise<() => Promise<void>> {
+  const sessions = new Map<string, Session>();
+  const idleTimeout = options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+
+  // Look up a session, hiding sessions that belong to another caller
+  function getSession(sessionId: string, req: AuthenticatedRequest): Session | undefined {
+    const session = sessions.get(sessionId);
+    if (!session || session.clientId !== req.auth?.clientId) {
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  // Close a session's transport and its Server, which stops anything the Server started
+  async function closeSession(id: string, session: Session): Promise<void> {
+    sessions.delete(id);
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error) {
+      logger.error(`Error closing session ${id}:`, error);
+    }
+  }
+
+  // Close sessions that have gone without requests for longer than the idle timeout
+  const idleSweep = idleTimeout > 0
+    ? setInterval(() => {
+      const cutoff = Date.now() - idleTimeout;
+      for (const [id, session] of sessions) {
+        if (session.lastActivity < cutoff) {
+          logger.info(`Closing session ${id} after ${idleTimeout}ms without requests`);
+          void closeSession(id, session);
+        }
+      }
+    }, Math.min(idleTimeout, IDLE_SWEEP_INTERVAL)).unref()
+    : undefined;
+
+  async function handleStreamableHttp(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = getSession(sessionId, req);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, clientId: req.auth?.clientId, lastActivity: Date.now() });
+      },
+      onsessionclosed: (id) => {
+        sessions.delete(id);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const server = createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { transport, server, clientId: req.auth?.clientId, lastActivity: Date.now() });
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: AuthenticatedRequest, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = getSession(sessionId, req);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = createHttpServer((req: AuthenticatedRequest, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const refused = checkRequestOrigin(req, options);
+    if (refused) {
+      sendJsonRpcError(res, 403, `Forbidden: ${refused}`);
+      return;
+    }
+
+    // Authenticate before any MCP processing; the SDK passes req.auth to handlers as extra.authInfo
+    if (options.authenticate) {
+      req.auth = options.authenticate(req);
+      if (!req.auth) {
+        sendUnauthorized(res);
+        return;
+      }
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === MCP_PATH && ['GET', 'POST', 'DELETE'].includes(req.method ?? '')) {
+      handled = handleStreamableHttp(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      handled = handleSseConnect(req, res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      handled = handleSseMessage(req, res, url);
+    } else {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+      return;
+    }
+
+    handled.catch((error) => {
+      logger.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, error instanceof Error ? error.message : String(error));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return async () => {
+    clearInterval(idleSweep);
+    for (const [id, session] of sessions) {
+      await closeSession(id, session);
+    }
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  };
+}
@@ -13,86 +13,246 @@
  * - Actionable error messages
  * - Comprehensive tool descriptions
  *
+ * Configuration:
+ *   Settings are read from an optional JSON or YAML config file (--config or BINARYLANE_MCP_CONFIG),
+ *   then overridden by environment variables, then by command-line flags. See README.md
+ *   for the full list of options.
+ *
  * Environment Variables:
- *   BINARYLANE_API_TOKEN - Required. Your BinaryLane API token.
+ *   BINARYLANE_API_TOKEN - Required unless accounts are configured. Your BinaryLane API token.
+ *   BINARYLANE_MCP_CONFIG - Optional. Path to a JSON or YAML config file.
+ *   BINARYLANE_MCP_ACCOUNTS_CONFIG - Optional. Path to a JSON file of named accounts, each
+ *                                    with its own token, selectable per call via `account`.
+ *   BINARYLANE_MCP_TRANSPORT - Optional. Transport to serve: stdio (default) or http
+ *                              (Streamable HTTP at /mcp plus legacy SSE at /sse).
+ *   BINARYLANE_MCP_HOST - Optional. Listen address for http (default: 127.0.0.1).
+ *   BINARYLANE_MCP_PORT - Optional. Listen port for http (default: 3000).
+ *   BINARYLANE_MCP_AUTH_CONFIG - Optional. Path to a JSON file of API keys / token secret
+ *                                required by the http transport.
+ *   BINARYLANE_MCP_MODE - Optional. Tools to expose: read-only, no-destructive or full (default).
+ *   BINARYLANE_MCP_DRY_RUN - Optional. Return the request each change would send instead of sending it.
+ *   BINARYLANE_MCP_POLICY_CONFIG - Optional. Path to a JSON file of protected-resource rules.
+ *   BINARYLANE_MCP_AUDIT_FILE - Optional. Audit log file (default: ~/.binarylane-mcp/audit.jsonl).
+ *
+ * Commands:
+ *   verify-audit-log [file] - Check the audit log's hash chain (default: audit.file) and exit.
+ *
+ * Command-line flags --config, --transport, --host, --port, --mode, --dry-run, --auth-config,
+ * --accounts-config and --policy-config override the environment.
  *
  * @see https://api.binarylane.com.au/reference/
  */
 
+import { parseArgs } from 'node:util';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { ZodError } from 'zod';
 
-import { BinaryLaneClient, ApiError } from './api-client.js';
-import { allTools } from './tools.js';
-import { allHandlers } from './handlers.js';
+import { ApiError, ClientConfig, UncertainOutcomeError } from './api-client.js';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { allTools, findToolMismatches, getToolGroup, requiresConfirmation, supportsDryRun } from './tools.js';
+import { allHandlers, ToolContext, ToolHandler, withConfirmation } from './handlers.js';
+import { AccountSelectionSchema, DryRunSchema } from './schemas.js';
+import { startHttpServer } from './http-server.js';
+import { Authenticator, hasFullAccess, isGroupAllowed, isToolAllowed } from './auth.js';
+import { AccountRegistry, DEFAULT_ACCOUNT_NAME, validateApiToken } from './accounts.js';
+import { Config, ConfigError, loadConfig } from './config.js';
+import { listResources, matchResource, ResourceMatch, resourceTemplates } from './resources.js';
+import { ResourcePoller } from './subscriptions.js';
+import { getPromptGroups, listPrompts, renderPrompt } from './prompts.js';
+import { complete, getCompletionGroup, getCompletionSource } from './completions.js';
+import { logger, setLogLevel } from './logger.js';
+import { CircuitOpenError } from './circuit-breaker.js';
+import { ResponseValidationError } from './response-schemas.js';
+import { getToolRestriction } from './safety.js';
+import { ConfirmationError, ConfirmationStore } from './confirmation.js';
+import { describeTarget, PolicyDeniedError, PolicyEngine } from './policy.js';
+import { AuditLog, AuditOutcome, findActionId, verifyAuditLog } from './audit-log.js';
+import { DryRunError, runDryRun } from './dry-run.js';
 
 // ==================== Configuration ====================
 
-const SERVER_NAME = 'binarylane-mcp';
-const SERVER_VERSION = '1.0.0';
-
-// Get API token from environment
-const API_TOKEN = process.env.BINARYLANE_API_TOKEN;
+// Hosts that are only reachable from this machine
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
 
 /**
- * Validates that the API token matches the expected BinaryLane format.
- * @param token - The API token to validate
- * @returns An error message if validation fails, otherwise null
+ * Load configuration from the config file, environment and command-line flags.
+ * Exits with a diagnostic listing every invalid setting.
+ * @returns The configuration, and any command given before or after the flags
  */
-function validateApiToken(token: string): string | null {
-  // BinaryLane API tokens are 64 alphanumeric characters
-  const TOKEN_PATTERN = /^[a-zA-Z0-9]{64}$/;
+function loadServerConfig(): { config: Config; command: string[] } {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      mode: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      'auth-config': { type: 'string' },
+      'accounts-config': { type: 'string' },
+      'policy-config': { type: 'string' },
+    },
+  });
 
-  if (token.length !== 64) {
-    return `Invalid token length: expected 64 characters, got ${token.length}`;
+  try {
+    const config = loadConfig({
+      path: values.config ?? process.env.BINARYLANE_MCP_CONFIG,
+      env: process.env,
+      flags: { ...values, 'dry-run': values['dry-run'] ? 'true' : undefined },
+    });
+    return { config, command: positionals };
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(`Error: ${error.message}`);
+    console.error('');
+    for (const issue of error.issues) {
+      console.error(`  - ${issue}`);
+    }
+    process.exit(1);
   }
+}
 
-  if (!TOKEN_PATTERN.test(token)) {
-    return 'Invalid token format: token must contain only alphanumeric characters (a-z, A-Z, 0-9)';
+/**
+ * Check the hash chain of an audit log file and report the result.
+ * @returns The process exit code: 0 if the chain is intact, 1 otherwise
+ */
+function runAuditVerification(file: string): number {
+  let result;
+  try {
+    result = verifyAuditLog(file);
+  } catch (error) {
+    console.error(`Error: Cannot read audit log ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
   }
 
-  return null;
+  if (result.intact) {
+    console.log(`Audit log ${file}: ${result.entries} entries, hash chain intact`);
+    console.log(`Last hash: ${result.last_hash}`);
+    return 0;
+  }
+  console.error(`Audit log ${file}: ${result.entries} entries, hash chain BROKEN`);
+  console.error('');
+  for (const problem of result.problems) {
+    console.error(`  - ${problem}`);
+  }
+  return 1;
 }
 
-if (!API_TOKEN) {
-  console.error('Error: BINARYLANE_API_TOKEN environment variable is required');
-  console.error('');
-  console.error('Get your API token from: https://home.binarylane.com.au/api-info');
+/**
+ * Check that every tool has an input schema and a handler, and every handler a tool.
+ * Exits with a diagnostic listing every mismatch.
+ */
+function checkToolDefinitions(): void {
+  const problems = findToolMismatches(Object.keys(allHandlers));
+  if (problems.length === 0) {
+    return;
+  }
+  console.error('Error: Tool definitions and handlers do not match');
   console.error('');
-  console.error('Usage:');
-  console.error('  export BINARYLANE_API_TOKEN="your-token-here"');
-  console.error('  npx binarylane-mcp');
+  for (const problem of problems) {
+    console.error(`  - ${problem}`);
+  }
   process.exit(1);
 }
 
-// Validate token format
-const tokenValidationError = validateApiToken(API_TOKEN);
-if (tokenValidationError) {
-  console.error('Error: Invalid BINARYLANE_API_TOKEN format');
-  console.error('');
-  console.error(`Issue: ${tokenValidationError}`);
-  console.error('');
-  console.error('Expected format: 64 alphanumeric characters (a-z, A-Z, 0-9)');
-  console.error('Example: fuHUGTGDGNA32N44mwektPk7Pg57AEBUnZMwpKGrwtMLSLaK1tM818ZdVUYok3is');
-  console.error('');
-  console.error('Get your API token from: https://home.binarylane.com.au/api-info');
-  process.exit(1);
+/**
+ * Build the account registry from the accounts section if one is configured,
+ * otherwise from BINARYLANE_API_TOKEN as a single "default" account.
+ * Exits with a diagnostic if no usable token is configured.
+ */
+function loadAccounts(config: Config, clientConfig: ClientConfig): AccountRegistry {
+  if (config.accounts) {
+    try {
+      return AccountRegistry.fromConfig(config.accounts, clientConfig);
+    } catch (error) {
+      console.error('Error: Invalid accounts config');
+      console.error('');
+      console.error(`Issue: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
+
+  // Get API token from environment
+  const API_TOKEN = process.env.BINARYLANE_API_TOKEN;
+
+  if (!API_TOKEN) {
+    console.error('Error: BINARYLANE_API_TOKEN environment variable is required');
+    console.error('');
+    console.error('Get your API token from: https://home.binarylane.com.au/api-info');
+    console.error('');
+    console.error('Usage:');
+    console.error('  export BINARYLANE_API_TOKEN="your-token-here"');
+    console.error('  npx binarylane-mcp');
+    console.error('');
+    console.error('Or configure several accounts with --accounts-config <file>.');
+    process.exit(1);
+  }
+
+  // Validate token format
+  const tokenValidationError = validateApiToken(API_TOKEN);
+  if (tokenValidationError) {
+    console.error('Error: Invalid BINARYLANE_API_TOKEN format');
+    console.error('');
+    console.error(`Issue: ${tokenValidationError}`);
+    console.error('');
+    console.error('Expected format: 64 alphanumeric characters (a-z, A-Z, 0-9)');
+    console.error('Example: fuHUGTGDGNA32N44mwektPk7Pg57AEBUnZMwpKGrwtMLSLaK1tM818ZdVUYok3is');
+    console.error('');
+    console.error('Get your API token from: https://home.binarylane.com.au/api-info');
+    process.exit(1);
+  }
+
+  return new AccountRegistry([{ name: DEFAULT_ACCOUNT_NAME, token: API_TOKEN }], undefined, clientConfig);
 }
 
-// Initialize API client
-const client = new BinaryLaneClient(API_TOKEN);
+/**
+ * Check whether a tool group is exposed by the configured tool groups.
+ */
+function isGroupEnabled(config: Config, group: string): boolean {
+  const { enabledGroups } = config.tools;
+  return !enabledGroups || enabledGroups.includes(group);
+}
+
+/**
+ * Check whether a tool is exposed by the configured tool groups and safety settings.
+ */
+function isToolEnabled(config: Config, tool: Tool): boolean {
+  const group = getToolGroup(tool.name);
+  return group !== undefined && isGroupEnabled(config, group) && getToolRestriction(config.safety, tool) === undefined;
+}
 
 // ==================== Error Handling ====================
 
 /**
  * Format errors into actionable messages for LLM consumption.
+ * @param account Name of the account the call was made with, when several are configured; every
+ *   message is prefixed with it
  */
-function formatError(error: unknown): string {
+function formatError(error: unknown, account?: string): string {
+  const message = describeError(error, account);
+  return account ? `[account: ${account}] ${message}` : message;
+}
+
+function describeError(error: unknown, account?: string): string {
   // Handle Zod validation errors
   if (error instanceof ZodError) {
     const issues = error.issues.map(issue => {
@@ -104,28 +264,43 @@ function formatError(error: unknown): string {
 
   // Handle API errors with type checking
   if (error instanceof ApiError) {
-    // Provide actionable suggestions based on HTTP status codes
-    switch (error.statusCode) {
-      case 401:
-        return 'Authentication failed. Please verify your BINARYLANE_API_TOKEN is valid and not expired.';
-      case 403:
-        return 'Permission denied. Your API token may not have access to this resource.';
-      case 404:
-        return 'Resource not found. Please verify the ID exists using the appropriate list tool.';
-      case 409:
-        return 'Conflict: The operation cannot be completed in the current state. Check if another operation is in progress.';
-      case 422:
-        return `Invalid request: ${error.message}. Check that all required parameters are provided with valid values.`;
-      case 429:
-        return 'Rate limit exceeded. Please wait a moment before retrying.';
-      case 500:
-      case 502:
-      case 503:
-      case 504:
-        return 'BinaryLane API error. This may be temporary - please try again in a few moments.';
-      default:
-        return `API error (${error.statusCode}): ${error.message}`;
-    }
+    return formatApiError(error, account);
+  }
+
+  // A change that may have been applied is never retried blindly
+  if (error instanceof UncertainOutcomeError) {
+    const checkFailed = error.reconcileError ? ` Checking whether it was applied also failed: ${error.reconcileError.message}.` : '';
+    return `${error.message}.${checkFailed} Check the current state (e.g., with the matching list or get tool) before trying again.`;
+  }
+
+  // Requests are paused after repeated API failures
+  if (error instanceof CircuitOpenError) {
+    const seconds = Math.ceil(error.retryInMs / 1000);
+    return `BinaryLane API appears to be unavailable, so requests are paused after repeated failures. `
+      + (seconds > 0 ? `The next attempt will be allowed in ${seconds}s.` : 'A test request is in progress; try again shortly.')
+      + ' Use get_health to check the circuit state.';
+  }
+
+  // The API answered, but not in the shape the client expects
+  if (error instanceof ResponseValidationError) {
+    return `${error.message}. The BinaryLane API response format may have changed.`
+      + (error.method === 'GET' ? '' : ' The change itself was applied.')
+      + ' Set api.responseValidation to "warn" to use such responses anyway.';
+  }
+
+  // A protected resource was named in a call the policy refuses; nothing was sent
+  if (error instanceof PolicyDeniedError) {
+    return `${error.message}. Nothing was changed. This is a fixed policy; do not retry or look for another tool to make the same change.`;
+  }
+
+  // A dry run found arguments naming resources that do not exist; nothing was sent
+  if (error instanceof DryRunError) {
+    return `Dry run failed: ${error.message}. Nothing was sent.`;
+  }
+
+  // A destructive call was repeated with a token that does not match its preview
+  if (error instanceof ConfirmationError) {
+    return `Confirmation failed: ${error.message}. Nothing was changed. Call ${error.tool} without confirmation_token to get a new preview and token.`;
   }
 
   // Fallback for non-API errors
@@ -136,74 +311,450 @@ function formatError(error: unknown): string {
   return `Unexpected error: ${String(error)}`;
 }
 
-// ==================== Server Setup ====================
-
-const server = new Server(
-  {
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+function formatApiError(error: ApiError, account?: string): string {
+  // Provide actionable suggestions based on HTTP status codes
+  switch (error.statusCode) {
+    case 401:
+      return account
+        ? `Authentication failed. Please verify the API token configured for account "${account}" is valid and not expired.`
+        : 'Authentication failed. Please verify your BINARYLANE_API_TOKEN is valid and not expired.';
+    case 403:
+      return 'Permission denied. Your API token may not have access to this resource.';
+    case 404:
+      return 'Resource not found. Please verify the ID exists using the appropriate list tool.';
+    case 408:
+      return `BinaryLane API timeout: ${error.message}. The API may be slow or unreachable - please try again.`;
+    case 409:
+      return 'Conflict: The operation cannot be completed in the current state. Check if another operation is in progress.';
+    case 422:
+      return `Invalid request: ${error.message}. Check that all required parameters are provided with valid values.`;
+    case 429:
+      return 'Rate limit exceeded. Please wait a moment before retrying.';
+    case 500:
+    case 502:
+    case 503:
+    case 504:
+      return 'BinaryLane API error. This may be temporary - please try again in a few moments.';
+    default:
+      return `API error (${error.statusCode}): ${error.message}`;
   }
-);
-
-// ==================== Tool Registration ====================
+}
 
-// Handle list tools request
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools: allTools };
-});
+// ==================== Server Setup ====================
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+/**
+ * Create an MCP server with all tools registered.
+ * Called once for stdio, and once per session for the HTTP transports.
+ */
+function createServer(
+  config: Config,
+  accounts: AccountRegistry,
+  confirmations: ConfirmationStore,
+  policy: PolicyEngine,
+  audit: AuditLog | undefined
+): Server {
+  const server = new Server(
+    {
+      name: config.server.name,
+      version: config.server.version,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        completions: {},
+      },
+    }
+  );
 
-  // Find the handler for this tool
-  const handler = allHandlers[name];
+  // ==================== Tool Registration ====================
 
-  if (!handler) {
+  // Handle list tools request, hiding disabled tools and tools outside the caller's scopes
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
     return {
-      content: [{
-        type: 'text',
-        text: `Unknown tool: ${name}. Use list_tools to see available tools.`,
-      }],
-      isError: true,
+      tools: allTools.filter(tool => isToolEnabled(config, tool) && isToolAllowed(extra.authInfo, tool.name)),
     };
-  }
+  });
 
-  try {
-    // Execute the handler
-    const result = await handler(client, args || {});
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
 
-    // Return formatted result
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify(result, null, 2),
-      }],
+    // Find the handler for this tool
+    const handler = allHandlers[name];
+    const tool = allTools.find(t => t.name === name);
+    const group = getToolGroup(name);
+
+    if (!handler || !tool || !group) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Unknown tool: ${name}. Use list_tools to see available tools.`,
+        }],
+        isError: true,
+      };
+    }
+
+    // Every call that can make changes is recorded once its outcome is known, including calls
+    // refused before an account is selected
+    const { account, dry_run, ...toolArgs } = args || {};
+    const auditCall = (accountName: string | undefined, outcome: AuditOutcome, details: { error?: string; action_id?: number } = {}) => {
+      if (!audit || tool.annotations?.readOnlyHint === true) return;
+      const client = server.getClientVersion();
+      audit.record({
+        tool: name,
+        ...(accountName !== undefined && { account: accountName }),
+        caller: extra.authInfo?.clientId ?? config.transport.type,
+        ...(client && { client: `${client.name}/${client.version}` }),
+        arguments: toolArgs,
+        outcome,
+        ...details,
+      });
     };
-  } catch (error) {
-    // Return actionable error message
-    return {
-      content: [{
-        type: 'text',
-        text: formatError(error),
-      }],
-      isError: true,
+    // Refused calls are recorded against the account they name, or the default account
+    const refuse = (text: string) => {
+      const named = AccountSelectionSchema.safeParse({ account });
+      let accountName: string | undefined;
+      try {
+        accountName = accounts.resolve(named.success ? named.data.account : undefined).name;
+      } catch {
+        // An unknown account is left out of the entry
+      }
+      auditCall(accountName, 'denied', { error: text });
+      return {
+        content: [{
+          type: 'text',
+          text,
+        }],
+        isError: true,
+      };
     };
-  }
-});
+
+    // Tools in disabled groups are reported as unknown, as they are left out of tools/list
+    if (!isGroupEnabled(config, group)) {
+      return refuse(`Unknown tool: ${name}. Use list_tools to see available tools.`);
+    }
+
+    // Tools withheld by the operating mode or deny list are named, so the caller knows not to retry
+    const restriction = getToolRestriction(config.safety, tool);
+    if (restriction) {
+      return refuse(`Tool not available: ${restriction}.`);
+    }
+
+    if (!isToolAllowed(extra.authInfo, name)) {
+      return refuse(`Permission denied: '${extra.authInfo?.clientId}' is not allowed to call ${name} (requires scope '${getToolGroup(name)}').`);
+    }
+
+    let accountName: string | undefined;
+    try {
+      // Select the account, then pass the remaining arguments to the handler
+      const selected = accounts.resolve(AccountSelectionSchema.parse({ account }).account);
+      accountName = selected.name;
+      // Dry runs are set for every call by safety.dryRun, or for one by its dry_run argument
+      const dryRun = supportsDryRun(name) && (config.safety.dryRun || DryRunSchema.parse({ dry_run }).dry_run === true);
+
+      // Protected resources are checked before any handler runs
+      let run: ToolHandler = handler;
+      const decision = await policy.evaluate(name, toolArgs, selected.name, selected.client, extra.signal);
+      if (decision?.effect === 'deny') {
+        throw new PolicyDeniedError(decision);
+      }
+      if (decision?.effect === 'confirm' && !requiresConfirmation(name)) {
+        run = withConfirmation(async () => ({
+          policy: decision.rule.name,
+          operation: decision.operation,
+          resource: describeTarget(decision.target),
+          ...(decision.rule.reason && { reason: decision.rule.reason }),
+        }), handler);
+      }
+
+      // Execute the handler, or in a dry run capture the change it would send
+      const progressToken = request.params._meta?.progressToken;
+      const context: ToolContext = {
+        tool: name,
+        account: selected.name,
+        accounts,
+        caller: extra.authInfo?.clientId,
+        fullAccess: hasFullAccess(extra.authInfo),
+        confirmations,
+        audit,
+        dryRun,
+        signal: extra.signal,
+        reportProgress: async (progress, total, message) => {
+          if (progressToken === undefined) return;
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message },
+          });
+        },
+      };
+      const result = dryRun
+        ? await runDryRun(run, selected.client, toolArgs, context)
+        : await run(selected.client, toolArgs, context);
+
+      const pending = (result as { confirmation_required?: boolean }).confirmation_required === true;
+      auditCall(selected.name, dryRun ? 'dry_run' : pending ? 'confirmation_required' : 'success', { action_id: findActionId(result) });
+
+      // Return formatted result
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error) {
+      const message = formatError(error, accounts.isMultiAccount ? accountName : undefined);
+      auditCall(accountName, error instanceof PolicyDeniedError ? 'denied' : 'error', { error: message });
+
+      // Return actionable error message
+      return {
+        content: [{
+          type: 'text',
+          text: message,
+        }],
+        isError: true,
+      };
+    }
+  });
+
+  // ==================== Resource Registration ====================
+
+  // Resources follow the same group settings and scopes as the matching read tools
+  const canReadGroup = (authInfo: AuthInfo | undefined, group: string) =>
+    isGroupEnabled(config, group) && isGroupAllowed(authInfo, group);
+
+  // List concrete resources for the default account
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    try {
+      const { client } = accounts.resolve();
+      return { resources: await listResources(client, group => canReadGroup(extra.authInfo, group)) };
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, formatError(error));
+    }
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  /**
+   * Match a resource URI and check the caller may read it.
+   * @throws {McpError} If the URI is unknown or outside the caller's scopes
+   */
+  const resolveResource = (uri: string, authInfo: AuthInfo | undefined): ResourceMatch => {
+    const match = matchResource(uri);
+
+    if (!match || !isGroupEnabled(config, match.group)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}. Use resources/templates/list to see available resources.`);
+    }
+
+    if (!isGroupAllowed(authInfo, match.group)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Permission denied: '${authInfo?.clientId}' is not allowed to read ${uri} (requires scope '${match.group}').`
+      );
+    }
+
+    return match;
+  };
+
+  // Read a resource, optionally from a named account via "?account=<name>"
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const match = resolveResource(uri, extra.authInfo);
+
+    let accountName: string | undefined;
+    try {
+      const selected = accounts.resolve(match.account);
+      accountName = selected.name;
+      const data = await match.read(selected.client, match.params, extra.signal);
+      return {
+        contents: [{
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(data, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, formatError(error, accounts.isMultiAccount ? accountName : undefined));
+    }
+  });
+
+  // Poll subscribed resources and tell the client when their watched fields change
+  const poller = new ResourcePoller(
+    (uri) => server.sendResourceUpdated({ uri }),
+    config.resources.pollInterval
+  );
+  server.onclose = () => poller.close();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const match = resolveResource(uri, extra.authInfo);
+
+    let accountName: string | undefined;
+    try {
+      const selected = accounts.resolve(match.account);
+      accountName = selected.name;
+      await poller.subscribe(uri, async () => {
+        const data = await match.read(selected.client, match.params);
+        return { fingerprint: JSON.stringify(match.watch(data)), final: match.isFinal(data) };
+      });
+      return {};
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, formatError(error, accounts.isMultiAccount ? accountName : undefined));
+    }
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    poller.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // ==================== Prompt Registration ====================
+
+  // Prompts are listed only when every tool group they use is available to the caller
+  server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => {
+    return { prompts: listPrompts(group => canReadGroup(extra.authInfo, group)) };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const groups = getPromptGroups(name);
+
+    if (!groups || !groups.every(group => isGroupEnabled(config, group))) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}. Use prompts/list to see available prompts.`);
+    }
+
+    const missing = groups.find(group => !isGroupAllowed(extra.authInfo, group));
+    if (missing) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Permission denied: '${extra.authInfo?.clientId}' is not allowed to use prompt ${name} (requires scope '${missing}').`
+      );
+    }
+
+    let accountName: string | undefined;
+    try {
+      const { account, ...promptArgs } = args || {};
+      const selected = accounts.resolve(AccountSelectionSchema.parse({ account }).account);
+      accountName = selected.name;
+      return await renderPrompt(selected.client, name, promptArgs);
+    } catch (error) {
+      const code = error instanceof ZodError ? ErrorCode.InvalidParams : ErrorCode.InternalError;
+      throw new McpError(code, formatError(error, accounts.isMultiAccount ? accountName : undefined));
+    }
+  });
+
+  // ==================== Argument Completion ====================
+
+  // Complete prompt and resource template arguments; unknown arguments get no suggestions
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    const { ref, argument, context } = request.params;
+    const source = getCompletionSource(ref, argument.name);
+    const noCompletions = { completion: { values: [], total: 0, hasMore: false } };
+
+    if (!source || !canReadGroup(extra.authInfo, getCompletionGroup(source))) {
+      return noCompletions;
+    }
+
+    try {
+      const selected = accounts.resolve(context?.arguments?.account || undefined);
+      return { completion: await complete(selected.client, source, argument.value, context?.arguments?.region) };
+    } catch (error) {
+      // Suggestions are best effort; a failed list call should not surface as an error
+      logger.debug(`Completion for ${argument.name} failed:`, error);
+      return noCompletions;
+    }
+  });
+
+  return server;
+}
 
 // ==================== Server Startup ====================
 
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error(`${SERVER_NAME} v${SERVER_VERSION} running on stdio`);
-  console.error('Ready to accept requests');
+  checkToolDefinitions();
+  const { config, command } = loadServerConfig();
+  setLogLevel(config.logging.level);
+
+  // verify-audit-log [file]: check the audit log instead of starting the server
+  if (command[0] === 'verify-audit-log') {
+    process.exit(runAuditVerification(command[1] ?? config.audit.file));
+  }
+  if (command.length > 0) {
+    console.error(`Error: Unknown command "${command[0]}". The only command is verify-audit-log [file].`);
+    process.exit(1);
+  }
+
+  const { name, version } = config.server;
+  const clientConfig: ClientConfig = {
+    baseUrl: config.api.baseUrl,
+    headers: config.api.headers,
+    maxConcurrent: config.api.maxConcurrent,
+    requestsPerSecond: config.api.requestsPerSecond,
+    burst: config.api.burst,
+    maxListItems: config.api.maxListItems,
+    cache: config.api.cache,
+    timeouts: config.api.timeouts,
+    circuitBreaker: config.api.circuitBreaker,
+    responseValidation: config.api.responseValidation,
+    retryConfig: config.api.retry,
+  };
+  const accounts = loadAccounts(config, clientConfig);
+  // Shared across HTTP sessions, as a client may reconnect between preview and confirmation
+  const confirmations = new ConfirmationStore(config.safety.confirmationTtl);
+  const policy = new PolicyEngine(config.policy);
+  const audit = config.audit.enabled ? new AuditLog(config.audit.file) : undefined;
+
+  const { type: transport, host, port, dnsRebindingProtection, allowedOrigins, sessionIdleTimeout } = config.transport;
+  if (transport === 'stdio') {
+    await createServer(config, accounts, confirmations, policy, audit).connect(new StdioServerTransport());
+    logger.info(`${name} v${version} running on stdio`);
+    logger.info('Ready to accept requests');
+    return;
+  }
+
+  let authenticator: Authenticator | undefined;
+  if (config.auth) {
+    authenticator = new Authenticator(config.auth);
+  } else if (!LOOPBACK_HOSTS.includes(host)) {
+    throw new Error(`Refusing to listen on ${host} without authentication. Provide --auth-config or BINARYLANE_MCP_AUTH_CONFIG.`);
+  } else if (!dnsRebindingProtection) {
+    throw new Error('Refusing to turn off transport.dnsRebindingProtection without authentication. Provide --auth-config or BINARYLANE_MCP_AUTH_CONFIG.');
+  } else {
+    logger.warn('Warning: HTTP transport running without authentication; any local process can call every tool.');
+  }
+
+  const stopHttpServer = await startHttpServer(() => createServer(config, accounts, confirmations, policy, audit), {
+    host,
+    port,
+    authenticate: authenticator && ((req) => authenticator.authenticate(req.headers)),
+    ...(dnsRebindingProtection && {
+      allowedHosts: config.transport.allowedHosts ?? [...new Set([...LOOPBACK_HOSTS, host])],
+      allowedOrigins,
+    }),
+    sessionIdleTimeout,
+  });
+  logger.info(`${name} v${version} listening on http://${host}:${port}`);
+  logger.info('  Streamable HTTP: /mcp');
+  logger.info('  Legacy SSE:      /sse (messages: /messages)');
+
+  // Close open sessions before exiting so clients see a clean disconnect
+  let shuttingDown = false;
+  const shutdown = (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`Received ${signal}, shutting down`);
+    stopHttpServer()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        logger.error('Error during shutdown:', error);
+        process.exit(1);
+      });
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
 }
 
 main().catch((error) => {
@@ -0,0 +1,29 @@
+/**
+ * Leveled logger for BinaryLane MCP Server
+ * Writes to stderr, since stdout carries the MCP protocol in stdio mode
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+let minimumLevel: LogLevel = 'info';
+
+/**
+ * Set the lowest level that is written; messages below it are dropped.
+ */
+export function setLogLevel(level: LogLevel): void {
+  minimumLevel = level;
+}
+
+function write(level: LogLevel, args: unknown[]): void {
+  if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimumLevel)) {
+    console.error(...args);
+  }
+}
+
+export const logger = {
+  debug: (...args: unknown[]) => write('debug', args),
+  info: (...args: unknown[]) => write('info', args),
+  warn: (...args: unknown[]) => write('warn', args),
+  error: (...args: unknown[]) => write('error', args),
+};
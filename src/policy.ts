@@ -0,0 +1,240 @@
+/**
+ * Protected-resource policy for BinaryLane MCP Server
+ * Denies, or asks for confirmation of, chosen operations on servers, domains and VPCs matched by ID, name or region
+ */
+
+import { z } from 'zod';
+
+import { BinaryLaneClient } from './api-client.js';
+import { ServerActionSchema } from './schemas.js';
+import { allTools } from './tools.js';
+
+// Operation matching every tool that makes changes
+export const ALL_CHANGES = '*';
+
+export const POLICY_RESOURCES = ['server', 'domain', 'vpc'] as const;
+
+export type PolicyResource = typeof POLICY_RESOURCES[number];
+
+// server_action is checked per action type, so rules can name action types as well as tools
+const SERVER_ACTION_TYPES = [...ServerActionSchema.innerType().optionsMap.keys()].map(String);
+
+// Arguments naming the resources a tool call acts on
+const TARGET_ARGUMENTS: Record<string, PolicyResource> = {
+  server_id: 'server',
+  target_server_id: 'server',
+  partner_server_id: 'server',
+  server_ids: 'server',
+  domain_name: 'domain',
+  vpc_id: 'vpc',
+};
+
+// ==================== Configuration ====================
+
+const OperationSchema = z.string()
+  .refine(
+    operation => operation === ALL_CHANGES || SERVER_ACTION_TYPES.includes(operation) || allTools.some(tool => tool.name === operation),
+    operation => ({ message: `Unknown operation "${operation}". Use a tool name, a server_action action type or "${ALL_CHANGES}"` })
+  );
+
+const PolicyRuleSchema = z.object({
+  name: z.string()
+    .min(1)
+    .describe('Rule name, shown in denial messages'),
+  resource: z.enum(POLICY_RESOURCES)
+    .describe('Kind of resource the rule protects'),
+  accounts: z.array(z.string().min(1))
+    .optional()
+    .describe('Accounts the rule applies to (default: all)'),
+  match: z.object({
+    ids: z.array(z.number().int().positive())
+      .optional()
+      .describe('Resource IDs'),
+    names: z.array(z.string().min(1))
+      .optional()
+      .describe('Name patterns, where * matches any characters and ? one character'),
+    regions: z.array(z.string().min(1))
+      .optional()
+      .describe('Region slugs (servers only)'),
+  }).strict()
+    .refine(match => match.ids || match.names || match.regions, 'Give at least one of ids, names or regions'),
+  deny: z.array(OperationSchema)
+    .default([])
+    .describe(`Operations refused outright: tool names, server_action action types, or "${ALL_CHANGES}" for every change`),
+  confirm: z.array(OperationSchema)
+    .default([])
+    .describe('Operations that need a preview and confirmation token first'),
+  reason: z.string()
+    .optional()
+    .describe('Explanation added to denial messages'),
+}).strict()
+  .refine(rule => rule.deny.length > 0 || rule.confirm.length > 0, 'Give at least one operation in deny or confirm')
+  .refine(rule => rule.resource === 'server' || !rule.match.regions, {
+    message: 'Only servers can be matched by region',
+    path: ['match', 'regions'],
+  })
+  .refine(rule => rule.resource !== 'domain' || !rule.match.ids, {
+    message: 'Domains are matched by name',
+    path: ['match', 'ids'],
+  });
+
+export const PolicyConfigSchema = z.object({
+  rules: z.array(PolicyRuleSchema).default([]),
+}).strict();
+
+export type PolicyConfig = z.infer<typeof PolicyConfigSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+
+// ==================== Evaluation ====================
+
+// A resource as far as rules can see it; name and region are looked up only when a rule needs them
+export interface PolicyTarget {
+  resource: PolicyResource;
+  id?: number;
+  name?: string;
+  region?: string;
+}
+
+export interface PolicyDecision {
+  effect: 'deny' | 'confirm';
+  rule: PolicyRule;
+  operation: string;
+  target: PolicyTarget;
+}
+
+/**
+ * Raised when a rule denies a tool call. Nothing has been sent to the API.
+ */
+export class PolicyDeniedError extends Error {
+  constructor(public decision: PolicyDecision) {
+    const { rule, operation, target } = decision;
+    super(`Denied by policy "${rule.name}": ${operation} is not allowed on ${describeTarget(target)}`
+      + (rule.reason ? `. ${rule.reason}` : ''));
+    this.name = 'PolicyDeniedError';
+    Object.setPrototypeOf(this, PolicyDeniedError.prototype);
+  }
+}
+
+export function describeTarget({ resource, id, name }: PolicyTarget): string {
+  const label = resource === 'vpc' ? 'VPC' : resource;
+  if (id !== undefined && name !== undefined) {
+    return `${label} ${id} (${name})`;
+  }
+  return `${label} ${id ?? name}`;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function ruleCovers(operations: string[], operation: string, readOnly: boolean): boolean {
+  return operations.includes(operation) || (!readOnly && operations.includes(ALL_CHANGES));
+}
+
+/**
+ * Evaluates tool calls against the configured rules before their handlers run.
+ */
+export class PolicyEngine {
+  private rules: PolicyRule[];
+
+  constructor(config: PolicyConfig = { rules: [] }) {
+    this.rules = config.rules;
+  }
+
+  /**
+   * Find the strictest rule covering a tool call: a denial beats a confirmation.
+   * @returns The decision, or undefined if no rule covers the call
+   * @throws {ApiError} If a resource's name or region cannot be looked up
+   */
+  async evaluate(
+    toolName: string,
+    args: Record<string, unknown>,
+    account: string,
+    client: BinaryLaneClient,
+    signal?: AbortSignal
+  ): Promise<PolicyDecision | undefined> {
+    const tool = allTools.find(t => t.name === toolName);
+    const readOnly = tool?.annotations?.readOnlyHint === true;
+    const operation = toolName === 'server_action' && typeof args.action_type === 'string' ? args.action_type : toolName;
+
+    const rules = this.rules.filter(rule => !rule.accounts || rule.accounts.includes(account));
+    const denying = rules.filter(rule => ruleCovers(rule.deny, operation, readOnly));
+    const confirming = rules.filter(rule => ruleCovers(rule.confirm, operation, readOnly));
+    if (denying.length === 0 && confirming.length === 0) {
+      return undefined;
+    }
+
+    const targets = targetsOf(args);
+    for (const [effect, candidates] of [['deny', denying], ['confirm', confirming]] as const) {
+      for (const rule of candidates) {
+        for (const target of targets.filter(t => t.resource === rule.resource)) {
+          if (await this.matches(rule, target, client, signal)) {
+            return { effect, rule, operation, target };
+          }
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async matches(rule: PolicyRule, target: PolicyTarget, client: BinaryLaneClient, signal?: AbortSignal): Promise<boolean> {
+    const { ids, names, regions } = rule.match;
+    if (ids && (target.id === undefined || !ids.includes(target.id))) {
+      return false;
+    }
+    if (names || regions) {
+      await lookUp(target, client, signal);
+    }
+    if (names && !names.some(pattern => target.name !== undefined && globToRegExp(pattern).test(target.name))) {
+      return false;
+    }
+    if (regions && (target.region === undefined || !regions.includes(target.region))) {
+      return false;
+    }
+    return true;
+  }
+}
+
+// Resources named by a call's arguments, deduplicated
+function targetsOf(args: Record<string, unknown>): PolicyTarget[] {
+  const targets = new Map<string, PolicyTarget>();
+  for (const [argument, resource] of Object.entries(TARGET_ARGUMENTS)) {
+    const values = Array.isArray(args[argument]) ? args[argument] as unknown[] : [args[argument]];
+    for (const value of values) {
+      if (typeof value === 'number') {
+        targets.set(`${resource}:${value}`, { resource, id: value });
+      } else if (typeof value === 'string' && value !== '') {
+        // Domains may be given by name or by numeric ID
+        const id = /^\d+$/.test(value) ? Number(value) : undefined;
+        targets.set(`${resource}:${value}`, id === undefined ? { resource, name: value } : { resource, id });
+      }
+    }
+  }
+  return [...targets.values()];
+}
+
+// Fill in a target's name and region once, from the (cached) API
+async function lookUp(target: PolicyTarget, client: BinaryLaneClient, signal?: AbortSignal): Promise<void> {
+  if (target.name !== undefined || target.id === undefined) {
+    return;
+  }
+  switch (target.resource) {
+    case 'server': {
+      const { server } = await client.getServer(target.id, { signal });
+      target.name = server.name;
+      target.region = server.region?.slug;
+      break;
+    }
+    case 'domain': {
+      const { domain } = await client.getDomain(target.id, { signal });
+      target.name = domain.name;
+      break;
+    }
+    case 'vpc': {
+      const { vpc } = await client.getVpc(target.id, { signal });
+      target.name = vpc.name;
+      break;
+    }
+  }
+}
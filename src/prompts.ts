@@ -0,0 +1,281 @@
+/**
+ * Prompt templates for BinaryLane MCP Server
+ * Operational playbooks built on the existing tools, rendered with live data from the account
+ */
+
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { BinaryLaneClient } from './api-client.js';
+
+interface PromptDefinition {
+  prompt: Prompt;
+  // Tool groups the playbook reads from and calls into; all must be available to the caller
+  groups: string[];
+  render: (client: BinaryLaneClient, args: Record<string, string>) => Promise<string>;
+}
+
+// Optional account selector accepted by every prompt, matching the tools' account argument
+const accountArgument = {
+  name: 'account',
+  description: 'Named account to use (see list_accounts). Defaults to the default account.',
+  required: false,
+};
+
+// Helper to create a prompt whose arguments are validated before rendering
+function definePrompt<T extends z.ZodRawShape>(
+  name: string,
+  description: string,
+  groups: string[],
+  argsSchema: z.ZodObject<T>,
+  render: (client: BinaryLaneClient, args: z.infer<z.ZodObject<T>>) => Promise<string>
+): PromptDefinition {
+  return {
+    prompt: {
+      name,
+      description,
+      arguments: [
+        ...Object.entries(argsSchema.shape).map(([argName, schema]) => ({
+          name: argName,
+          description: schema.description,
+          required: !schema.isOptional(),
+        })),
+        accountArgument,
+      ],
+    },
+    groups,
+    render: (client, args) => render(client, argsSchema.parse(args)),
+  };
+}
+
+// Render rows as a compact Markdown list, noting how many were left out
+function bulletList<T>(items: T[], format: (item: T) => string, limit = 30): string {
+  if (items.length === 0) {
+    return '- (none)';
+  }
+  const lines = items.slice(0, limit).map(item => `- ${format(item)}`);
+  if (items.length > limit) {
+    lines.push(`- ... and ${items.length - limit} more`);
+  }
+  return lines.join('\n');
+}
+
+// ==================== Prompt Definitions ====================
+
+const provisionWebServer = definePrompt(
+  'provision_web_server',
+  'Provision a web server: choose a region, size and image from what is currently available, then create the server with a safe firewall.',
+  ['regions', 'images', 'servers'],
+  z.object({
+    name: z.string().min(1).describe('Hostname for the new server (e.g., web1.example.com)'),
+    region: z.string().optional().describe('Preferred region slug (e.g., syd). Defaults to asking the user.'),
+    size: z.string().optional().describe('Preferred size slug (e.g., std-min). Defaults to the smallest available size.'),
+    image: z.string().optional().describe('Preferred image slug (e.g., ubuntu-24.04). Defaults to asking the user.'),
+  }),
+  async (client, { name, region, size, image }) => {
+    const [{ regions }, { sizes }, { images }] = await Promise.all([
+      client.listRegions(),
+      client.listSizes(),
+      client.listAllImages({ type: 'distribution' }),
+    ]);
+
+    const availableRegions = regions.filter(r => r.available);
+    const availableSizes = sizes
+      .filter(s => s.available && (!region || s.regions.includes(region)))
+      .sort((a, b) => a.price_monthly - b.price_monthly);
+    const distributions = images.filter(i => i.slug && (!region || i.regions.includes(region)));
+
+    return `Provision a new web server named "${name}" on BinaryLane.
+
+Available regions:
+${bulletList(availableRegions, r => `${r.slug}: ${r.name}`)}
+
+Available sizes${region ? ` in ${region}` : ''} (cheapest first):
+${bulletList(availableSizes, s => `${s.slug}: ${s.vcpus} vCPU, ${s.memory} MB RAM, ${s.disk} GB disk, $${s.price_monthly}/month`)}
+
+Distribution images${region ? ` in ${region}` : ''}:
+${bulletList(distributions, i => `${i.slug}: ${i.name}`)}
+
+Steps:
+1. Region: ${region ? `use "${region}"${availableRegions.some(r => r.slug === region) ? '' : ' (WARNING: not in the available list above; confirm with the user)'}` : 'ask the user which region to use, suggesting the one closest to their visitors'}.
+2. Size: ${size ? `use "${size}"` : `use "${availableSizes[0]?.slug ?? 'the smallest available size'}" unless the user needs more capacity`}. Call list_sizes with the chosen image if you need to confirm compatibility.
+3. Image: ${image ? `use "${image}"` : 'ask the user which distribution to use, suggesting the latest Ubuntu LTS'}.
+4. Call list_ssh_keys and include the user's keys via ssh_keys so password login is not needed.
+5. Call create_server with name "${name}" and the choices above. Note the returned server ID and action ID.
+6. Poll get_action (or subscribe to binarylane://actions/{id}) until the build completes.
+7. Configure the firewall with server_action action_type "change_advanced_firewall_rules": accept TCP 22, 80 and 443 and UDP 53 before any drop rule.
+8. Report the server's public IPv4 address from get_server.`;
+  }
+);
+
+const rotateSshKeys = definePrompt(
+  'rotate_ssh_keys',
+  'Rotate SSH keys across the fleet: register a replacement key, make it the default, and retire the old key from the account.',
+  ['ssh_keys', 'servers'],
+  z.object({
+    old_key: z.string().optional().describe('ID or name of the key being retired. Defaults to asking the user.'),
+    new_key_name: z.string().optional().describe('Name for the replacement key'),
+  }),
+  async (client, { old_key, new_key_name }) => {
+    const [{ ssh_keys }, { servers }] = await Promise.all([
+      client.listAllSshKeys(),
+      client.listAllServers(),
+    ]);
+
+    const oldKey = old_key ? ssh_keys.find(k => String(k.id) === old_key || k.name === old_key) : undefined;
+
+    return `Rotate SSH keys across the BinaryLane fleet.
+
+SSH keys on the account:
+${bulletList(ssh_keys, k => `${k.id}: ${k.name} (${k.fingerprint})${k.default ? ' [default]' : ''}`)}
+
+Servers:
+${bulletList(servers, s => `${s.id}: ${s.name} (${s.status}, ${s.networks.v4.find(n => n.type === 'public')?.ip_address ?? 'no public IPv4'})`, 100)}
+
+Key being retired: ${oldKey ? `${oldKey.id} (${oldKey.name})` : old_key ? `"${old_key}" (WARNING: no key with this ID or name exists)` : 'ask the user which key to retire'}.
+
+Steps:
+1. Ask the user for the new public key. Never ask for or handle private keys.
+2. Call create_ssh_key with the public key${new_key_name ? ` and name "${new_key_name}"` : ''}, and set it as the default so new servers receive it.
+3. Account keys are only injected when a server is created or rebuilt. For each running server above, the user must add the new key to ~/.ssh/authorized_keys (over SSH with the old key, or via get_server_console) and remove the old one. Track which servers are done.
+4. Once every server has been updated and the user has confirmed they can log in with the new key, call delete_ssh_key for the retired key.
+5. Summarize which servers were updated and any that still need attention.`;
+  }
+);
+
+const auditDns = definePrompt(
+  'audit_dns',
+  'Audit DNS for a domain: check nameservers, look for records pointing at addresses no server owns, and flag missing or risky records.',
+  ['domains', 'servers'],
+  z.object({
+    domain: z.string().min(1).describe('Domain name to audit (e.g., example.com)'),
+  }),
+  async (client, { domain: domainName }) => {
+    const [{ domain }, { domain_records }, { servers }] = await Promise.all([
+      client.getDomain(domainName),
+      client.listAllDomainRecords(domainName),
+      client.listAllServers(),
+    ]);
+
+    const serverAddresses = new Map<string, string>();
+    for (const server of servers) {
+      for (const network of [...server.networks.v4, ...server.networks.v6]) {
+        serverAddresses.set(network.ip_address, server.name);
+      }
+    }
+
+    const addressRecords = domain_records.filter(r => r.type === 'A' || r.type === 'AAAA');
+    const unknownTargets = addressRecords.filter(r => !serverAddresses.has(r.data));
+
+    return `Audit the DNS configuration of ${domain.name}.
+
+Current nameservers: ${domain.current_nameservers?.join(', ') || 'unknown'}
+
+Records:
+${bulletList(domain_records, r => `${r.id}: ${r.type} ${r.name} -> ${r.data} (TTL ${r.ttl}${r.priority !== undefined ? `, priority ${r.priority}` : ''})`, 200)}
+
+A/AAAA records pointing at addresses not owned by any server in this account:
+${bulletList(unknownTargets, r => `${r.type} ${r.name} -> ${r.data}`)}
+
+Check and report on:
+1. Nameservers: whether the domain is delegated to BinaryLane (compare with list_nameservers). If not, records here are not being served.
+2. Dangling records: the records listed above may point at released addresses and could be taken over. Confirm each with the user.
+3. Mail: presence of MX, SPF (TXT "v=spf1"), DMARC (TXT at _dmarc) and, where mail is sent, DKIM records.
+4. CAA records restricting which certificate authorities may issue for the domain.
+5. TTLs that are unusually low (under 300) or high (over 86400).
+6. Duplicate or conflicting records (e.g., a CNAME alongside other records with the same name).
+
+Do not change any records. Finish with a prioritized list of recommended fixes; the user can apply them with update_domain_record, create_domain_record or delete_domain_record.`;
+  }
+);
+
+const investigateThresholdAlerts = definePrompt(
+  'investigate_threshold_alerts',
+  'Investigate servers exceeding their threshold alerts: gather metrics, identify the cause and recommend a fix.',
+  ['servers'],
+  z.object({
+    server_id: z.string().regex(/^\d+$/, 'server_id must be a numeric server ID').optional()
+      .describe('Focus on one server. Defaults to every server with an exceeded alert.'),
+  }),
+  async (client, { server_id }) => {
+    const { current_server_alerts } = await client.listExceededThresholdAlerts();
+    const alerts = server_id
+      ? current_server_alerts.filter(a => a.server_id === Number(server_id))
+      : current_server_alerts;
+
+    let serverDetails = '';
+    if (server_id) {
+      const [{ server }, { threshold_alerts }] = await Promise.all([
+        client.getServer(Number(server_id)),
+        client.getServerThresholdAlerts(Number(server_id)),
+      ]);
+      serverDetails = `
+Server ${server.id}: ${server.name} (${server.status}, ${server.size_slug}, ${server.vcpus} vCPU, ${server.memory} MB RAM, ${server.disk} GB disk)
+
+Configured thresholds:
+${bulletList(threshold_alerts, t => `${t.alert_type}: ${t.value}${t.enabled ? '' : ' (disabled)'}`)}
+`;
+    }
+
+    return `Investigate BinaryLane servers exceeding their threshold alerts.
+${serverDetails}
+Exceeded alerts:
+${bulletList(alerts, a => `server ${a.server_id}: ${a.alert_type} is ${a.current_value} (threshold ${a.value})`, 100)}
+
+For each affected server:
+1. Call get_server_latest_metrics and get_server_metrics to see whether the alert is a spike or a sustained trend.
+2. For data transfer alerts, call get_data_usage to compare usage with the plan allowance.
+3. Call list_server_actions to check for recent changes (resizes, rebuilds, restores) that line up with the alert.
+4. Identify the most likely cause and recommend a fix: a larger size via server_action action_type "resize", application-level changes, or adjusted thresholds via action_type "change_threshold_alerts" if the current values are too tight.
+
+Do not resize servers or change thresholds without the user's confirmation. Summarize findings per server, most severe first.`;
+  }
+);
+
+// ==================== All Prompts ====================
+
+const promptDefinitions: PromptDefinition[] = [
+  provisionWebServer,
+  rotateSshKeys,
+  auditDns,
+  investigateThresholdAlerts,
+];
+
+const promptsByName = new Map(promptDefinitions.map(definition => [definition.prompt.name, definition]));
+
+/**
+ * List prompts whose tool groups all pass the given check.
+ */
+export function listPrompts(isGroupAvailable: (group: string) => boolean): Prompt[] {
+  return promptDefinitions
+    .filter(definition => definition.groups.every(isGroupAvailable))
+    .map(definition => definition.prompt);
+}
+
+/**
+ * Get the tool groups a prompt needs, or undefined if no prompt has that name.
+ */
+export function getPromptGroups(name: string): string[] | undefined {
+  return promptsByName.get(name)?.groups;
+}
+
+/**
+ * Render a prompt with live data from the account.
+ * @throws {ZodError} If the arguments are invalid
+ * @throws {ApiError} If fetching live data fails
+ */
+export async function renderPrompt(
+  client: BinaryLaneClient,
+  name: string,
+  args: Record<string, string>
+): Promise<GetPromptResult> {
+  const definition = promptsByName.get(name);
+  if (!definition) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  const text = await definition.render(client, args);
+  return {
+    description: definition.prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
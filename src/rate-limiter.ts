@@ -0,0 +1,217 @@
+/**
+ * Rate limiting for BinaryLane MCP Server
+ * Token bucket plus concurrency limit, served in priority order and tuned by the API's rate-limit headers
+ */
+
+// Served in this order: changes first, then single reads, then paginated bulk reads
+export const REQUEST_PRIORITIES = ['write', 'read', 'bulk'] as const;
+
+export type RequestPriority = typeof REQUEST_PRIORITIES[number];
+
+export interface RateLimiterConfig {
+  maxConcurrent?: number;     // default: 5
+  requestsPerSecond?: number; // default: 10, the most the limiter will allow even if headers suggest more
+  burst?: number;             // default: 2x requestsPerSecond, tokens that can build up while idle
+}
+
+export interface RateLimiterStats {
+  requests_per_second: number;
+  tokens: number;
+  active: number;
+  // When requests resume after the API reported the limit exhausted
+  paused_until?: string;
+  queues: Record<RequestPriority, { queued: number; granted: number; average_wait_ms: number; max_wait_ms: number }>;
+}
+
+interface Waiter {
+  needsSlot: boolean;
+  enqueued: number;
+  grant: () => void;
+}
+
+// Read a numeric header, trying each name in turn
+function numericHeader(headers: Headers, names: string[]): number | undefined {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null && value.trim() !== '' && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Hands out permission to send requests: one token per attempt, refilled at requestsPerSecond,
+ * and one of maxConcurrent slots per request. Waiters are served highest priority first.
+ */
+export class RateLimiter {
+  private maxRate: number;
+  private rate: number;
+  private capacity: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private maxConcurrent: number;
+  private active = 0;
+  private queues: Record<RequestPriority, Waiter[]> = { write: [], read: [], bulk: [] };
+  private waits: Record<RequestPriority, { granted: number; totalMs: number; maxMs: number }> = {
+    write: { granted: 0, totalMs: 0, maxMs: 0 },
+    read: { granted: 0, totalMs: 0, maxMs: 0 },
+    bulk: { granted: 0, totalMs: 0, maxMs: 0 },
+  };
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(config: RateLimiterConfig = {}) {
+    this.maxConcurrent = config.maxConcurrent ?? 5;
+    this.maxRate = config.requestsPerSecond ?? 10;
+    this.rate = this.maxRate;
+    this.capacity = config.burst ?? this.maxRate * 2;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Wait for a token, and a concurrency slot unless the caller already holds one (e.g., when retrying).
+   * @param cancelled Builds the error to reject with if the signal is aborted while waiting
+   */
+  acquire(
+    priority: RequestPriority,
+    signal: AbortSignal | undefined,
+    cancelled: () => Error,
+    holdsSlot = false
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(cancelled());
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        needsSlot: !holdsSlot,
+        enqueued: Date.now(),
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      // A cancelled request leaves the queue without taking a token or slot
+      const onAbort = () => {
+        const queue = this.queues[priority];
+        queue.splice(queue.indexOf(waiter), 1);
+        reject(cancelled());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queues[priority].push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Free the concurrency slot taken by acquire().
+   */
+  release(): void {
+    this.active--;
+    this.pump();
+  }
+
+  /**
+   * Adjust the budget from a response's rate-limit headers.
+   * Spreads the remaining requests over the time until the window resets, and pauses
+   * entirely when the API reports the limit exhausted or answers 429 with Retry-After.
+   */
+  update(response: Response): void {
+    const now = Date.now();
+    const remaining = numericHeader(response.headers, ['RateLimit-Remaining', 'X-RateLimit-Remaining']);
+    let reset = numericHeader(response.headers, ['RateLimit-Reset', 'X-RateLimit-Reset']);
+    // Reset may be an epoch timestamp or a number of seconds from now
+    if (reset !== undefined && reset > 1e9) {
+      reset = Math.max(reset - now / 1000, 0);
+    }
+
+    if (response.status === 429) {
+      const retryAfter = numericHeader(response.headers, ['Retry-After']) ?? reset ?? 1;
+      this.pause(now + retryAfter * 1000);
+    } else if (remaining !== undefined && reset !== undefined) {
+      if (remaining <= 0) {
+        this.pause(now + reset * 1000);
+      }
+      this.refill(now);
+      this.rate = Math.min(this.maxRate, Math.max(remaining / Math.max(reset, 1), 0.1));
+      this.tokens = Math.min(this.tokens, remaining);
+    } else {
+      this.rate = this.maxRate;
+    }
+    this.pump();
+  }
+
+  stats(): RateLimiterStats {
+    this.refill(Date.now());
+    const queues = Object.fromEntries(REQUEST_PRIORITIES.map(priority => {
+      const { granted, totalMs, maxMs } = this.waits[priority];
+      return [priority, {
+        queued: this.queues[priority].length,
+        granted,
+        average_wait_ms: granted > 0 ? Math.round(totalMs / granted) : 0,
+        max_wait_ms: maxMs,
+      }];
+    })) as RateLimiterStats['queues'];
+
+    return {
+      requests_per_second: Math.round(this.rate * 100) / 100,
+      tokens: Math.floor(this.tokens),
+      active: this.active,
+      ...(this.pausedUntil > Date.now() && { paused_until: new Date(this.pausedUntil).toISOString() }),
+      queues,
+    };
+  }
+
+  private pause(until: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+    this.tokens = 0;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  // Grant waiters in priority order while tokens and slots last, then schedule the next try
+  private pump(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const now = Date.now();
+    this.refill(now);
+
+    for (const priority of REQUEST_PRIORITIES) {
+      const queue = this.queues[priority];
+      for (let i = 0; i < queue.length;) {
+        if (now < this.pausedUntil || this.tokens < 1) {
+          return this.schedule(now);
+        }
+        const waiter = queue[i];
+        // Retries already hold a slot, so they can go ahead when every slot is busy
+        if (waiter.needsSlot && this.active >= this.maxConcurrent) {
+          i++;
+          continue;
+        }
+        queue.splice(i, 1);
+        this.tokens -= 1;
+        if (waiter.needsSlot) {
+          this.active++;
+        }
+        const wait = this.waits[priority];
+        const waited = now - waiter.enqueued;
+        wait.granted++;
+        wait.totalMs += waited;
+        wait.maxMs = Math.max(wait.maxMs, waited);
+        waiter.grant();
+      }
+    }
+  }
+
+  // Wake up when the next token is due or the pause ends; release() covers waiters blocked on slots
+  private schedule(now: number): void {
+    const untilToken = this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.rate) * 1000;
+    const delay = Math.max(this.pausedUntil - now, untilToken, 1);
+    this.timer = setTimeout(() => this.pump(), delay);
+  }
+}
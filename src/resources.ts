@@ -0,0 +1,194 @@
+/**
+ * Resource definitions for BinaryLane MCP Server
+ * Exposes servers, actions, DNS zones, VPCs, load balancers and the account as readable MCP resources
+ */
+
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+import { BinaryLaneClient } from './api-client.js';
+
+export const RESOURCE_SCHEME = 'binarylane';
+
+const JSON_MIME_TYPE = 'application/json';
+
+interface ResourceDefinition {
+  template: ResourceTemplate;
+  // Tool group whose scope grants access to this resource
+  group: string;
+  // Matches the URI after "binarylane://", capturing template variables in order
+  pattern: RegExp;
+  read: (client: BinaryLaneClient, params: string[], signal?: AbortSignal) => Promise<unknown>;
+  // Fields that trigger an update notification for subscribers when they change (default: everything)
+  watch?: (data: unknown) => unknown;
+  // Whether the resource has reached a state it will not leave, so polling can stop
+  isFinal?: (data: unknown) => boolean;
+}
+
+// Helper to create a resource template with its reader
+function defineResource<T>(
+  uriTemplate: string,
+  name: string,
+  description: string,
+  group: string,
+  read: (client: BinaryLaneClient, params: string[], signal?: AbortSignal) => Promise<T>,
+  options: { watch?: (data: T) => unknown; isFinal?: (data: T) => boolean } = {}
+): ResourceDefinition {
+  // Turn "servers/{id}" into /^servers\/([^/]+)$/
+  const source = uriTemplate
+    .slice(`${RESOURCE_SCHEME}://`.length)
+    .split(/\{[^}]+\}/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+    .join('([^/]+)');
+  return {
+    template: { uriTemplate, name, description, mimeType: JSON_MIME_TYPE },
+    group,
+    pattern: new RegExp(`^${source}$`),
+    read,
+    watch: options.watch as ResourceDefinition['watch'],
+    isFinal: options.isFinal as ResourceDefinition['isFinal'],
+  };
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(`Invalid ID "${value}": expected a positive integer`);
+  }
+  return id;
+}
+
+// ==================== Resource Definitions ====================
+
+const resourceDefinitions: ResourceDefinition[] = [
+  defineResource(
+    `${RESOURCE_SCHEME}://account`,
+    'account',
+    'Account details for the authenticated user: email, verification status and server limits.',
+    'account',
+    async (client, _params, signal) => (await client.getAccount({ signal })).account
+  ),
+  defineResource(
+    `${RESOURCE_SCHEME}://servers/{id}`,
+    'server',
+    'A server: status, size, region, image, networks, backups and attached features.',
+    'servers',
+    async (client, [id], signal) => (await client.getServer(parseId(id), { signal })).server,
+    { watch: server => [server.status, server.networks, server.disks] }
+  ),
+  defineResource(
+    `${RESOURCE_SCHEME}://actions/{id}`,
+    'action',
+    'An action: type, status, progress and result. Subscribers are notified when it completes.',
+    'actions',
+    async (client, [id], signal) => (await client.getAction(parseId(id), { signal })).action,
+    {
+      watch: action => [action.status, action.completed_at],
+      isFinal: action => action.status !== 'in-progress',
+    }
+  ),
+  defineResource(
+    `${RESOURCE_SCHEME}://domains/{name}/zone`,
+    'domain-zone',
+    'A DNS zone: the domain, its current nameservers and zone file.',
+    'domains',
+    async (client, [name], signal) => (await client.getDomain(decodeURIComponent(name), { signal })).domain
+  ),
+  defineResource(
+    `${RESOURCE_SCHEME}://vpcs/{id}`,
+    'vpc',
+    'A Virtual Private Cloud: IP range and route entries.',
+    'vpcs',
+    async (client, [id], signal) => (await client.getVpc(parseId(id), { signal })).vpc
+  ),
+  defineResource(
+    `${RESOURCE_SCHEME}://load-balancers/{id}`,
+    'load-balancer',
+    'A load balancer: status, algorithm, forwarding rules, health check and attached servers.',
+    'load_balancers',
+    async (client, [id], signal) => (await client.getLoadBalancer(parseId(id), { signal })).load_balancer
+  ),
+];
+
+export const resourceTemplates: ResourceTemplate[] = resourceDefinitions
+  .filter(definition => definition.template.uriTemplate.includes('{'))
+  .map(definition => definition.template);
+
+// ==================== Resource Access ====================
+
+/**
+ * Resolved resource URI: the definition it matches, its template variables and the
+ * account named by an optional "?account=" query parameter.
+ */
+export interface ResourceMatch {
+  group: string;
+  params: string[];
+  account?: string;
+  read: ResourceDefinition['read'];
+  watch: (data: unknown) => unknown;
+  isFinal: (data: unknown) => boolean;
+}
+
+/**
+ * Match a resource URI against the known templates.
+ * @returns The match, or undefined if the URI does not name a BinaryLane resource
+ */
+export function matchResource(uri: string): ResourceMatch | undefined {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== `${RESOURCE_SCHEME}:`) {
+    return undefined;
+  }
+
+  const path = `${url.host}${url.pathname}`.replace(/\/+$/, '');
+  for (const definition of resourceDefinitions) {
+    const match = definition.pattern.exec(path);
+    if (match) {
+      return {
+        group: definition.group,
+        params: match.slice(1),
+        account: url.searchParams.get('account') ?? undefined,
+        read: definition.read,
+        watch: definition.watch ?? (data => data),
+        isFinal: definition.isFinal ?? (() => false),
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * List concrete resources for an account: the account itself plus every server,
+ * domain, VPC and load balancer, limited to the given tool groups.
+ */
+export async function listResources(
+  client: BinaryLaneClient,
+  isGroupAllowed: (group: string) => boolean
+): Promise<Resource[]> {
+  const resource = (uri: string, name: string, title: string): Resource => ({
+    uri: `${RESOURCE_SCHEME}://${uri}`,
+    name,
+    title,
+    mimeType: JSON_MIME_TYPE,
+  });
+
+  const [servers, domains, vpcs, loadBalancers] = await Promise.all([
+    isGroupAllowed('servers') ? client.listAllServers() : undefined,
+    isGroupAllowed('domains') ? client.listAllDomains() : undefined,
+    isGroupAllowed('vpcs') ? client.listAllVpcs() : undefined,
+    isGroupAllowed('load_balancers') ? client.listAllLoadBalancers() : undefined,
+  ]);
+
+  return [
+    ...(isGroupAllowed('account') ? [resource('account', 'account', 'BinaryLane account')] : []),
+    ...(servers?.servers ?? []).map(s => resource(`servers/${s.id}`, `server-${s.id}`, `Server ${s.name}`)),
+    ...(domains?.domains ?? []).map(d =>
+      resource(`domains/${encodeURIComponent(d.name)}/zone`, `domain-${d.name}`, `DNS zone ${d.name}`)),
+    ...(vpcs?.vpcs ?? []).map(v => resource(`vpcs/${v.id}`, `vpc-${v.id}`, `VPC ${v.name}`)),
+    ...(loadBalancers?.load_balancers ?? []).map(lb =>
+      resource(`load-balancers/${lb.id}`, `load-balancer-${lb.id}`, `Load balancer ${lb.name}`)),
+  ];
+}
@@ -0,0 +1,546 @@
+/**
+ * Response validation for BinaryLane MCP Server
+ * Zod schemas mirroring the API client's response types, so changes in the API's response shapes are caught early
+ */
+
+import { z } from 'zod';
+
+export const RESPONSE_VALIDATION_MODES = ['off', 'warn', 'strict'] as const;
+
+export type ResponseValidationMode = typeof RESPONSE_VALIDATION_MODES[number];
+
+export interface ResponseIssue {
+  path: string;     // e.g. 'servers[0].networks.v4'
+  message: string;
+}
+
+/**
+ * Raised in strict mode when a response does not match the shape the client expects.
+ */
+export class ResponseValidationError extends Error {
+  constructor(
+    public method: string,
+    public path: string,
+    public issues: ResponseIssue[]
+  ) {
+    super(`Unexpected response from ${method} ${path}: ${describeIssues(issues)}`);
+    this.name = 'ResponseValidationError';
+    Object.setPrototypeOf(this, ResponseValidationError.prototype);
+  }
+}
+
+// Issues listed in a message before the rest are summarised as a count
+const MAX_LISTED_ISSUES = 5;
+
+export function describeIssues(issues: ResponseIssue[]): string {
+  const listed = issues.slice(0, MAX_LISTED_ISSUES).map(issue => `${issue.path || '(root)'}: ${issue.message}`);
+  if (issues.length > MAX_LISTED_ISSUES) {
+    listed.push(`and ${issues.length - MAX_LISTED_ISSUES} more`);
+  }
+  return listed.join('; ');
+}
+
+// Render a zod issue path as a property path, e.g. ['servers', 0, 'region'] -> 'servers[0].region'
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (result, part) => typeof part === 'number' ? `${result}[${part}]` : result ? `${result}.${part}` : part,
+    ''
+  );
+}
+
+/**
+ * Check a response against the schema for the client method that requested it.
+ * @returns The mismatches found, empty if the response matches or the method has no schema
+ */
+export function validateResponse(operation: string | undefined, data: unknown): ResponseIssue[] {
+  const schema = operation ? RESPONSE_SCHEMAS[operation] : undefined;
+  if (!schema) {
+    return [];
+  }
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+}
+
+// ==================== Type Schemas ====================
+// Optional properties of the interfaces in api-client.ts are also allowed to be null, as the
+// API sends null for unset values. Properties the interfaces do not declare are ignored.
+
+const AccountSchema = z.object({
+  email: z.string(),
+  email_verified: z.boolean(),
+  server_limit: z.number(),
+  status: z.string(),
+});
+
+const BalanceSchema = z.object({
+  account_balance: z.string(),
+  month_to_date_usage: z.string(),
+  month_to_date_balance: z.string(),
+});
+
+const InvoiceSchema = z.object({
+  invoice_id: z.number(),
+  invoice_number: z.string(),
+  amount: z.string(),
+  tax_code: z.string(),
+  created: z.string(),
+  date_due: z.string().nullish(),
+  date_overdue: z.string().nullish(),
+  paid: z.boolean(),
+  refunded: z.boolean(),
+  invoice_download_url: z.string().nullish(),
+  tax_invoice_download_url: z.string().nullish(),
+});
+
+const RegionSchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  sizes: z.array(z.string()),
+  available: z.boolean(),
+  features: z.array(z.string()),
+  name_servers: z.array(z.string()).nullish(),
+});
+
+const ImageSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.string(),
+  distribution: z.string().nullish(),
+  slug: z.string().nullish(),
+  public: z.boolean(),
+  regions: z.array(z.string()),
+  min_disk_size: z.number().nullish(),
+  size_gigabytes: z.number().nullish(),
+  created_at: z.string(),
+  description: z.string().nullish(),
+  status: z.string(),
+  error_message: z.string().nullish(),
+  backup_type: z.string().nullish(),
+});
+
+const SizeOptionsSchema = z.object({
+  ipv4_addresses: z.number().nullish(),
+  memory: z.number().nullish(),
+  disk: z.number().nullish(),
+  transfer: z.number().nullish(),
+  offsite_backup_copies: z.number().nullish(),
+});
+
+const SizeSchema = z.object({
+  slug: z.string(),
+  available: z.boolean(),
+  regions: z.array(z.string()),
+  price_monthly: z.number(),
+  price_hourly: z.number(),
+  disk: z.number(),
+  memory: z.number(),
+  transfer: z.number(),
+  vcpus: z.number(),
+  vcpu_units: z.string(),
+  options: SizeOptionsSchema.nullish(),
+  description: z.string().nullish(),
+  cpu_description: z.string().nullish(),
+  storage_description: z.string().nullish(),
+  exceeds_original_regions: z.boolean().nullish(),
+});
+
+const NetworksSchema = z.object({
+  v4: z.array(z.object({
+    ip_address: z.string(),
+    netmask: z.string(),
+    gateway: z.string(),
+    type: z.string(),
+    reverse_name: z.string().nullish(),
+  })),
+  v6: z.array(z.object({
+    ip_address: z.string(),
+    netmask: z.number(),
+    gateway: z.string(),
+    type: z.string(),
+    reverse_name: z.string().nullish(),
+  })),
+});
+
+const ServerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  memory: z.number(),
+  vcpus: z.number(),
+  disk: z.number(),
+  created_at: z.string(),
+  status: z.string(),
+  backup_ids: z.array(z.number()),
+  features: z.array(z.string()),
+  region: RegionSchema,
+  image: ImageSchema,
+  size: SizeSchema,
+  size_slug: z.string(),
+  networks: NetworksSchema,
+  vpc_id: z.number().nullish(),
+  next_backup_window: z.object({
+    start: z.string(),
+    end: z.string(),
+  }).nullish(),
+  password_change_supported: z.boolean(),
+  selected_size_options: SizeOptionsSchema.nullish(),
+  partner_id: z.number().nullish(),
+  failover_ips: z.array(z.string()).nullish(),
+  host: z.object({
+    display_name: z.string().nullish(),
+  }).nullish(),
+  disks: z.array(z.object({
+    id: z.number(),
+    size_gigabytes: z.number(),
+    description: z.string().nullish(),
+    primary: z.boolean(),
+  })).nullish(),
+  cancelled_at: z.string().nullish(),
+});
+
+const ActionSchema = z.object({
+  id: z.number(),
+  status: z.string(),
+  type: z.string(),
+  started_at: z.string(),
+  completed_at: z.string().nullish(),
+  resource_id: z.number().nullish(),
+  resource_type: z.string().nullish(),
+  region: RegionSchema.nullish(),
+  region_slug: z.string().nullish(),
+  result_data: z.string().nullish(),
+  blocking_invoice_id: z.number().nullish(),
+  user_interaction_required: z.object({
+    interaction_type: z.string(),
+  }).nullish(),
+  progress: z.object({
+    current_step: z.string().nullish(),
+    percent_complete: z.number().nullish(),
+  }).nullish(),
+});
+
+const ActionLinkSchema = z.object({
+  id: z.number(),
+  rel: z.string(),
+  href: z.string(),
+});
+
+const BackupSchema = z.object({
+  id: z.number(),
+  server_id: z.number(),
+  name: z.string().nullish(),
+  slug: z.string().nullish(),
+  created_at: z.string(),
+  type: z.string(),
+  regions: z.array(z.string()),
+  min_disk_size: z.number(),
+  size_gigabytes: z.number(),
+  status: z.string(),
+  backup_type: z.string().nullish(),
+  description: z.string().nullish(),
+  offsite_backup_regions: z.array(z.object({
+    region_slug: z.string(),
+    destination: z.string().nullish(),
+    status: z.string().nullish(),
+  })).nullish(),
+});
+
+const AdvancedFirewallRuleSchema = z.object({
+  source_addresses: z.array(z.string()),
+  destination_addresses: z.array(z.string()),
+  destination_ports: z.array(z.string()).nullish(),
+  protocol: z.string(),
+  action: z.string(),
+  description: z.string().nullish(),
+});
+
+const ConsoleInfoSchema = z.object({
+  vnc_url: z.string().nullish(),
+  web_vnc_url: z.string().nullish(),
+});
+
+const DataUsageSchema = z.object({
+  server_id: z.number(),
+  expires: z.string(),
+  transfer_gigabytes: z.number(),
+  current_transfer_usage_gigabytes: z.number(),
+  transfer_period_end: z.string(),
+});
+
+const SshKeySchema = z.object({
+  id: z.number(),
+  fingerprint: z.string(),
+  public_key: z.string(),
+  name: z.string(),
+  default: z.boolean(),
+});
+
+const DomainSchema = z.object({
+  name: z.string(),
+  current_nameservers: z.array(z.string()).nullish(),
+  zone_file: z.string().nullish(),
+});
+
+const DomainRecordSchema = z.object({
+  id: z.number(),
+  type: z.string(),
+  name: z.string(),
+  data: z.string(),
+  priority: z.number().nullish(),
+  port: z.number().nullish(),
+  ttl: z.number(),
+  weight: z.number().nullish(),
+  flags: z.number().nullish(),
+  tag: z.string().nullish(),
+});
+
+const VpcSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  ip_range: z.string(),
+  route_entries: z.array(z.object({
+    router: z.string(),
+    destination: z.string(),
+    description: z.string().nullish(),
+  })),
+});
+
+const VpcMemberSchema = z.object({
+  name: z.string(),
+  resource_type: z.string(),
+  resource_id: z.number(),
+  created_at: z.string(),
+});
+
+const LoadBalancerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  ip: z.string(),
+  status: z.string(),
+  created_at: z.string(),
+  region: RegionSchema,
+  size_slug: z.string().nullish(),
+  algorithm: z.string().nullish(),
+  forwarding_rules: z.array(z.object({
+    entry_protocol: z.string(),
+    entry_port: z.number(),
+    target_protocol: z.string(),
+    target_port: z.number(),
+    certificate_id: z.string().nullish(),
+    tls_passthrough: z.boolean().nullish(),
+  })),
+  health_check: z.object({
+    protocol: z.string(),
+    port: z.number(),
+    path: z.string().nullish(),
+    hostname: z.string().nullish(),
+    check_interval_seconds: z.number().nullish(),
+    response_timeout_seconds: z.number().nullish(),
+    unhealthy_threshold: z.number().nullish(),
+    healthy_threshold: z.number().nullish(),
+  }).nullish(),
+  sticky_sessions: z.object({
+    type: z.string().nullish(),
+    cookie_name: z.string().nullish(),
+    cookie_ttl_seconds: z.number().nullish(),
+  }).nullish(),
+  server_ids: z.array(z.number()),
+});
+
+const LoadBalancerAvailabilitySchema = z.object({
+  region_slug: z.string(),
+  options: z.array(z.object({
+    size_slug: z.string(),
+    price_monthly: z.number(),
+    price_hourly: z.number(),
+  })),
+});
+
+const SoftwareSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullish(),
+  cost_per_licence_per_month: z.number(),
+  minimum_licence_count: z.number(),
+  maximum_licence_count: z.number(),
+  licence_step_count: z.number(),
+  supported_operating_systems: z.array(z.string()).nullish(),
+  group: z.string().nullish(),
+});
+
+const KernelSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  version: z.string(),
+});
+
+const AdvancedServerFeatureSchema = z.object({
+  feature: z.string(),
+  enabled: z.boolean(),
+  description: z.string().nullish(),
+});
+
+const ThresholdAlertSchema = z.object({
+  alert_type: z.string(),
+  value: z.number(),
+  current_value: z.number().nullish(),
+  enabled: z.boolean(),
+});
+
+const CurrentServerAlertSchema = z.object({
+  server_id: z.number(),
+  alert_type: z.string(),
+  value: z.number(),
+  current_value: z.number(),
+});
+
+const LicensedSoftwareSchema = z.object({
+  software_id: z.number(),
+  name: z.string(),
+  licence_count: z.number(),
+});
+
+const SampleDataSchema = z.object({
+  cpu: z.number(),
+  storage_requests: z.number(),
+  network_incoming: z.number(),
+  network_outgoing: z.number(),
+  disk_read: z.number(),
+  disk_write: z.number(),
+  memory_used: z.number().nullish(),
+  memory_cached: z.number().nullish(),
+  timestamp: z.string().nullish(),
+});
+
+const SampleSetSchema = z.object({
+  period_start: z.string(),
+  period_end: z.string(),
+  average: SampleDataSchema.nullish(),
+  maximum: SampleDataSchema.nullish(),
+  data: z.array(SampleDataSchema).nullish(),
+});
+
+const NameserverSchema = z.object({
+  name: z.string(),
+  ip_addresses: z.array(z.string()),
+});
+
+const ReverseNameSchema = z.object({
+  ip_address: z.string(),
+  reverse_name: z.string(),
+  server_id: z.number().nullish(),
+});
+
+// ==================== Response Schemas ====================
+
+const LinksSchema = z.object({
+  pages: z.object({
+    first: z.string().nullish(),
+    prev: z.string().nullish(),
+    next: z.string().nullish(),
+    last: z.string().nullish(),
+  }).nullish(),
+});
+
+const MetaSchema = z.object({
+  total: z.number().nullish(),
+});
+
+// One page of a list response, with its items under `key`
+function page<K extends string>(key: K, item: z.ZodTypeAny) {
+  return z.object({
+    [key]: z.array(item),
+    links: LinksSchema.nullish(),
+    meta: MetaSchema.nullish(),
+  } as Record<K | 'links' | 'meta', z.ZodTypeAny>);
+}
+
+// A response holding a single object or list under `key`
+function wrapped<K extends string>(key: K, value: z.ZodTypeAny) {
+  return z.object({ [key]: value } as Record<K, z.ZodTypeAny>);
+}
+
+// Expected response shape per client method; methods returning no content are not listed
+const RESPONSE_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  // Account
+  getAccount: wrapped('account', AccountSchema),
+  getBalance: wrapped('balance', BalanceSchema),
+  getInvoices: page('invoices', InvoiceSchema),
+  getInvoice: wrapped('invoice', InvoiceSchema),
+  getUnpaidFailedInvoices: wrapped('unpaid_failed_invoices', z.array(InvoiceSchema)),
+
+  // Servers
+  listServers: page('servers', ServerSchema),
+  getServer: wrapped('server', ServerSchema),
+  createServer: z.object({
+    server: ServerSchema,
+    links: z.object({ action: ActionLinkSchema.nullish() }).nullish(),
+  }),
+  performServerAction: wrapped('action', ActionSchema),
+  listServerActions: page('actions', ActionSchema),
+  getServerAction: wrapped('action', ActionSchema),
+  getServerBackups: page('backups', BackupSchema),
+  getServerFirewallRules: wrapped('firewall_rules', z.array(AdvancedFirewallRuleSchema)),
+  getServerConsole: wrapped('console', ConsoleInfoSchema),
+  getCurrentDataUsage: wrapped('data_usage', DataUsageSchema),
+  listAllDataUsage: page('data_usages', DataUsageSchema),
+  getServerKernels: page('kernels', KernelSchema),
+  getServerAvailableFeatures: wrapped('available_advanced_server_features', z.array(AdvancedServerFeatureSchema)),
+  getServerThresholdAlerts: wrapped('threshold_alerts', z.array(ThresholdAlertSchema)),
+  listExceededThresholdAlerts: wrapped('current_server_alerts', z.array(CurrentServerAlertSchema)),
+  getServerSoftware: page('software', LicensedSoftwareSchema),
+  getServerUserData: wrapped('user_data', z.string()),
+  uploadBackup: wrapped('action', ActionSchema),
+  getServerSnapshots: page('snapshots', BackupSchema),
+  getServerMetrics: page('sample_sets', SampleSetSchema),
+  getServerLatestMetrics: wrapped('sample_set', SampleSetSchema),
+
+  // Images
+  listImages: page('images', ImageSchema),
+  getImage: wrapped('image', ImageSchema),
+  updateImage: wrapped('image', ImageSchema),
+  getImageDownload: wrapped('links', z.object({ download: z.string() })),
+
+  // SSH keys
+  listSshKeys: page('ssh_keys', SshKeySchema),
+  getSshKey: wrapped('ssh_key', SshKeySchema),
+  createSshKey: wrapped('ssh_key', SshKeySchema),
+  updateSshKey: wrapped('ssh_key', SshKeySchema),
+
+  // Domains
+  listDomains: page('domains', DomainSchema),
+  getDomain: wrapped('domain', DomainSchema),
+  createDomain: wrapped('domain', DomainSchema),
+  listDomainRecords: page('domain_records', DomainRecordSchema),
+  getDomainRecord: wrapped('domain_record', DomainRecordSchema),
+  createDomainRecord: wrapped('domain_record', DomainRecordSchema),
+  updateDomainRecord: wrapped('domain_record', DomainRecordSchema),
+  listNameservers: wrapped('nameservers', z.array(NameserverSchema)),
+  listIpv6ReverseName: page('reverse_names', ReverseNameSchema),
+
+  // VPCs
+  listVpcs: page('vpcs', VpcSchema),
+  getVpc: wrapped('vpc', VpcSchema),
+  createVpc: wrapped('vpc', VpcSchema),
+  updateVpc: wrapped('vpc', VpcSchema),
+  getVpcMembers: page('members', VpcMemberSchema),
+
+  // Load balancers
+  listLoadBalancers: page('load_balancers', LoadBalancerSchema),
+  getLoadBalancer: wrapped('load_balancer', LoadBalancerSchema),
+  createLoadBalancer: wrapped('load_balancer', LoadBalancerSchema),
+  updateLoadBalancer: wrapped('load_balancer', LoadBalancerSchema),
+  getLoadBalancerAvailability: wrapped('load_balancer_availability', z.array(LoadBalancerAvailabilitySchema)),
+
+  // Reference data
+  listRegions: wrapped('regions', z.array(RegionSchema)),
+  listSizes: wrapped('sizes', z.array(SizeSchema)),
+  listActions: page('actions', ActionSchema),
+  getAction: wrapped('action', ActionSchema),
+  listSoftware: page('software', SoftwareSchema),
+  listAvailableSoftware: page('software', SoftwareSchema),
+  getSoftware: wrapped('software', SoftwareSchema),
+  listSoftwareForOS: page('software', SoftwareSchema),
+};
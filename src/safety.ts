@@ -0,0 +1,48 @@
+/**
+ * Operating modes for BinaryLane MCP Server
+ * Decides which tools are exposed from their annotations and the configured allow and deny lists
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+// From most to least restrictive
+export const SAFETY_MODES = ['read-only', 'no-destructive', 'full'] as const;
+
+export type SafetyMode = typeof SAFETY_MODES[number];
+
+export interface SafetySettings {
+  mode: SafetyMode;
+  allowTools?: string[]; // exposed whatever the mode
+  denyTools?: string[];  // never exposed, even when also allowed
+}
+
+/**
+ * Check whether a tool changes anything, following the MCP defaults for missing annotations.
+ */
+function isReadOnly(tool: Tool): boolean {
+  return tool.annotations?.readOnlyHint === true;
+}
+
+function isDestructive(tool: Tool): boolean {
+  return !isReadOnly(tool) && tool.annotations?.destructiveHint !== false;
+}
+
+/**
+ * Explain why the safety settings withhold a tool.
+ * @returns The reason, or undefined if the tool is exposed
+ */
+export function getToolRestriction(settings: SafetySettings, tool: Tool): string | undefined {
+  if (settings.denyTools?.includes(tool.name)) {
+    return `${tool.name} is listed in safety.denyTools`;
+  }
+  if (settings.allowTools?.includes(tool.name)) {
+    return undefined;
+  }
+  if (settings.mode === 'read-only' && !isReadOnly(tool)) {
+    return `${tool.name} makes changes, and the server is running in read-only mode`;
+  }
+  if (settings.mode === 'no-destructive' && isDestructive(tool)) {
+    return `${tool.name} is destructive, and the server is running in no-destructive mode`;
+  }
+  return undefined;
+}
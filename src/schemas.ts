@@ -29,6 +29,9 @@ const MAX_HEALTH_CHECK_THRESHOLD = 10;
 
 // ==================== Common Schemas ====================
 
+// For tools that take no arguments of their own
+export const NoArgumentsSchema = z.object({});
+
 export const PaginationSchema = z.object({
   page: z.number()
     .int()
@@ -44,6 +47,50 @@ export const PaginationSchema = z.object({
     .describe('Results per page (max 200)'),
 }).partial();
 
+export const ListAllSchema = z.object({
+  all: z.boolean()
+    .optional()
+    .describe('Fetch every page instead of one page. Default: false.'),
+  max_items: z.number()
+    .int()
+    .min(1)
+    .max(10000)
+    .optional()
+    .describe('Maximum items to return when all is true (1-10000, default: 1000)'),
+});
+
+export const AccountSelectionSchema = z.object({
+  account: z.string()
+    .min(1)
+    .optional()
+    .describe('Named account to use (see list_accounts). Defaults to the default account.'),
+});
+
+export const WaitSchema = z.object({
+  wait: z.boolean()
+    .optional()
+    .describe('Wait for the action to finish, sending progress notifications. Default: false (return immediately).'),
+  wait_timeout: z.number()
+    .int()
+    .min(1)
+    .max(3600)
+    .optional()
+    .describe('Seconds to wait before returning a partial result (1-3600, default: 600)'),
+});
+
+export const ConfirmationSchema = z.object({
+  confirmation_token: z.string()
+    .min(1)
+    .optional()
+    .describe('Token from a preview that asked for confirmation. Pass it with the same arguments to proceed.'),
+});
+
+export const DryRunSchema = z.object({
+  dry_run: z.boolean()
+    .optional()
+    .describe('Check the arguments and the resources they name, and return the API request this call would send, without sending it. Default: false.'),
+});
+
 // ==================== Account Schemas ====================
 
 export const GetInvoiceSchema = z.object({
@@ -71,6 +118,8 @@ export const ServerIdSchema = z.object({
     .describe('The server ID'),
 });
 
+export const ServerPaginationSchema = ServerIdSchema.merge(PaginationSchema);
+
 export const ListServersSchema = PaginationSchema.extend({
   hostname: z.string()
     .optional()
@@ -114,7 +163,7 @@ export const CreateServerSchema = z.object({
     .describe('Root password (auto-generated if not provided, returned in response)'),
   port_blocking: z.boolean()
     .optional()
-    .describe('Enable outbound port blocking (blocks common spam/attack ports)'),
+    .describe('Enable outbound port blocking (enabled by default; set false for servers needing outbound HTTPS/DNS/apt/certbot)'),
   options: z.object({
     ipv4_addresses: z.number().int().min(1).optional(),
     memory: z.number().int().optional(),
@@ -136,55 +185,71 @@ export const DeleteServerSchema = z.object({
     .describe('Reason for cancellation (for internal records)'),
 });
 
-// Server Action Types
-export const ServerActionType = z.enum([
-  // Power actions
-  'power_on', 'power_off', 'reboot', 'shutdown', 'power_cycle',
-  // Status checks
-  'ping', 'uptime', 'is_running',
-  // Password & Security
-  'password_reset', 'disable_selinux',
-  // Backups
-  'take_backup', 'restore', 'enable_backups', 'disable_backups',
-  'attach_backup', 'detach_backup', 'clone_using_backup',
-  'change_backup_schedule', 'change_offsite_backup_location', 'change_manage_offsite_backup_copies',
-  // Rebuild & Resize
-  'rebuild', 'resize', 'change_region',
-  // Disk operations
-  'add_disk', 'resize_disk', 'delete_disk',
-  // Network
-  'enable_ipv6', 'change_ipv6', 'change_port_blocking',
-  'change_network', 'change_vpc_ipv4',
-  'change_reverse_name', 'change_ipv6_reverse_nameservers',
-  'change_separate_private_network_interface', 'change_source_and_destination_check',
-  // Configuration
-  'rename', 'uncancel', 'change_kernel', 'change_partner',
-  'change_advanced_features', 'change_advanced_firewall_rules', 'change_threshold_alerts',
-]);
-
-export const ServerActionSchema = z.object({
-  server_id: z.number()
-    .int()
-    .positive()
-    .describe('The server ID to perform the action on'),
-  action_type: ServerActionType
-    .describe('The action to perform'),
-  // Parameters for specific actions
-  image: z.union([z.string(), z.number()])
-    .optional()
-    .describe('Image ID/slug for rebuild, attach_backup actions'),
-  size: z.string()
-    .optional()
-    .describe('Size slug for resize action'),
-  name: z.string()
-    .optional()
-    .describe('New hostname for rename action'),
+// ==================== Server Action Schemas ====================
+// One schema per action type, so a missing parameter is reported against the action that needs it
+
+// Error for a parameter the chosen action cannot do without
+const requiredFor = (action: string) => ({ required_error: `Required for ${action}` });
+
+const actionServerId = z.number()
+  .int()
+  .positive()
+  .describe('The server ID to perform the action on');
+
+const imageParam = (action: string) => z.union([z.string(), z.number()], requiredFor(action))
+  .describe('Image ID/slug for rebuild, restore, attach_backup, clone_using_backup actions');
+
+const diskIdParam = (action: string) => z.number(requiredFor(action))
+  .int()
+  .describe('Disk ID for resize_disk, delete_disk actions');
+
+const sizeGigabytesParam = (action: string) => z.number(requiredFor(action))
+  .int()
+  .min(20)
+  .describe('New disk size in GB for add_disk, resize_disk actions');
+
+// Actions that take no parameters
+const SimpleActionSchema = z.object({
+  server_id: actionServerId,
+  action_type: z.enum([
+    // Power actions
+    'power_on', 'power_off', 'reboot', 'shutdown', 'power_cycle',
+    // Status checks
+    'ping', 'uptime', 'is_running',
+    // Password & Security
+    'password_reset', 'disable_selinux',
+    // Backups
+    'enable_backups', 'disable_backups', 'detach_backup',
+    // Network
+    'enable_ipv6',
+    // Configuration
+    'uncancel',
+  ]).describe('The action to perform'),
+});
+
+// Actions that take an image
+const imageAction = <T extends string>(type: T) => z.object({
+  server_id: actionServerId,
+  action_type: z.literal(type),
+  image: imageParam(type),
+});
+
+// Actions that switch a setting on or off
+const toggleAction = <T extends string>(type: T) => z.object({
+  server_id: actionServerId,
+  action_type: z.literal(type),
+  enabled: z.boolean(requiredFor(type))
+    .describe('Enable/disable flag for various toggle actions'),
+});
+
+const TakeBackupActionSchema = z.object({
+  server_id: actionServerId,
+  action_type: z.literal('take_backup'),
+  replacement_strategy: z.enum(['none', 'specified', 'oldest', 'newest'], requiredFor('take_backup'))
+    .describe('Strategy for selecting which backup to replace. Required for take_backup. "none" = use a free slot (error if none), "specified" = replace backup_id_to_replace, "oldest" = replace oldest if no free slots, "newest" = replace newest if no free slots.'),
   backup_type: z.enum(['daily', 'weekly', 'monthly', 'temporary'])
     .optional()
     .describe('Backup type for take_backup action. Required unless replacement_strategy is "specified".'),
-  replacement_strategy: z.enum(['none', 'specified', 'oldest', 'newest'])
-    .optional()
-    .describe('Strategy for selecting which backup to replace. Required for take_backup. "none" = use a free slot (error if none), "specified" = replace backup_id_to_replace, "oldest" = replace oldest if no free slots, "newest" = replace newest if no free slots.'),
   backup_id_to_replace: z.number()
     .int()
     .optional()
@@ -192,65 +257,210 @@ export const ServerActionSchema = z.object({
   label: z.string()
     .optional()
     .describe('Label/description for take_backup action'),
-  // Disk operations
-  disk_id: z.number()
-    .int()
-    .optional()
-    .describe('Disk ID for resize_disk, delete_disk actions'),
-  size_gigabytes: z.number()
+}).describe('backup_type unless replacement_strategy is "specified", which needs backup_id_to_replace instead');
+
+const ChangeBackupScheduleActionSchema = z.object({
+  server_id: actionServerId,
+  action_type: z.literal('change_backup_schedule'),
+  backup_hour_of_day: z.number()
     .int()
-    .min(20)
-    .optional()
-    .describe('New disk size in GB for add_disk, resize_disk actions'),
-  // Network options
-  ipv4_address: z.string()
-    .optional()
-    .describe('IPv4 address for change_vpc_ipv4 action'),
-  reverse_name: z.string()
-    .optional()
-    .describe('Reverse DNS name for change_reverse_name action'),
-  enabled: z.boolean()
-    .optional()
-    .describe('Enable/disable flag for various toggle actions'),
-  // Advanced features
-  features: z.record(z.string(), z.boolean())
-    .optional()
-    .describe('Feature map for change_advanced_features action'),
-  firewall_rules: z.array(z.object({
-    source_addresses: z.array(z.string()),
-    destination_addresses: z.array(z.string()),
-    destination_ports: z.array(z.string()).optional(),
-    protocol: z.enum(['tcp', 'udp', 'icmp', 'all']),
-    action: z.enum(['accept', 'drop']),
-    description: z.string().optional(),
-  })).optional()
-    .describe('Firewall rules for change_advanced_firewall_rules action'),
-  // Threshold alerts
-  threshold_alerts: z.array(z.object({
-    alert_type: z.string(),
-    value: z.number(),
-    enabled: z.boolean(),
-  })).optional()
-    .describe('Threshold alerts for change_threshold_alerts action'),
-  // Clone/restore
-  target_server_id: z.number()
-    .int()
-    .optional()
-    .describe('Target server ID for clone_using_backup action'),
-  // Kernel
-  kernel_id: z.number()
-    .int()
-    .optional()
-    .describe('Kernel ID for change_kernel action'),
-  partner_server_id: z.number()
-    .int()
-    .optional()
-    .describe('Partner server ID for change_partner action'),
-  // Region
-  region: z.string()
-    .optional()
-    .describe('Region slug for change_region action'),
-});
+    .min(0)
+    .max(23)
+    .optional()
+    .describe('Hour of the day (UTC, 0-23) to take scheduled backups'),
+  backup_day_of_week: z.number()
+    .int()
+    .min(-1)
+    .max(6)
+    .optional()
+    .describe('Day of the week for weekly backups (0 = Sunday to 6 = Saturday), or -1 to stop weekly backups'),
+  backup_day_of_month: z.number()
+    .int()
+    .min(-1)
+    .max(28)
+    .refine(day => day !== 0, 'Must be a day from 1 to 28, or -1')
+    .optional()
+    .describe('Day of the month for monthly backups (1-28), or -1 to stop monthly backups'),
+}).describe('at least one of backup_hour_of_day, backup_day_of_week, backup_day_of_month');
+
+const ServerActionOptions = [
+  SimpleActionSchema,
+  imageAction('rebuild'),
+  imageAction('restore'),
+  imageAction('attach_backup'),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('resize'),
+    size: z.string(requiredFor('resize'))
+      .min(1)
+      .describe('Size slug for resize action'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('rename'),
+    name: z.string(requiredFor('rename'))
+      .min(1)
+      .describe('New hostname for rename action'),
+  }),
+  TakeBackupActionSchema,
+  ChangeBackupScheduleActionSchema,
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_offsite_backup_location'),
+    offsite_backup_location: z.string(requiredFor('change_offsite_backup_location'))
+      .min(1)
+      .nullable()
+      .describe('Location to upload offsite backups to (e.g. an S3 bucket URL), or null to use BinaryLane\'s own offsite storage'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_manage_offsite_backup_copies'),
+    manage_offsite_backup_copies: z.boolean(requiredFor('change_manage_offsite_backup_copies'))
+      .describe('Whether BinaryLane removes older offsite backup copies once the number of copies paid for is reached'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('clone_using_backup'),
+    image: imageParam('clone_using_backup'),
+    target_server_id: z.number(requiredFor('clone_using_backup'))
+      .int()
+      .describe('Target server ID for clone_using_backup action'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('add_disk'),
+    size_gigabytes: sizeGigabytesParam('add_disk'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('resize_disk'),
+    disk_id: diskIdParam('resize_disk'),
+    size_gigabytes: sizeGigabytesParam('resize_disk'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('delete_disk'),
+    disk_id: diskIdParam('delete_disk'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_vpc_ipv4'),
+    ipv4_address: z.string(requiredFor('change_vpc_ipv4'))
+      .describe('IPv4 address for change_vpc_ipv4 action'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_reverse_name'),
+    reverse_name: z.string(requiredFor('change_reverse_name'))
+      .describe('Reverse DNS name for change_reverse_name action'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_ipv6_reverse_nameservers'),
+    ipv6_reverse_nameservers: z.array(z.string().min(1), requiredFor('change_ipv6_reverse_nameservers'))
+      .describe('Nameserver hostnames that answer reverse DNS for the server\'s IPv6 range (e.g. ["ns1.example.com"]); an empty array removes them'),
+  }),
+  toggleAction('change_ipv6'),
+  toggleAction('change_port_blocking'),
+  toggleAction('change_network'),
+  toggleAction('change_source_and_destination_check'),
+  toggleAction('change_separate_private_network_interface'),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_advanced_features'),
+    features: z.record(z.string(), z.boolean(), requiredFor('change_advanced_features'))
+      .describe('Feature map for change_advanced_features action (e.g., {"virtio_network": true})'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_advanced_firewall_rules'),
+    firewall_rules: z.array(z.object({
+      source_addresses: z.array(z.string())
+        .describe('Source IP addresses/CIDR ranges (e.g. ["0.0.0.0/0"] for all IPv4)'),
+      destination_addresses: z.array(z.string())
+        .describe('Destination IP addresses/CIDR ranges (e.g. ["0.0.0.0/0"] for all IPv4)'),
+      destination_ports: z.array(z.string())
+        .optional()
+        .describe('Array of port strings (e.g. ["80", "443", "8000-8100"]). Omit for ICMP rules.'),
+      protocol: z.enum(['tcp', 'udp', 'icmp', 'all'])
+        .describe('Protocol (omit destination_ports when using icmp)'),
+      action: z.enum(['accept', 'drop'])
+        .describe('Allow or block traffic matching this rule'),
+      description: z.string()
+        .max(MAX_NAME_LENGTH)
+        .optional()
+        .describe('Human-readable rule description (max 250 chars)'),
+    }), requiredFor('change_advanced_firewall_rules'))
+      .describe('Firewall rules for change_advanced_firewall_rules action'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_threshold_alerts'),
+    threshold_alerts: z.array(z.object({
+      alert_type: z.string()
+        .describe('Alert type (e.g., cpu, memory, disk, storage-requests)'),
+      value: z.number()
+        .describe('Threshold value'),
+      enabled: z.boolean()
+        .describe('Enable/disable this alert'),
+    }), requiredFor('change_threshold_alerts'))
+      .describe('Threshold alerts for change_threshold_alerts action'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_kernel'),
+    kernel_id: z.number(requiredFor('change_kernel'))
+      .int()
+      .describe('Kernel ID for change_kernel action'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_partner'),
+    partner_server_id: z.number(requiredFor('change_partner'))
+      .int()
+      .describe('Partner server ID for change_partner action'),
+  }),
+  z.object({
+    server_id: actionServerId,
+    action_type: z.literal('change_region'),
+    region: z.string(requiredFor('change_region'))
+      .min(1)
+      .describe('Region slug for change_region action'),
+  }),
+] as const;
+
+export const ServerActionSchema = z.discriminatedUnion('action_type', ServerActionOptions)
+  .superRefine((action, ctx) => {
+    if (action.action_type === 'change_backup_schedule') {
+      if (action.backup_hour_of_day === undefined && action.backup_day_of_week === undefined
+        && action.backup_day_of_month === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['backup_hour_of_day'],
+          message: 'change_backup_schedule needs at least one of backup_hour_of_day, backup_day_of_week or backup_day_of_month',
+        });
+      }
+      return;
+    }
+    if (action.action_type !== 'take_backup') {
+      return;
+    }
+    if (action.replacement_strategy === 'specified') {
+      if (action.backup_id_to_replace === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['backup_id_to_replace'],
+          message: 'Required for take_backup when replacement_strategy is "specified"',
+        });
+      }
+    } else if (action.backup_type === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['backup_type'],
+        message: `Required for take_backup unless replacement_strategy is "specified"`,
+      });
+    }
+  });
 
 export const GetServerActionSchema = z.object({
   server_id: z.number()
@@ -277,8 +487,17 @@ export const ServerMetricsSchema = z.object({
   end: z.string()
     .optional()
     .describe('End time in ISO8601 format'),
-  page: z.number().int().min(1).optional(),
-  per_page: z.number().int().min(1).max(MAX_PER_PAGE).optional(),
+  page: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Page number (starts at 1)'),
+  per_page: z.number()
+    .int()
+    .min(1)
+    .max(MAX_PER_PAGE)
+    .optional()
+    .describe('Results per page (max 200)'),
 });
 
 export const UploadBackupSchema = z.object({
@@ -369,6 +588,8 @@ export const DomainNameSchema = z.object({
     .describe('Domain name (e.g., "example.com") or domain ID'),
 });
 
+export const DomainPaginationSchema = DomainNameSchema.merge(PaginationSchema);
+
 export const CreateDomainSchema = z.object({
   name: z.string()
     .min(1)
@@ -492,8 +713,17 @@ export const VpcMembersSchema = z.object({
   resource_type: z.enum(['server', 'load-balancer'])
     .optional()
     .describe('Filter by resource type'),
-  page: z.number().int().min(1).optional(),
-  per_page: z.number().int().min(1).max(MAX_PER_PAGE).optional(),
+  page: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Page number (starts at 1)'),
+  per_page: z.number()
+    .int()
+    .min(1)
+    .max(MAX_PER_PAGE)
+    .optional()
+    .describe('Results per page (max 200)'),
 });
 
 // ==================== Load Balancer Schemas ====================
@@ -522,10 +752,10 @@ export const ForwardingRuleSchema = z.object({
     .describe('Port on backend servers'),
   certificate_id: z.string()
     .optional()
-    .describe('SSL certificate ID for HTTPS'),
+    .describe('SSL certificate ID for HTTPS (if the load balancer terminates TLS)'),
   tls_passthrough: z.boolean()
     .optional()
-    .describe('Pass TLS directly to backend (for HTTPS)'),
+    .describe('Pass TLS directly to backend without terminating (for HTTPS)'),
 });
 
 export const HealthCheckSchema = z.object({
@@ -538,7 +768,7 @@ export const HealthCheckSchema = z.object({
     .describe('Health check port'),
   path: z.string()
     .optional()
-    .describe('Health check path for HTTP/HTTPS'),
+    .describe('Health check path for HTTP/HTTPS (e.g., "/health")'),
   hostname: z.string()
     .optional()
     .describe('Host header for HTTP/HTTPS health checks'),
@@ -568,6 +798,19 @@ export const HealthCheckSchema = z.object({
     .describe('Successful checks before marking healthy'),
 });
 
+export const StickySessionsSchema = z.object({
+  type: z.enum(['cookies', 'none'])
+    .optional()
+    .describe('Session affinity type'),
+  cookie_name: z.string()
+    .optional()
+    .describe('Cookie name for session affinity'),
+  cookie_ttl_seconds: z.number()
+    .int()
+    .optional()
+    .describe('Cookie TTL in seconds'),
+});
+
 export const CreateLoadBalancerSchema = z.object({
   name: z.string()
     .min(1)
@@ -582,11 +825,8 @@ export const CreateLoadBalancerSchema = z.object({
   health_check: HealthCheckSchema
     .optional()
     .describe('Health check configuration'),
-  sticky_sessions: z.object({
-    type: z.enum(['cookies', 'none']).optional(),
-    cookie_name: z.string().optional(),
-    cookie_ttl_seconds: z.number().int().optional(),
-  }).optional()
+  sticky_sessions: StickySessionsSchema
+    .optional()
     .describe('Sticky session configuration'),
   server_ids: z.array(z.number().int().positive())
     .optional()
@@ -610,10 +850,13 @@ export const UpdateLoadBalancerSchema = z.object({
     .describe('New name'),
   forwarding_rules: z.array(ForwardingRuleSchema)
     .optional()
-    .describe('Updated forwarding rules'),
+    .describe('Updated forwarding rules (replaces all existing rules)'),
   health_check: HealthCheckSchema
     .optional()
     .describe('Updated health check'),
+  sticky_sessions: StickySessionsSchema
+    .optional()
+    .describe('Updated sticky session configuration'),
   server_ids: z.array(z.number().int().positive())
     .optional()
     .describe('Updated server list'),
@@ -682,8 +925,17 @@ export const SoftwareIdSchema = z.object({
 export const SoftwareForOSSchema = z.object({
   operating_system_id: z.union([z.string(), z.number()])
     .describe('Operating system ID or slug (e.g., "ubuntu-24.04")'),
-  page: z.number().int().min(1).optional(),
-  per_page: z.number().int().min(1).max(MAX_PER_PAGE).optional(),
+  page: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Page number (starts at 1)'),
+  per_page: z.number()
+    .int()
+    .min(1)
+    .max(MAX_PER_PAGE)
+    .optional()
+    .describe('Results per page (max 200)'),
 });
 
 // ==================== Reverse DNS Schemas ====================
@@ -698,3 +950,33 @@ export const UpdateIpv6ReverseSchema = z.object({
   reverse_name: z.string()
     .describe('Reverse DNS name (e.g., "mail.example.com")'),
 });
+
+// ==================== Audit Schemas ====================
+
+export const QueryAuditLogSchema = z.object({
+  tool: z.string()
+    .min(1)
+    .optional()
+    .describe('Only entries for this tool (e.g., "delete_server")'),
+  outcome: z.enum(['success', 'error', 'denied', 'confirmation_required', 'dry_run'])
+    .optional()
+    .describe('Only entries with this outcome'),
+  caller: z.string()
+    .min(1)
+    .optional()
+    .describe('Only entries made by this caller (an HTTP client ID, or "stdio")'),
+  since: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Only entries at or after this time (ISO 8601)'),
+  until: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Only entries at or before this time (ISO 8601)'),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(1000)
+    .default(50)
+    .describe('Maximum entries to return, newest first (1-1000, default: 50)'),
+});
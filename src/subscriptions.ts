@@ -0,0 +1,105 @@
+/**
+ * Resource subscriptions for BinaryLane MCP Server
+ * Polls subscribed resources and reports when their watched fields change
+ */
+
+import { logger } from './logger.js';
+
+// Default time between polls of subscribed resources, in milliseconds
+export const DEFAULT_POLL_INTERVAL = 15000;
+
+/**
+ * Current state of a subscribed resource, as reported by its check function.
+ */
+export interface ResourceState {
+  // Serialized watched fields; a change triggers a notification
+  fingerprint: string;
+  // The resource will not change again, so it no longer needs polling
+  final: boolean;
+}
+
+interface Subscription {
+  check: () => Promise<ResourceState>;
+  fingerprint: string;
+  final: boolean;
+}
+
+/**
+ * Polls subscribed resources for one MCP session.
+ */
+export class ResourcePoller {
+  private subscriptions = new Map<string, Subscription>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    private onUpdated: (uri: string) => Promise<void>,
+    private intervalMs: number = DEFAULT_POLL_INTERVAL
+  ) {}
+
+  /**
+   * Start watching a resource. The first check runs immediately and records the baseline state.
+   * @throws Whatever the first check throws, e.g. ApiError if the resource does not exist
+   */
+  async subscribe(uri: string, check: () => Promise<ResourceState>): Promise<void> {
+    const { fingerprint, final } = await check();
+    this.subscriptions.set(uri, { check, fingerprint, final });
+
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      // Polling should not keep the process alive on its own
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Drop all subscriptions and stop polling.
+   */
+  close(): void {
+    this.subscriptions.clear();
+    this.stop();
+  }
+
+  private stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async poll(): Promise<void> {
+    // Skip a tick rather than overlap a slow poll
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const [uri, subscription] of this.subscriptions) {
+        if (subscription.final) continue;
+
+        let state: ResourceState;
+        try {
+          state = await subscription.check();
+        } catch (error) {
+          logger.warn(`Failed to poll ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+
+        // Unsubscribed while the check was in flight
+        if (this.subscriptions.get(uri) !== subscription) continue;
+
+        subscription.final = state.final;
+        if (state.fingerprint !== subscription.fingerprint) {
+          subscription.fingerprint = state.fingerprint;
+          await this.onUpdated(uri).catch(error => logger.warn(`Failed to notify update of ${uri}:`, error));
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
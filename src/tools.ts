@@ -4,6 +4,10 @@
  */
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import * as schemas from './schemas.js';
 
 // Tool annotation interface
 interface ToolAnnotations {
@@ -13,20 +17,135 @@ interface ToolAnnotations {
   openWorldHint?: boolean;
 }
 
-// Helper to create tool with annotations
+// A tool's arguments: one object, or a discriminated union of objects (optionally refined)
+// when the arguments required depend on one of them, such as server_action's action_type
+type ObjectUnion = z.ZodDiscriminatedUnion<string, readonly z.ZodDiscriminatedUnionOption<string>[]>;
+type ToolSchema = z.AnyZodObject | ObjectUnion | z.ZodEffects<ObjectUnion>;
+
+// Tools that always preview and ask for a confirmation token before acting
+const confirmedTools = new Set<string>();
+
+// Tools that change something through the API, and so can be dry-run
+const dryRunTools = new Set<string>();
+
+// The options of a discriminated union schema, looking through refinements
+function unionOptions(schema: ToolSchema): { discriminator: string; options: z.AnyZodObject[] } | undefined {
+  if (schema instanceof z.ZodEffects) {
+    return unionOptions(schema.innerType() as ObjectUnion);
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return { discriminator: schema.discriminator, options: [...schema.options] as z.AnyZodObject[] };
+  }
+  return undefined;
+}
+
+// The values an option accepts for the discriminator
+function discriminatorValues(field: z.ZodTypeAny): string[] {
+  return field instanceof z.ZodEnum ? field.options : [(field as z.ZodLiteral<string>).value];
+}
+
+/**
+ * Flatten a tool schema into one object for its JSON Schema, since MCP clients expect an object
+ * at the top level. Arguments required by only some options of a union become optional; the
+ * handler still validates against the union.
+ */
+function flattenSchema(schema: ToolSchema): z.AnyZodObject {
+  const union = unionOptions(schema);
+  if (!union) {
+    return schema as z.AnyZodObject;
+  }
+
+  const { discriminator, options } = union;
+  const shape: z.ZodRawShape = {};
+  for (const option of options) {
+    for (const [key, field] of Object.entries(option.shape as z.ZodRawShape)) {
+      if (key in shape) {
+        continue;
+      }
+      if (key === discriminator) {
+        // Filled in below, once every option's values are known; set here to keep the property order
+        shape[key] = field;
+        continue;
+      }
+      const requiredByAll = options.every(other => key in other.shape && !other.shape[key].isOptional());
+      shape[key] = requiredByAll ? field : field.optional();
+    }
+  }
+  const values = options.flatMap(option => discriminatorValues(option.shape[discriminator]));
+  const described = options.find(option => option.shape[discriminator].description !== undefined);
+  shape[discriminator] = z.enum(values as [string, ...string[]]).describe(described?.shape[discriminator].description ?? '');
+  return z.object(shape);
+}
+
+/**
+ * List the arguments each option of a discriminated union requires, grouping options that need the same,
+ * for the tool description.
+ */
+function describeRequiredArguments(schema: ToolSchema): string {
+  const union = unionOptions(schema);
+  if (!union) {
+    return '';
+  }
+
+  const { discriminator, options } = union;
+  const byRequirement = new Map<string, string[]>();
+  for (const option of options) {
+    const required = Object.entries(option.shape as z.ZodRawShape)
+      .filter(([key, field]) => key !== discriminator && !field.isOptional()
+        && !options.every(other => key in other.shape && !other.shape[key].isOptional()))
+      .map(([key]) => key);
+    // An option whose requirement only its description can state reads as that description
+    const requirement = required.length > 0
+      ? [required.join(', '), option.description && `plus ${option.description}`].filter(Boolean).join(', ')
+      : option.description ?? 'no parameters';
+    byRequirement.set(requirement, [...(byRequirement.get(requirement) ?? []), ...discriminatorValues(option.shape[discriminator])]);
+  }
+
+  const lines = [...byRequirement].map(([requirement, values]) => `  - ${values.join(', ')}: ${requirement}`);
+  return `Required parameters by ${discriminator}:\n${lines.join('\n')}`;
+}
+
+// Helper to create tool with annotations, deriving its JSON Schema from the zod schema its handler parses
 function defineTool(
   name: string,
   description: string,
-  inputSchema: object,
-  annotations: ToolAnnotations
+  schema: ToolSchema,
+  annotations: ToolAnnotations,
+  options: { accountSelection?: boolean; waitForAction?: boolean; paginated?: boolean; confirmation?: boolean } = {}
 ): Tool {
+  const { accountSelection = true, waitForAction = false, paginated = false, confirmation = false } = options;
+
+  let inputSchema = flattenSchema(schema);
+  // Any change can be held for confirmation by the protected-resource policy
+  if (confirmation || !annotations.readOnlyHint) {
+    inputSchema = inputSchema.merge(schemas.ConfirmationSchema);
+  }
+  // Local changes such as clear_cache send nothing to capture
+  if (!annotations.readOnlyHint && annotations.openWorldHint !== false) {
+    dryRunTools.add(name);
+    inputSchema = inputSchema.merge(schemas.DryRunSchema);
+  }
+  if (confirmation) {
+    confirmedTools.add(name);
+    description += '\n\nRequires confirmation: the first call changes nothing and returns a preview with a confirmation_token. '
+      + 'Call again with the same arguments plus confirmation_token to proceed.';
+  }
+  if (waitForAction) {
+    inputSchema = inputSchema.merge(schemas.WaitSchema);
+  }
+  if (paginated) {
+    inputSchema = inputSchema.merge(schemas.ListAllSchema);
+  }
+  if (accountSelection) {
+    inputSchema = inputSchema.merge(schemas.AccountSelectionSchema);
+  }
+
+  // Inline every subschema: MCP clients do not all resolve $ref
+  const { $schema: _, ...jsonSchema } = zodToJsonSchema(inputSchema, { $refStrategy: 'none' }) as Record<string, unknown>;
   return {
     name,
     description,
-    inputSchema: {
-      type: 'object',
-      ...inputSchema,
-    },
+    inputSchema: jsonSchema,
     annotations,
   } as Tool;
 }
@@ -34,6 +153,21 @@ function defineTool(
 // ==================== Account Tools ====================
 
 export const accountTools: Tool[] = [
+  defineTool(
+    'list_accounts',
+    `List the BinaryLane accounts this server is configured for.
+
+Returns array of accounts with:
+  - name: Pass as the "account" argument of any tool to use this account
+  - description: What the account is for (if configured)
+  - default: Whether tools use this account when none is given
+
+Example usage: Check which accounts exist before working across production and staging.`,
+    schemas.NoArgumentsSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+    { accountSelection: false }
+  ),
+
   defineTool(
     'get_account',
     `Fetch information about the current BinaryLane account.
@@ -45,7 +179,7 @@ Returns:
   - status: Account status (active, suspended, etc.)
 
 Example usage: Check account status before creating new servers.`,
-    { properties: {} },
+    schemas.NoArgumentsSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -59,7 +193,7 @@ Returns:
   - month_to_date_balance: Net balance for this period
 
 Example usage: Monitor spending and check available credit.`,
-    { properties: {} },
+    schemas.NoArgumentsSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -75,13 +209,9 @@ Returns array of invoices with:
   - download URLs for PDF invoices
 
 Pagination: Use page and per_page to navigate large lists.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number (starts at 1)', default: 1 },
-        per_page: { type: 'number', description: 'Results per page (1-200)', default: 20 },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -89,12 +219,7 @@ Pagination: Use page and per_page to navigate large lists.`,
     `Fetch a specific invoice by ID.
 
 Returns detailed invoice information including line items and download URLs.`,
-    {
-      properties: {
-        invoice_id: { type: 'number', description: 'The invoice ID to fetch' },
-      },
-      required: ['invoice_id'],
-    },
+    schemas.GetInvoiceSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -108,7 +233,7 @@ Important: Unpaid failed invoices may block:
   - Adding new services
 
 Check this if operations are failing unexpectedly.`,
-    { properties: {} },
+    schemas.NoArgumentsSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -122,13 +247,7 @@ Use this to confirm or cancel such pending actions.
 Parameters:
   - action_id: The pending action ID
   - proceed: true to confirm, false to cancel`,
-    {
-      properties: {
-        action_id: { type: 'number', description: 'The action ID to respond to' },
-        proceed: { type: 'boolean', description: 'true to confirm, false to cancel' },
-      },
-      required: ['action_id', 'proceed'],
-    },
+    schemas.ProceedActionSchema,
     { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
   ),
 ];
@@ -150,14 +269,9 @@ Returns array of servers with:
 
 Filter by hostname to find specific servers.
 Use pagination for accounts with many servers.`,
-    {
-      properties: {
-        hostname: { type: 'string', description: 'Filter by hostname (partial match)' },
-        page: { type: 'number', description: 'Page number (starts at 1)' },
-        per_page: { type: 'number', description: 'Results per page (1-200)' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.ListServersSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -170,12 +284,7 @@ Returns complete server details including:
   - Current status and features
   - Backup configuration
   - VPC membership`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'The server ID' },
-      },
-      required: ['server_id'],
-    },
+    schemas.ServerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -205,23 +314,9 @@ Example: Create Ubuntu server in Sydney
   region: "syd"
   name: "my-web-server"
   backups: true`,
-    {
-      properties: {
-        size: { type: 'string', description: 'Size slug (e.g., "std-min", "std-1vcpu-1gb")' },
-        image: { type: 'string', description: 'Image ID or slug (e.g., "ubuntu-24.04")' },
-        region: { type: 'string', description: 'Region slug (syd, mel, bne, per)' },
-        name: { type: 'string', description: 'Server hostname' },
-        backups: { type: 'boolean', description: 'Enable automatic backups' },
-        ipv6: { type: 'boolean', description: 'Enable IPv6' },
-        vpc_id: { type: 'number', description: 'VPC ID for private networking' },
-        ssh_keys: { type: 'array', items: { type: 'number' }, description: 'SSH key IDs' },
-        user_data: { type: 'string', description: 'Cloud-init user data script' },
-        password: { type: 'string', description: 'Root password' },
-        port_blocking: { type: 'boolean', description: 'Enable outbound port blocking (enabled by default; set false for servers needing outbound HTTPS/DNS/apt/certbot)' },
-      },
-      required: ['size', 'image', 'region'],
-    },
-    { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
+    schemas.CreateServerSchema,
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    { waitForAction: true }
   ),
 
   defineTool(
@@ -234,14 +329,9 @@ WARNING: This will:
   - Remove all data after the billing period
 
 The server can be uncancelled before final deletion using the 'uncancel' server action.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID to delete' },
-        reason: { type: 'string', description: 'Cancellation reason (optional)' },
-      },
-      required: ['server_id'],
-    },
-    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
+    schemas.DeleteServerSchema,
+    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+    { confirmation: true }
   ),
 
   defineTool(
@@ -261,27 +351,31 @@ Status checks:
   - is_running: Check if server is running
 
 Backup actions:
-  - take_backup: Create manual backup (params: replacement_strategy (required), backup_type, label, backup_id_to_replace)
-  - restore: Restore from backup (params: image - backup ID)
+  - take_backup: Create manual backup (optional: label)
+  - restore: Restore from backup (image is the backup ID)
   - enable_backups / disable_backups: Toggle automatic backups
   - attach_backup / detach_backup: Mount/unmount backup for file recovery
+  - change_backup_schedule: Set the hour (UTC) and the weekly and monthly days scheduled backups run
+  - change_offsite_backup_location: Send offsite backups to your own storage, or back to BinaryLane's
+  - change_manage_offsite_backup_copies: Let BinaryLane remove older offsite copies beyond the paid limit
 
 Configuration:
-  - rebuild: Reinstall OS (params: image)
-  - resize: Change server size (params: size)
-  - rename: Change hostname (params: name)
-  - change_region: Migrate to different region (params: region)
+  - rebuild: Reinstall OS
+  - resize: Change server size
+  - rename: Change hostname
+  - change_region: Migrate to different region
 
 Network:
   - enable_ipv6 / change_ipv6: Configure IPv6
   - change_port_blocking: Toggle outbound port blocking (enabled by default on new servers; disable for servers that need outbound HTTPS, DNS, apt, certbot, etc.)
   - change_network / change_vpc_ipv4: Network configuration
   - change_reverse_name: Set reverse DNS
+  - change_ipv6_reverse_nameservers: Delegate reverse DNS for the server's IPv6 range to your nameservers
 
 Advanced:
   - change_kernel: Change Linux kernel
   - change_advanced_features: Toggle features
-  - change_advanced_firewall_rules: Update firewall (params: firewall_rules - array of rule objects)
+  - change_advanced_firewall_rules: Update firewall (firewall_rules is an array of rule objects)
     IMPORTANT: The firewall is STATELESS. Rules are evaluated in order. There is NO implicit deny — you MUST include explicit drop rules at the end.
     IMPORTANT: You MUST include a UDP 53 (DNS) accept rule BEFORE any UDP drop rule, otherwise the server cannot resolve hostnames (apt, certbot, etc. will break).
     Example firewall_rules to allow SSH, HTTP, HTTPS, DNS, ICMP and deny everything else:
@@ -297,80 +391,12 @@ Advanced:
     Note: destination_ports must be an array of strings, not a single string. Omit destination_ports for ICMP rules and for catch-all drop rules (use empty array or omit entirely). Use IPv4 ("0.0.0.0/0") and IPv6 ("::/0") separately if needed.
   - change_threshold_alerts: Configure resource alerts
   - add_disk / resize_disk / delete_disk: Manage disks
-  - uncancel: Revert server cancellation`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        action_type: {
-          type: 'string',
-          description: 'Action to perform',
-          enum: [
-            'power_on', 'power_off', 'reboot', 'shutdown', 'power_cycle',
-            'ping', 'uptime', 'is_running',
-            'password_reset', 'disable_selinux',
-            'take_backup', 'restore', 'enable_backups', 'disable_backups',
-            'attach_backup', 'detach_backup', 'clone_using_backup',
-            'change_backup_schedule', 'change_offsite_backup_location', 'change_manage_offsite_backup_copies',
-            'rebuild', 'resize', 'change_region',
-            'add_disk', 'resize_disk', 'delete_disk',
-            'enable_ipv6', 'change_ipv6', 'change_port_blocking',
-            'change_network', 'change_vpc_ipv4',
-            'change_reverse_name', 'change_ipv6_reverse_nameservers',
-            'change_separate_private_network_interface', 'change_source_and_destination_check',
-            'rename', 'uncancel', 'change_kernel', 'change_partner',
-            'change_advanced_features', 'change_advanced_firewall_rules',
-            'change_threshold_alerts',
-          ],
-        },
-        image: { type: 'string', description: 'Image ID/slug for rebuild, restore' },
-        size: { type: 'string', description: 'Size slug for resize' },
-        name: { type: 'string', description: 'New hostname for rename' },
-        backup_type: { type: 'string', description: 'Backup type: daily, weekly, monthly, temporary. Required for take_backup unless replacement_strategy is "specified".' },
-        replacement_strategy: { type: 'string', description: 'Strategy for which backup to replace (required for take_backup): none, specified, oldest, newest', enum: ['none', 'specified', 'oldest', 'newest'] },
-        backup_id_to_replace: { type: 'number', description: 'Backup ID to replace when replacement_strategy is "specified"' },
-        label: { type: 'string', description: 'Label for backup' },
-        disk_id: { type: 'number', description: 'Disk ID for disk operations' },
-        size_gigabytes: { type: 'number', description: 'Disk size in GB' },
-        region: { type: 'string', description: 'Region for change_region' },
-        enabled: { type: 'boolean', description: 'Enable/disable flag' },
-        ipv4_address: { type: 'string', description: 'IPv4 address for change_vpc_ipv4' },
-        reverse_name: { type: 'string', description: 'Reverse DNS name for change_reverse_name' },
-        features: { type: 'object', description: 'Feature map for change_advanced_features (e.g., {"virtio_network": true})' },
-        threshold_alerts: {
-          type: 'array',
-          description: 'Threshold alerts for change_threshold_alerts',
-          items: {
-            type: 'object',
-            properties: {
-              alert_type: { type: 'string', description: 'Alert type (e.g., cpu, memory, disk, storage-requests)' },
-              value: { type: 'number', description: 'Threshold value' },
-              enabled: { type: 'boolean', description: 'Enable/disable this alert' },
-            },
-          },
-        },
-        target_server_id: { type: 'number', description: 'Target server ID for clone_using_backup' },
-        kernel_id: { type: 'number', description: 'Kernel ID for change_kernel' },
-        partner_server_id: { type: 'number', description: 'Partner server ID for change_partner' },
-        firewall_rules: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              source_addresses: { type: 'array', items: { type: 'string' }, description: 'Source IP addresses/CIDR ranges (e.g. ["0.0.0.0/0"] for all IPv4)' },
-              destination_addresses: { type: 'array', items: { type: 'string' }, description: 'Destination IP addresses/CIDR ranges (e.g. ["0.0.0.0/0"] for all IPv4)' },
-              destination_ports: { type: 'array', items: { type: 'string' }, description: 'Array of port strings (e.g. ["80", "443", "8000-8100"]). Omit for ICMP rules.' },
-              protocol: { type: 'string', enum: ['tcp', 'udp', 'icmp', 'all'], description: 'Protocol (omit destination_ports when using icmp)' },
-              action: { type: 'string', enum: ['accept', 'drop'], description: 'Allow or block traffic matching this rule' },
-              description: { type: 'string', description: 'Human-readable rule description (max 250 chars)' },
-            },
-            required: ['source_addresses', 'destination_addresses', 'protocol', 'action'],
-          },
-          description: 'Firewall rules for change_advanced_firewall_rules action',
-        },
-      },
-      required: ['server_id', 'action_type'],
-    },
-    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
+  - uncancel: Revert server cancellation
+
+${describeRequiredArguments(schemas.ServerActionSchema)}`,
+    schemas.ServerActionSchema,
+    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+    { waitForAction: true }
   ),
 
   defineTool(
@@ -382,15 +408,9 @@ Shows action history including:
   - Start and completion times
   - Progress information
   - Any errors or required interactions`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['server_id'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.ServerPaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -398,13 +418,7 @@ Shows action history including:
     `Get details of a specific server action.
 
 Useful for checking the status of long-running operations.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        action_id: { type: 'number', description: 'Action ID' },
-      },
-      required: ['server_id', 'action_id'],
-    },
+    schemas.GetServerActionSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -417,15 +431,9 @@ Returns backup images with:
   - Creation date and size
   - Status and availability
   - Offsite backup locations`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['server_id'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.ServerPaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -435,15 +443,9 @@ Returns backup images with:
 Snapshots are point-in-time images that can be used to:
   - Restore the server to a previous state
   - Create new servers from the snapshot`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['server_id'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.ServerPaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -452,16 +454,9 @@ Snapshots are point-in-time images that can be used to:
 
 The backup must be accessible via a public URL.
 Supported formats depend on the server's hypervisor.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        url: { type: 'string', description: 'Public URL of the backup image' },
-        label: { type: 'string', description: 'Label for the backup' },
-        backup_type: { type: 'string', description: 'Backup type classification' },
-      },
-      required: ['server_id', 'url'],
-    },
-    { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
+    schemas.UploadBackupSchema,
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    { waitForAction: true }
   ),
 
   defineTool(
@@ -473,12 +468,7 @@ Returns rules with:
   - Ports and protocols
   - Allow/deny actions
   - Rule descriptions`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-      },
-      required: ['server_id'],
-    },
+    schemas.ServerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -494,12 +484,7 @@ Useful for:
   - Troubleshooting boot issues
   - Accessing server when SSH is unavailable
   - Initial OS configuration`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-      },
-      required: ['server_id'],
-    },
+    schemas.ServerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -513,12 +498,7 @@ Returns:
   - transfer_period_end: When usage resets
 
 Excess transfer is charged per GB.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-      },
-      required: ['server_id'],
-    },
+    schemas.ServerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -527,13 +507,9 @@ Excess transfer is charged per GB.`,
     `List data transfer usage for all servers.
 
 Useful for monitoring overall bandwidth consumption across your infrastructure.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -542,15 +518,9 @@ Useful for monitoring overall bandwidth consumption across your infrastructure.`
 
 Only applicable to servers using managed kernels.
 Use with server_action change_kernel to switch kernels.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['server_id'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.ServerPaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -562,12 +532,7 @@ Shows features that can be enabled/disabled:
   - virtio_disk: VirtIO disk driver
   - uefi: UEFI boot mode
   - And more...`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-      },
-      required: ['server_id'],
-    },
+    schemas.ServerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -580,12 +545,7 @@ Shows configured alerts for:
   - Memory usage
   - Disk usage
   - Network traffic`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-      },
-      required: ['server_id'],
-    },
+    schemas.ServerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -595,7 +555,7 @@ Shows configured alerts for:
 
 Returns servers that have triggered resource alerts.
 Useful for monitoring infrastructure health.`,
-    { properties: {} },
+    schemas.NoArgumentsSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -609,15 +569,9 @@ Shows software like:
   - Other licensed applications
 
 Includes license count and pricing.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['server_id'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.ServerPaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -626,12 +580,7 @@ Includes license count and pricing.`,
 
 Returns the cloud-init script that runs on server boot.
 Useful for reviewing automation configuration.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-      },
-      required: ['server_id'],
-    },
+    schemas.ServerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -646,22 +595,9 @@ Returns time-series data for:
   - Network I/O (in/out)
 
 Intervals: five-minute, half-hour, four-hour, day, week, month`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        data_interval: {
-          type: 'string',
-          description: 'Data interval',
-          enum: ['five-minute', 'half-hour', 'four-hour', 'day', 'week', 'month'],
-        },
-        start: { type: 'string', description: 'Start time (ISO8601)' },
-        end: { type: 'string', description: 'End time (ISO8601)' },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['server_id'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.ServerMetricsSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -669,12 +605,7 @@ Intervals: five-minute, half-hour, four-hour, day, week, month`,
     `Get the most recent performance metrics for a server.
 
 Quick way to check current resource utilization without specifying time range.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-      },
-      required: ['server_id'],
-    },
+    schemas.ServerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 ];
@@ -692,14 +623,9 @@ Image types:
   - custom: Uploaded custom images
 
 Use to find image IDs/slugs for server creation.`,
-    {
-      properties: {
-        type: { type: 'string', description: 'Filter by type', enum: ['distribution', 'backup', 'custom'] },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.ListImagesSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -707,12 +633,7 @@ Use to find image IDs/slugs for server creation.`,
     `Get details of a specific image.
 
 Accepts either numeric ID or slug (e.g., "ubuntu-24.04").`,
-    {
-      properties: {
-        image_id: { type: 'string', description: 'Image ID or slug' },
-      },
-      required: ['image_id'],
-    },
+    schemas.ImageIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -721,26 +642,14 @@ Accepts either numeric ID or slug (e.g., "ubuntu-24.04").`,
     `Delete a backup image.
 
 WARNING: This permanently deletes the backup. Only works for backup images you own.`,
-    {
-      properties: {
-        image_id: { type: 'number', description: 'Backup image ID to delete' },
-      },
-      required: ['image_id'],
-    },
+    schemas.ImageIdSchema,
     { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
   ),
 
   defineTool(
     'update_image',
     `Update backup image name or description.`,
-    {
-      properties: {
-        image_id: { type: 'number', description: 'Image ID' },
-        name: { type: 'string', description: 'New name' },
-        description: { type: 'string', description: 'New description' },
-      },
-      required: ['image_id'],
-    },
+    schemas.UpdateImageSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -749,12 +658,7 @@ WARNING: This permanently deletes the backup. Only works for backup images you o
     `Get download URL for a backup image.
 
 Returns a temporary URL to download the backup image file.`,
-    {
-      properties: {
-        image_id: { type: 'number', description: 'Image ID' },
-      },
-      required: ['image_id'],
-    },
+    schemas.ImageIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 ];
@@ -768,24 +672,15 @@ export const sshKeyTools: Tool[] = [
 
 SSH keys are used for secure root access to servers.
 Keys can be added during server creation.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
     'get_ssh_key',
     `Get details of a specific SSH key including the public key content.`,
-    {
-      properties: {
-        key_id: { type: 'number', description: 'SSH key ID' },
-      },
-      required: ['key_id'],
-    },
+    schemas.SshKeyIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -795,28 +690,14 @@ Keys can be added during server creation.`,
 
 The public key should be in standard format (ssh-rsa, ssh-ed25519, etc.).
 Set as default to automatically add to new servers.`,
-    {
-      properties: {
-        name: { type: 'string', description: 'Friendly name for the key' },
-        public_key: { type: 'string', description: 'Public key content' },
-        default: { type: 'boolean', description: 'Set as default for new servers' },
-      },
-      required: ['name', 'public_key'],
-    },
+    schemas.CreateSshKeySchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
   ),
 
   defineTool(
     'update_ssh_key',
     `Update an SSH key's name or default status.`,
-    {
-      properties: {
-        key_id: { type: 'number', description: 'SSH key ID' },
-        name: { type: 'string', description: 'New name' },
-        default: { type: 'boolean', description: 'Set as default' },
-      },
-      required: ['key_id'],
-    },
+    schemas.UpdateSshKeySchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -825,12 +706,7 @@ Set as default to automatically add to new servers.`,
     `Delete an SSH key from the account.
 
 Does not remove the key from existing servers.`,
-    {
-      properties: {
-        key_id: { type: 'number', description: 'SSH key ID to delete' },
-      },
-      required: ['key_id'],
-    },
+    schemas.SshKeyIdSchema,
     { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
   ),
 ];
@@ -843,24 +719,15 @@ export const domainTools: Tool[] = [
     `List all domains managed by BinaryLane DNS.
 
 Returns domains with their current nameserver configuration.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
     'get_domain',
     `Get details of a specific domain including zone file.`,
-    {
-      properties: {
-        domain_name: { type: 'string', description: 'Domain name or ID' },
-      },
-      required: ['domain_name'],
-    },
+    schemas.DomainNameSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -869,13 +736,7 @@ Returns domains with their current nameserver configuration.`,
     `Add a new domain to BinaryLane DNS.
 
 After adding, point your domain's nameservers to BinaryLane (use list_nameservers).`,
-    {
-      properties: {
-        name: { type: 'string', description: 'Domain name (e.g., example.com)' },
-        ip_address: { type: 'string', description: 'IP for initial A record' },
-      },
-      required: ['name'],
-    },
+    schemas.CreateDomainSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
   ),
 
@@ -884,13 +745,9 @@ After adding, point your domain's nameservers to BinaryLane (use list_nameserver
     `Remove a domain from BinaryLane DNS.
 
 WARNING: This deletes all DNS records for the domain.`,
-    {
-      properties: {
-        domain_name: { type: 'string', description: 'Domain name to delete' },
-      },
-      required: ['domain_name'],
-    },
-    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
+    schemas.DomainNameSchema,
+    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+    { confirmation: true }
   ),
 
   defineTool(
@@ -898,27 +755,15 @@ WARNING: This deletes all DNS records for the domain.`,
     `List all DNS records for a domain.
 
 Returns records with type, name, data, TTL, and priority.`,
-    {
-      properties: {
-        domain_name: { type: 'string', description: 'Domain name' },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['domain_name'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.DomainPaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
     'get_domain_record',
     `Get details of a specific DNS record.`,
-    {
-      properties: {
-        domain_name: { type: 'string', description: 'Domain name' },
-        record_id: { type: 'number', description: 'Record ID' },
-      },
-      required: ['domain_name', 'record_id'],
-    },
+    schemas.DomainRecordSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -933,50 +778,21 @@ Example A record:
 
 Example MX record:
   type: "MX", name: "@", data: "mail.example.com", priority: 10`,
-    {
-      properties: {
-        domain_name: { type: 'string', description: 'Domain name' },
-        type: { type: 'string', description: 'Record type', enum: ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'SRV', 'CAA'] },
-        name: { type: 'string', description: 'Record name (e.g., www, @)' },
-        data: { type: 'string', description: 'Record value' },
-        priority: { type: 'number', description: 'Priority (MX, SRV)' },
-        port: { type: 'number', description: 'Port (SRV)' },
-        ttl: { type: 'number', description: 'TTL in seconds' },
-        weight: { type: 'number', description: 'Weight (SRV)' },
-      },
-      required: ['domain_name', 'type', 'name', 'data'],
-    },
+    schemas.CreateDomainRecordSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
   ),
 
   defineTool(
     'update_domain_record',
     `Update an existing DNS record.`,
-    {
-      properties: {
-        domain_name: { type: 'string', description: 'Domain name' },
-        record_id: { type: 'number', description: 'Record ID' },
-        type: { type: 'string', description: 'Record type' },
-        name: { type: 'string', description: 'Record name' },
-        data: { type: 'string', description: 'Record value' },
-        priority: { type: 'number', description: 'Priority' },
-        ttl: { type: 'number', description: 'TTL' },
-      },
-      required: ['domain_name', 'record_id'],
-    },
+    schemas.UpdateDomainRecordSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
   defineTool(
     'delete_domain_record',
     `Delete a DNS record.`,
-    {
-      properties: {
-        domain_name: { type: 'string', description: 'Domain name' },
-        record_id: { type: 'number', description: 'Record ID' },
-      },
-      required: ['domain_name', 'record_id'],
-    },
+    schemas.DomainRecordSchema,
     { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
   ),
 
@@ -985,7 +801,7 @@ Example MX record:
     `List BinaryLane's public nameservers.
 
 Use these when configuring your domain registrar to use BinaryLane DNS.`,
-    { properties: {} },
+    schemas.NoArgumentsSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -994,25 +810,16 @@ Use these when configuring your domain registrar to use BinaryLane DNS.`,
     `Refresh cached nameserver records for a domain.
 
 Use after changing nameservers at your registrar.`,
-    {
-      properties: {
-        domain_name: { type: 'string', description: 'Domain name' },
-      },
-      required: ['domain_name'],
-    },
+    schemas.DomainNameSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
   defineTool(
     'list_ipv6_reverse_names',
     `List IPv6 reverse DNS (PTR) records.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
@@ -1020,14 +827,7 @@ Use after changing nameservers at your registrar.`,
     `Update IPv6 reverse DNS (PTR) record.
 
 Sets the hostname that resolves when looking up an IPv6 address.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Server ID' },
-        ip_address: { type: 'string', description: 'IPv6 address' },
-        reverse_name: { type: 'string', description: 'Reverse DNS name' },
-      },
-      required: ['server_id', 'ip_address', 'reverse_name'],
-    },
+    schemas.UpdateIpv6ReverseSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 ];
@@ -1040,24 +840,15 @@ export const vpcTools: Tool[] = [
     `List all VPCs (Virtual Private Clouds).
 
 VPCs provide isolated private networks for your servers.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
     'get_vpc',
     `Get details of a specific VPC including IP range and routes.`,
-    {
-      properties: {
-        vpc_id: { type: 'number', description: 'VPC ID' },
-      },
-      required: ['vpc_id'],
-    },
+    schemas.VpcIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -1067,38 +858,14 @@ VPCs provide isolated private networks for your servers.`,
 
 IP range is auto-assigned if not specified.
 Example: 10.240.0.0/16`,
-    {
-      properties: {
-        name: { type: 'string', description: 'VPC name' },
-        ip_range: { type: 'string', description: 'CIDR notation (e.g., 10.240.0.0/16)' },
-      },
-      required: ['name'],
-    },
+    schemas.CreateVpcSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
   ),
 
   defineTool(
     'update_vpc',
     `Update VPC name or route entries.`,
-    {
-      properties: {
-        vpc_id: { type: 'number', description: 'VPC ID' },
-        name: { type: 'string', description: 'New name' },
-        route_entries: {
-          type: 'array',
-          description: 'Custom routes',
-          items: {
-            type: 'object',
-            properties: {
-              router: { type: 'string' },
-              destination: { type: 'string' },
-              description: { type: 'string' },
-            },
-          },
-        },
-      },
-      required: ['vpc_id'],
-    },
+    schemas.UpdateVpcSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -1107,28 +874,17 @@ Example: 10.240.0.0/16`,
     `Delete a VPC.
 
 VPC must be empty (no servers) before deletion.`,
-    {
-      properties: {
-        vpc_id: { type: 'number', description: 'VPC ID' },
-      },
-      required: ['vpc_id'],
-    },
-    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
+    schemas.VpcIdSchema,
+    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+    { confirmation: true }
   ),
 
   defineTool(
     'get_vpc_members',
     `List all members (servers, load balancers) in a VPC.`,
-    {
-      properties: {
-        vpc_id: { type: 'number', description: 'VPC ID' },
-        resource_type: { type: 'string', description: 'Filter by type', enum: ['server', 'load-balancer'] },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['vpc_id'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.VpcMembersSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 ];
 
@@ -1138,24 +894,15 @@ export const loadBalancerTools: Tool[] = [
   defineTool(
     'list_load_balancers',
     `List all load balancers.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
     'get_load_balancer',
     `Get details of a specific load balancer.`,
-    {
-      properties: {
-        load_balancer_id: { type: 'number', description: 'Load balancer ID' },
-      },
-      required: ['load_balancer_id'],
-    },
+    schemas.LoadBalancerIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -1185,208 +932,57 @@ Example HTTPS TLS passthrough (backends handle SSL):
 
 Health check hostname defaults to the LB name. If your backend nginx uses
 server_name matching, set health_check hostname to your actual domain.`,
-    {
-      properties: {
-        name: { type: 'string', description: 'Load balancer name' },
-        forwarding_rules: {
-          type: 'array',
-          description: 'Forwarding rules (at least one required)',
-          items: {
-            type: 'object',
-            properties: {
-              entry_protocol: { type: 'string', description: 'Protocol: http, https, tcp, udp' },
-              entry_port: { type: 'number', description: 'Incoming port' },
-              target_protocol: { type: 'string', description: 'Backend protocol: http, https, tcp, udp' },
-              target_port: { type: 'number', description: 'Backend port' },
-              tls_passthrough: { type: 'boolean', description: 'Pass TLS directly to backend without terminating (for HTTPS)' },
-              certificate_id: { type: 'string', description: 'SSL certificate ID (if LB terminates TLS)' },
-            },
-          },
-        },
-        health_check: {
-          type: 'object',
-          description: 'Health check configuration',
-          properties: {
-            protocol: { type: 'string', description: 'Protocol: http, https, tcp' },
-            port: { type: 'number', description: 'Port to check' },
-            path: { type: 'string', description: 'HTTP path (e.g., /health)' },
-            check_interval_seconds: { type: 'number', description: 'Interval between checks (3-300)' },
-            response_timeout_seconds: { type: 'number', description: 'Timeout per check (3-300)' },
-            unhealthy_threshold: { type: 'number', description: 'Failed checks before unhealthy (2-10)' },
-            healthy_threshold: { type: 'number', description: 'Passed checks before healthy (2-10)' },
-          },
-        },
-        sticky_sessions: {
-          type: 'object',
-          description: 'Sticky session configuration',
-          properties: {
-            type: { type: 'string', description: 'Type: cookies or none' },
-            cookie_name: { type: 'string', description: 'Cookie name for session affinity' },
-            cookie_ttl_seconds: { type: 'number', description: 'Cookie TTL in seconds' },
-          },
-        },
-        server_ids: { type: 'array', items: { type: 'number' }, description: 'Backend server IDs' },
-        algorithm: { type: 'string', description: 'round_robin or least_connections' },
-        size_slug: { type: 'string', description: 'Load balancer size slug' },
-      },
-      required: ['name', 'forwarding_rules'],
-    },
+    schemas.CreateLoadBalancerSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
   ),
 
   defineTool(
     'update_load_balancer',
     `Update load balancer configuration including name, algorithm, health checks, forwarding rules, and sticky sessions.`,
-    {
-      properties: {
-        load_balancer_id: { type: 'number', description: 'Load balancer ID' },
-        name: { type: 'string', description: 'New name' },
-        forwarding_rules: {
-          type: 'array',
-          description: 'Updated forwarding rules (replaces all existing rules)',
-          items: {
-            type: 'object',
-            properties: {
-              entry_protocol: { type: 'string', description: 'Protocol: http, https, tcp, udp' },
-              entry_port: { type: 'number', description: 'Incoming port' },
-              target_protocol: { type: 'string', description: 'Backend protocol' },
-              target_port: { type: 'number', description: 'Backend port' },
-              tls_passthrough: { type: 'boolean', description: 'Pass TLS directly to backend' },
-              certificate_id: { type: 'string', description: 'SSL certificate ID' },
-            },
-          },
-        },
-        health_check: {
-          type: 'object',
-          description: 'Updated health check configuration',
-          properties: {
-            protocol: { type: 'string', description: 'Protocol: http, https, tcp' },
-            port: { type: 'number', description: 'Port to check' },
-            path: { type: 'string', description: 'HTTP path (e.g., /health)' },
-            check_interval_seconds: { type: 'number', description: 'Interval between checks' },
-            response_timeout_seconds: { type: 'number', description: 'Timeout per check' },
-            unhealthy_threshold: { type: 'number', description: 'Failed checks before unhealthy' },
-            healthy_threshold: { type: 'number', description: 'Passed checks before healthy' },
-          },
-        },
-        sticky_sessions: {
-          type: 'object',
-          description: 'Sticky session configuration',
-          properties: {
-            type: { type: 'string', description: 'Type: cookies or none' },
-            cookie_name: { type: 'string', description: 'Cookie name' },
-            cookie_ttl_seconds: { type: 'number', description: 'Cookie TTL' },
-          },
-        },
-        server_ids: { type: 'array', items: { type: 'number' }, description: 'Server IDs' },
-        algorithm: { type: 'string', description: 'round_robin or least_connections' },
-      },
-      required: ['load_balancer_id'],
-    },
+    schemas.UpdateLoadBalancerSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
   defineTool(
     'delete_load_balancer',
     `Delete a load balancer.`,
-    {
-      properties: {
-        load_balancer_id: { type: 'number', description: 'Load balancer ID' },
-      },
-      required: ['load_balancer_id'],
-    },
+    schemas.LoadBalancerIdSchema,
     { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
   ),
 
   defineTool(
     'get_load_balancer_availability',
     `Check load balancer availability and pricing in a region.`,
-    {
-      properties: {
-        region: { type: 'string', description: 'Region slug' },
-      },
-      required: ['region'],
-    },
+    schemas.LoadBalancerAvailabilitySchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
   defineTool(
     'add_servers_to_load_balancer',
     `Add backend servers to a load balancer.`,
-    {
-      properties: {
-        load_balancer_id: { type: 'number', description: 'Load balancer ID' },
-        server_ids: { type: 'array', items: { type: 'number' }, description: 'Server IDs to add' },
-      },
-      required: ['load_balancer_id', 'server_ids'],
-    },
+    schemas.LoadBalancerServersSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
   defineTool(
     'remove_servers_from_load_balancer',
     `Remove backend servers from a load balancer.`,
-    {
-      properties: {
-        load_balancer_id: { type: 'number', description: 'Load balancer ID' },
-        server_ids: { type: 'array', items: { type: 'number' }, description: 'Server IDs to remove' },
-      },
-      required: ['load_balancer_id', 'server_ids'],
-    },
-    { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.LoadBalancerServersSchema,
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { confirmation: true }
   ),
 
   defineTool(
     'add_forwarding_rules',
     `Add forwarding rules to a load balancer.`,
-    {
-      properties: {
-        load_balancer_id: { type: 'number', description: 'Load balancer ID' },
-        forwarding_rules: {
-          type: 'array',
-          description: 'Rules to add',
-          items: {
-            type: 'object',
-            properties: {
-              entry_protocol: { type: 'string', description: 'Protocol: http, https, tcp, udp' },
-              entry_port: { type: 'number', description: 'Incoming port' },
-              target_protocol: { type: 'string', description: 'Backend protocol' },
-              target_port: { type: 'number', description: 'Backend port' },
-              tls_passthrough: { type: 'boolean', description: 'Pass TLS directly to backend' },
-              certificate_id: { type: 'string', description: 'SSL certificate ID' },
-            },
-          },
-        },
-      },
-      required: ['load_balancer_id', 'forwarding_rules'],
-    },
+    schemas.LoadBalancerRulesSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
   defineTool(
     'remove_forwarding_rules',
     `Remove forwarding rules from a load balancer.`,
-    {
-      properties: {
-        load_balancer_id: { type: 'number', description: 'Load balancer ID' },
-        forwarding_rules: {
-          type: 'array',
-          description: 'Rules to remove (must match existing rules exactly)',
-          items: {
-            type: 'object',
-            properties: {
-              entry_protocol: { type: 'string', description: 'Protocol: http, https, tcp, udp' },
-              entry_port: { type: 'number', description: 'Incoming port' },
-              target_protocol: { type: 'string', description: 'Backend protocol' },
-              target_port: { type: 'number', description: 'Backend port' },
-              tls_passthrough: { type: 'boolean', description: 'Pass TLS directly to backend' },
-              certificate_id: { type: 'string', description: 'SSL certificate ID' },
-            },
-          },
-        },
-      },
-      required: ['load_balancer_id', 'forwarding_rules'],
-    },
+    schemas.LoadBalancerRulesSchema,
     { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 ];
@@ -1403,7 +999,7 @@ BinaryLane regions:
   - mel: Melbourne
   - bne: Brisbane
   - per: Perth`,
-    { properties: {} },
+    schemas.NoArgumentsSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
@@ -1413,12 +1009,7 @@ BinaryLane regions:
 
 Shows pricing, specs, and availability.
 Filter by server_id to see resize options.`,
-    {
-      properties: {
-        server_id: { type: 'number', description: 'Show sizes for resizing this server' },
-        image: { type: 'string', description: 'Filter by image compatibility' },
-      },
-    },
+    schemas.ListSizesSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 ];
@@ -1431,24 +1022,15 @@ export const actionTools: Tool[] = [
     `List all recent actions across the account.
 
 Shows operation history for all resources.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
     'get_action',
     `Get details of a specific action.`,
-    {
-      properties: {
-        action_id: { type: 'number', description: 'Action ID' },
-      },
-      required: ['action_id'],
-    },
+    schemas.ActionIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 ];
@@ -1461,42 +1043,146 @@ export const softwareTools: Tool[] = [
     `List all available licensed software.
 
 Includes cPanel, Plesk, and other licensed applications.`,
-    {
-      properties: {
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.PaginationSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 
   defineTool(
     'get_software',
     `Get details of a specific software product.`,
-    {
-      properties: {
-        software_id: { type: 'number', description: 'Software ID' },
-      },
-      required: ['software_id'],
-    },
+    schemas.SoftwareIdSchema,
     { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
   ),
 
   defineTool(
     'list_software_for_os',
     `List software available for a specific operating system.`,
-    {
-      properties: {
-        operating_system_id: { type: 'string', description: 'OS ID or slug' },
-        page: { type: 'number', description: 'Page number' },
-        per_page: { type: 'number', description: 'Results per page' },
-      },
-      required: ['operating_system_id'],
-    },
-    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true }
+    schemas.SoftwareForOSSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    { paginated: true }
   ),
 ];
 
+// ==================== Cache Tools ====================
+
+export const cacheTools: Tool[] = [
+  defineTool(
+    'get_cache_stats',
+    `Show response cache statistics for an account.
+
+Reference data (regions, sizes, images, nameservers, software) and recently fetched servers and DNS records are cached in memory.
+
+Returns:
+  - entries: Number of cached responses
+  - hits / misses: Lookups served from the cache vs. fetched from the API
+  - invalidations: Cached responses dropped because related data changed
+  - endpoints: Hits and misses per cached endpoint`,
+    schemas.NoArgumentsSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+
+  defineTool(
+    'clear_cache',
+    `Drop every cached API response for an account, so the next calls fetch fresh data.
+
+Changes made through this server invalidate the cache automatically. Use this after changes made elsewhere (the BinaryLane website or another API client).`,
+    schemas.NoArgumentsSchema,
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+];
+
+// ==================== Health Tools ====================
+
+export const healthTools: Tool[] = [
+  defineTool(
+    'get_health',
+    `Check the health of the connection to the BinaryLane API for an account, and how busy its request queue is.
+
+After repeated server errors, network failures or timeouts, the circuit breaker opens and tool calls fail immediately instead of retrying. Once the reset timeout passes, one probe request is let through; if it succeeds, calls resume.
+
+Returns:
+  - circuit.state: closed (normal), open (failing fast) or half-open (probe in progress)
+  - circuit.consecutive_failures: Failed requests since the last success
+  - circuit.opened_at / next_probe_in_seconds: When the circuit opened and when the next probe is allowed
+  - rateLimit.requests_per_second / tokens: Current request budget, lowered when the API reports its limit running out
+  - rateLimit.active: API requests in flight
+  - rateLimit.queues: Queued requests, requests granted and wait times per priority (write, read, bulk)
+
+Example usage: Check whether the API has recovered after tools report it unavailable, or why calls are slow.`,
+    schemas.NoArgumentsSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+];
+
+// ==================== Audit Tools ====================
+
+export const auditTools: Tool[] = [
+  defineTool(
+    'query_audit_log',
+    `Search the audit log of changes made through this server, for the selected account.
+
+Every tool call that makes changes is recorded, including ones that failed, were denied by policy, are waiting for confirmation or were dry runs. Secret arguments such as passwords, tokens, user_data and credentials in URLs are redacted. Callers authenticated without the "*" scope see only their own entries.
+
+Returns entries newest first, each with:
+  - seq / timestamp: Position in the log and when the call finished
+  - tool / arguments: What was called, and with what
+  - caller / client: Who made the call (HTTP client ID or "stdio") and the MCP client they used
+  - outcome: success, error, denied, confirmation_required or dry_run, with error describing failures
+  - action_id: The BinaryLane action the call started, if any
+  - prev_hash / hash: Links in the hash chain that makes tampering detectable
+
+Example usage: Find out who deleted a server, or what changed on a domain yesterday.`,
+    schemas.QueryAuditLogSchema,
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+];
+
+// ==================== Tool Groups ====================
+
+// Named groups of tools, used as scopes for access control
+export const toolGroups: Record<string, Tool[]> = {
+  account: accountTools,
+  servers: serverTools,
+  images: imageTools,
+  ssh_keys: sshKeyTools,
+  domains: domainTools,
+  vpcs: vpcTools,
+  load_balancers: loadBalancerTools,
+  regions: regionSizeTools,
+  actions: actionTools,
+  software: softwareTools,
+  cache: cacheTools,
+  health: healthTools,
+  audit: auditTools,
+};
+
+// Tool name -> group name, derived from toolGroups
+const toolGroupByName = new Map<string, string>(
+  Object.entries(toolGroups).flatMap(([group, tools]) => tools.map(tool => [tool.name, group] as const))
+);
+
+/**
+ * Get the group a tool belongs to.
+ */
+export function getToolGroup(toolName: string): string | undefined {
+  return toolGroupByName.get(toolName);
+}
+
+/**
+ * Check whether a tool always asks for a confirmation token before acting.
+ */
+export function requiresConfirmation(toolName: string): boolean {
+  return confirmedTools.has(toolName);
+}
+
+/**
+ * Check whether a tool's changes can be captured by a dry run instead of sent.
+ */
+export function supportsDryRun(toolName: string): boolean {
+  return dryRunTools.has(toolName);
+}
+
 // ==================== All Tools ====================
 
 export const allTools: Tool[] = [
@@ -1510,4 +1196,33 @@ export const allTools: Tool[] = [
   ...regionSizeTools,
   ...actionTools,
   ...softwareTools,
+  ...cacheTools,
+  ...healthTools,
+  ...auditTools,
 ];
+
+/**
+ * Check that tool definitions and the handlers agree.
+ * @param handlerNames Names of the registered tool handlers
+ * @returns One message per mismatch, empty when every tool has a handler and every handler a tool
+ */
+export function findToolMismatches(handlerNames: string[]): string[] {
+  const toolNames = new Set(allTools.map(tool => tool.name));
+  const handlers = new Set(handlerNames);
+  const problems: string[] = [];
+
+  for (const name of toolNames) {
+    if (!handlers.has(name)) {
+      problems.push(`Tool "${name}" has no handler`);
+    }
+  }
+  for (const name of handlers) {
+    if (!toolNames.has(name)) {
+      problems.push(`Handler "${name}" has no tool definition`);
+    }
+  }
+  if (allTools.length !== toolNames.size) {
+    problems.push('Tool names are not unique');
+  }
+  return problems;
+}
@@ -0,0 +1,70 @@
+/**
+ * Account tests: the accounts config, token references and per-call account selection
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AccountRegistry, AccountsConfigSchema, validateApiToken } from '../src/accounts.js';
+
+const TOKEN = 'a'.repeat(64);
+
+describe('validateApiToken', () => {
+  it('accepts 64 alphanumeric characters only', () => {
+    assert.equal(validateApiToken(TOKEN), null);
+    assert.match(validateApiToken('short') ?? '', /expected 64 characters, got 5/);
+    assert.match(validateApiToken(`${'a'.repeat(63)}!`) ?? '', /alphanumeric/);
+  });
+});
+
+describe('AccountsConfigSchema', () => {
+  it('needs exactly one of token or tokenEnv per account', () => {
+    assert.ok(AccountsConfigSchema.safeParse({ accounts: { prod: { token: TOKEN } } }).success);
+    assert.ok(!AccountsConfigSchema.safeParse({ accounts: { prod: {} } }).success);
+    assert.ok(!AccountsConfigSchema.safeParse({ accounts: { prod: { token: TOKEN, tokenEnv: 'PROD_TOKEN' } } }).success);
+  });
+
+  it('needs at least one account, and a defaultAccount among them', () => {
+    assert.ok(!AccountsConfigSchema.safeParse({ accounts: {} }).success);
+    assert.ok(!AccountsConfigSchema.safeParse({ defaultAccount: 'staging', accounts: { prod: { token: TOKEN } } }).success);
+    assert.ok(!AccountsConfigSchema.safeParse({ accounts: { 'has space': { token: TOKEN } } }).success);
+  });
+});
+
+describe('AccountRegistry', () => {
+  const config = AccountsConfigSchema.parse({
+    defaultAccount: 'staging',
+    accounts: {
+      prod: { tokenEnv: 'PROD_TOKEN', description: 'Production' },
+      staging: { token: 'b'.repeat(64) },
+    },
+  });
+
+  it('resolves tokenEnv references and the default account', () => {
+    const registry = AccountRegistry.fromConfig(config, undefined, { PROD_TOKEN: TOKEN });
+    assert.equal(registry.isMultiAccount, true);
+    assert.equal(registry.resolve().name, 'staging');
+    assert.equal(registry.resolve('prod').name, 'prod');
+    assert.notEqual(registry.resolve('prod').client, registry.resolve('staging').client);
+    assert.deepEqual(registry.list(), [
+      { name: 'prod', description: 'Production', default: false },
+      { name: 'staging', default: true },
+    ]);
+  });
+
+  it('names the account whose token is missing or malformed', () => {
+    assert.throws(() => AccountRegistry.fromConfig(config, undefined, {}), /Account "prod": environment variable PROD_TOKEN is not set/);
+    assert.throws(() => AccountRegistry.fromConfig(config, undefined, { PROD_TOKEN: 'short' }), /Account "prod": Invalid token length/);
+  });
+
+  it('lists the available accounts when asked for an unknown one', () => {
+    const registry = AccountRegistry.fromConfig(config, undefined, { PROD_TOKEN: TOKEN });
+    assert.throws(() => registry.resolve('dev'), /Unknown account "dev". Available accounts: prod, staging/);
+  });
+
+  it('defaults to the first account', () => {
+    const registry = new AccountRegistry([{ name: 'default', token: TOKEN }]);
+    assert.equal(registry.isMultiAccount, false);
+    assert.equal(registry.resolve().name, 'default');
+  });
+});
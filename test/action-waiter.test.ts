@@ -0,0 +1,55 @@
+/**
+ * Action waiter tests: finishing, timing out, cancellation and progress reporting
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { waitForAction } from '../src/action-waiter.js';
+import { createClient, FakeApi } from './helpers.js';
+
+function actionApi(status: string, percent?: number): FakeApi {
+  return new FakeApi().on('GET', '/actions/900', { body: { action: {
+    id: 900,
+    type: 'resize',
+    status,
+    ...(percent !== undefined && { progress: { percent_complete: percent, current_step: 'Copying disk' } }),
+  } } });
+}
+
+describe('waitForAction', () => {
+  it('returns once the action leaves in-progress', async () => {
+    const progress: Array<[number, string | undefined]> = [];
+    const result = await waitForAction(createClient(actionApi('errored', 40)), 900, {
+      signal: new AbortController().signal,
+      onProgress: async (percent, step) => { progress.push([percent, step]); },
+    });
+    assert.equal(result.completed, true);
+    assert.equal(result.action.status, 'errored');
+    assert.match(result.message, /finished with status "errored"/);
+    assert.deepEqual(progress, [[40, 'Copying disk']]);
+  });
+
+  it('returns a partial result when the timeout would pass before the next poll', async () => {
+    const api = actionApi('in-progress', 25);
+    const result = await waitForAction(createClient(api), 900, {
+      signal: new AbortController().signal,
+      onProgress: async () => undefined,
+      timeoutSeconds: 1,
+    });
+    assert.equal(result.completed, false);
+    assert.match(result.message, /still in progress after \d+s \(25% complete: Copying disk\)/);
+    assert.equal(api.requests.length, 1);
+  });
+
+  it('stops when the request is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const api = actionApi('in-progress');
+    await assert.rejects(
+      waitForAction(createClient(api), 900, { signal: controller.signal, onProgress: async () => undefined }),
+      /Stopped waiting for action 900: the request was cancelled/
+    );
+    assert.deepEqual(api.sent, []);
+  });
+});
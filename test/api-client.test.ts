@@ -0,0 +1,462 @@
+/**
+ * BinaryLaneClient tests: request construction against an injected fetch, method-aware retries, reconciliation
+ * of changes whose outcome is unknown, pagination, caching, timeouts, cancellation, the circuit breaker
+ * response validation and the dry-run view
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ApiError, BinaryLaneClient, DryRunRequest, UncertainOutcomeError } from '../src/api-client.js';
+import { CircuitOpenError } from '../src/circuit-breaker.js';
+import { ResponseValidationError } from '../src/response-schemas.js';
+import { BASE_URL, createClient, FakeApi, Reply, TOKEN } from './helpers.js';
+
+// Answers with each reply in turn, repeating the last
+function sequence(...replies: Reply[]): () => Reply {
+  let next = 0;
+  return () => replies[Math.min(next++, replies.length - 1)];
+}
+
+const GATEWAY_TIMEOUT: Reply = { status: 504, body: { detail: 'Gateway Timeout' } };
+const UNAVAILABLE: Reply = { status: 503, body: { detail: 'Service Unavailable' } };
+
+describe('BinaryLaneClient', () => {
+  describe('requests', () => {
+    it('sends to the configured base URL with the token and extra headers', async () => {
+      const api = new FakeApi().on('GET', '/account', { body: { account: { email: 'test@example.com' } } });
+      const client = new BinaryLaneClient(TOKEN, {
+        baseUrl: `${BASE_URL}/`,
+        headers: { 'X-Test': 'yes' },
+        fetch: api.fetch,
+        responseValidation: 'off',
+      });
+
+      const { account } = await client.getAccount();
+      assert.equal(account.email, 'test@example.com');
+      const [sent] = api.requests;
+      assert.equal(sent.path, '/account');
+      assert.equal(sent.headers.get('Authorization'), `Bearer ${TOKEN}`);
+      assert.equal(sent.headers.get('X-Test'), 'yes');
+    });
+
+    it('sends pagination as query parameters', async () => {
+      const api = new FakeApi().on('GET', '/servers', { body: { servers: [] } });
+      await createClient(api).listServers({ page: 2, per_page: 50 });
+      assert.equal(api.requests[0].query.get('page'), '2');
+      assert.equal(api.requests[0].query.get('per_page'), '50');
+    });
+
+    it('raises ApiError with the API\'s message', async () => {
+      const api = new FakeApi().on('GET', '/servers/9', { status: 404, body: { detail: 'Server not found' } });
+      await assert.rejects(createClient(api).getServer(9), (error: unknown) =>
+        error instanceof ApiError && error.statusCode === 404 && error.message === 'Server not found');
+    });
+  });
+
+  describe('retries', () => {
+    it('retries a read after a server error', async () => {
+      const api = new FakeApi().on('GET', '/account', sequence(UNAVAILABLE, { body: { account: { email: 'a@example.com' } } }));
+      await createClient(api).getAccount();
+      assert.equal(api.requests.length, 2);
+    });
+
+    it('does not retry client errors', async () => {
+      const api = new FakeApi().on('GET', '/account', { status: 400, body: { detail: 'Bad Request' } });
+      await assert.rejects(createClient(api).getAccount(), ApiError);
+      assert.equal(api.requests.length, 1);
+    });
+
+    it('gives up after maxRetries', async () => {
+      const api = new FakeApi().on('GET', '/account', UNAVAILABLE);
+      await assert.rejects(createClient(api, { retryConfig: { maxRetries: 2 } }).getAccount(), { statusCode: 503 });
+      assert.equal(api.requests.length, 3);
+    });
+
+    it('retries a create the API turned away', async () => {
+      const api = new FakeApi().on('POST', '/account/keys', sequence(
+        { status: 429, body: { detail: 'Too Many Requests' }, headers: { 'Retry-After': '0' } },
+        UNAVAILABLE,
+        { body: { ssh_key: { id: 8 } } }
+      ));
+      const { ssh_key } = await createClient(api).createSshKey({ name: 'laptop', public_key: 'ssh-ed25519 AAAA' });
+      assert.equal(ssh_key.id, 8);
+      assert.equal(api.requests.length, 3);
+    });
+
+    it('does not repeat a create whose outcome is unknown', async () => {
+      for (const reply of [GATEWAY_TIMEOUT, { status: 502, body: { detail: 'Bad Gateway' } }]) {
+        const api = new FakeApi().on('POST', '/account/keys', sequence(reply, { body: { ssh_key: { id: 8 } } }));
+        await assert.rejects(
+          createClient(api).createSshKey({ name: 'laptop', public_key: 'ssh-ed25519 AAAA' }),
+          (error: unknown) => error instanceof UncertainOutcomeError && (error.cause as ApiError).statusCode === reply.status
+        );
+        assert.equal(api.requests.length, 1);
+      }
+    });
+
+    it('retries a create whose connection was refused, but not one that was dropped', async () => {
+      const refused = Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } });
+      const reset = Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } });
+      let failure: Error = refused;
+      let calls = 0;
+      const api = new FakeApi().on('POST', '/account/keys', () => {
+        if (calls++ === 0) {
+          throw failure;
+        }
+        return { body: { ssh_key: { id: 8 } } };
+      });
+      const client = createClient(api);
+
+      await client.createSshKey({ name: 'laptop', public_key: 'ssh-ed25519 AAAA' });
+      assert.equal(calls, 2);
+
+      calls = 0;
+      failure = reset;
+      await assert.rejects(client.createSshKey({ name: 'laptop', public_key: 'ssh-ed25519 AAAA' }), UncertainOutcomeError);
+      assert.equal(calls, 1);
+    });
+
+    it('repeats an update, which is safe to send twice', async () => {
+      const api = new FakeApi().on('PUT', '/account/keys/8', sequence(GATEWAY_TIMEOUT, { body: { ssh_key: { id: 8 } } }));
+      await createClient(api).updateSshKey(8, { name: 'desktop' });
+      assert.equal(api.requests.length, 2);
+    });
+
+    it('treats a repeated delete finding nothing as done', async () => {
+      const api = new FakeApi().on('DELETE', '/account/keys/8', sequence(GATEWAY_TIMEOUT, { status: 404, body: { detail: 'Not found' } }));
+      await createClient(api).deleteSshKey(8);
+      assert.equal(api.requests.length, 2);
+    });
+
+    it('reports a delete finding nothing on the first attempt', async () => {
+      const api = new FakeApi().on('DELETE', '/account/keys/8', { status: 404, body: { detail: 'Not found' } });
+      await assert.rejects(createClient(api).deleteSshKey(8), { statusCode: 404 });
+    });
+  });
+
+  describe('reconciling server actions', () => {
+    const actions = (...items: Array<{ id: number; type: string }>): Reply => ({ body: { actions: items } });
+
+    it('reads one page beforehand, and nothing more when the change goes through', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1/actions', ({ query }) => query.get('page') === '1'
+          ? { body: { actions: [{ id: 50, type: 'reboot' }], links: { pages: { next: '/servers/1/actions?page=2' } } } }
+          : { body: { actions: [{ id: 1, type: 'reboot' }] } })
+        .on('POST', '/servers/1/actions', { body: { action: { id: 51, type: 'reboot' } } });
+
+      await createClient(api).performServerAction(1, { type: 'reboot' });
+      assert.deepEqual(api.sent, ['GET /servers/1/actions', 'POST /servers/1/actions']);
+    });
+
+    it('resends when only actions from before the first attempt exist', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1/actions', actions({ id: 50, type: 'reboot' }))
+        .on('POST', '/servers/1/actions', sequence(GATEWAY_TIMEOUT, { body: { action: { id: 51, type: 'reboot' } } }));
+
+      const { action } = await createClient(api).performServerAction(1, { type: 'reboot' });
+      assert.equal(action.id, 51);
+      assert.equal(api.sent.filter(request => request === 'POST /servers/1/actions').length, 2);
+    });
+
+    it('returns the action the unanswered attempt started', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1/actions', sequence(
+          actions({ id: 50, type: 'reboot' }),
+          actions({ id: 51, type: 'reboot' }, { id: 50, type: 'reboot' })
+        ))
+        .on('POST', '/servers/1/actions', GATEWAY_TIMEOUT);
+
+      const { action } = await createClient(api).performServerAction(1, { type: 'reboot' });
+      assert.equal(action.id, 51);
+      assert.equal(api.sent.filter(request => request === 'POST /servers/1/actions').length, 1);
+    });
+
+    it('ignores new actions of other types', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1/actions', sequence(actions(), actions({ id: 51, type: 'power_off' })))
+        .on('POST', '/servers/1/actions', sequence(GATEWAY_TIMEOUT, { body: { action: { id: 52, type: 'reboot' } } }));
+
+      const { action } = await createClient(api).performServerAction(1, { type: 'reboot' });
+      assert.equal(action.id, 52);
+    });
+
+    it('reconciles servers with more actions than the list cap', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1/actions', sequence(
+          actions({ id: 50, type: 'reboot' }, { id: 49, type: 'reboot' }),
+          actions({ id: 51, type: 'reboot' }, { id: 50, type: 'reboot' }, { id: 49, type: 'reboot' })
+        ))
+        .on('POST', '/servers/1/actions', GATEWAY_TIMEOUT);
+
+      const { action } = await createClient(api, { maxListItems: 1 }).performServerAction(1, { type: 'reboot' });
+      assert.equal(action.id, 51);
+    });
+
+    it('does not retry when the new actions run past the list cap', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1/actions', sequence(
+          actions({ id: 50, type: 'reboot' }),
+          actions({ id: 52, type: 'power_off' }, { id: 51, type: 'power_off' }, { id: 50, type: 'reboot' })
+        ))
+        .on('POST', '/servers/1/actions', sequence(GATEWAY_TIMEOUT, { body: { action: { id: 53, type: 'reboot' } } }));
+
+      await assert.rejects(createClient(api, { maxListItems: 1 }).performServerAction(1, { type: 'reboot' }), UncertainOutcomeError);
+      assert.equal(api.sent.filter(request => request === 'POST /servers/1/actions').length, 1);
+    });
+
+    it('does not retry when the actions cannot be listed beforehand', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1/actions', { status: 500, body: { detail: 'Internal Server Error' } })
+        .on('POST', '/servers/1/actions', sequence(GATEWAY_TIMEOUT, { body: { action: { id: 51, type: 'reboot' } } }));
+
+      await assert.rejects(createClient(api, { retryConfig: { maxRetries: 1 } }).performServerAction(1, { type: 'reboot' }), UncertainOutcomeError);
+      assert.equal(api.sent.filter(request => request === 'POST /servers/1/actions').length, 1);
+    });
+
+    it('reports the unknown outcome, with the listing error, when the actions cannot be listed afterwards', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1/actions', sequence(actions({ id: 50, type: 'reboot' }), { status: 500, body: { detail: 'Internal Server Error' } }))
+        .on('POST', '/servers/1/actions', GATEWAY_TIMEOUT);
+
+      await assert.rejects(createClient(api).performServerAction(1, { type: 'reboot' }), (error: unknown) =>
+        error instanceof UncertainOutcomeError && error.reconcileError instanceof Error);
+      assert.equal(api.sent.filter(request => request === 'POST /servers/1/actions').length, 1);
+    });
+  });
+
+  describe('reconciling server creation', () => {
+    const request = { size: 'std-min', image: 'ubuntu-24.04', region: 'syd', name: 'web1' };
+
+    it('does not mistake an older server with the same name for the new one', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers', { body: { servers: [{ id: 1, name: 'web1' }, { id: 2, name: 'web1.example.com' }] } })
+        .on('POST', '/servers', sequence(GATEWAY_TIMEOUT, { body: { server: { id: 3, name: 'web1' } } }));
+
+      const { server } = await createClient(api).createServer(request);
+      assert.equal(server.id, 3);
+      assert.equal(api.sent.filter(sent => sent === 'POST /servers').length, 2);
+      assert.equal(api.requests[0].query.get('hostname'), 'web1');
+    });
+
+    it('returns the server the unanswered attempt created', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers', sequence(
+          { body: { servers: [{ id: 1, name: 'web1' }] } },
+          { body: { servers: [{ id: 3, name: 'web1' }, { id: 1, name: 'web1' }] } }
+        ))
+        .on('POST', '/servers', GATEWAY_TIMEOUT);
+
+      const { server } = await createClient(api).createServer(request);
+      assert.equal(server.id, 3);
+      assert.equal(api.sent.filter(sent => sent === 'POST /servers').length, 1);
+    });
+
+    it('does not retry an unnamed server, which cannot be told apart', async () => {
+      const api = new FakeApi().on('POST', '/servers', sequence(GATEWAY_TIMEOUT, { body: { server: { id: 3 } } }));
+      const { name: _, ...unnamed } = request;
+      await assert.rejects(createClient(api).createServer(unnamed), UncertainOutcomeError);
+      assert.deepEqual(api.sent, ['POST /servers']);
+    });
+  });
+
+  describe('pagination', () => {
+    // Five servers served two per page, with links to the next page
+    function pagedApi(): FakeApi {
+      return new FakeApi().on('GET', '/servers', ({ query }) => {
+        const page = Number(query.get('page'));
+        const servers = [1, 2, 3, 4, 5].slice((page - 1) * 2, page * 2).map(id => ({ id }));
+        return { body: { servers, ...(page < 3 && { links: { pages: { next: `/servers?page=${page + 1}` } } }) } };
+      });
+    }
+
+    it('follows links.pages.next through every page', async () => {
+      const api = pagedApi();
+      const { servers, truncated } = await createClient(api).listAllServers();
+      assert.deepEqual(servers.map(server => server.id), [1, 2, 3, 4, 5]);
+      assert.equal(truncated, false);
+      assert.deepEqual(api.requests.map(({ query }) => query.get('page')), ['1', '2', '3']);
+      assert.equal(api.requests[0].query.get('per_page'), '200');
+    });
+
+    it('stops at the item cap and reports the list was cut short', async () => {
+      const api = pagedApi();
+      const { servers, truncated } = await createClient(api).listAllServers({}, { maxItems: 3 });
+      assert.deepEqual(servers.map(server => server.id), [1, 2, 3]);
+      assert.equal(truncated, true);
+      assert.equal(api.requests.length, 2);
+    });
+
+    it('does not report truncation when the list ends exactly at the cap', async () => {
+      const { truncated } = await createClient(pagedApi(), { maxListItems: 5 }).listAllServers();
+      assert.equal(truncated, false);
+    });
+
+    it('stops at a next link that does not move forward', async () => {
+      const api = new FakeApi().on('GET', '/servers', { body: { servers: [{ id: 1 }], links: { pages: { next: '/servers?page=1' } } } });
+      const ids: number[] = [];
+      const client = createClient(api);
+      for await (const server of client.paginate('servers', page => client.listServers(page))) {
+        ids.push(server.id);
+      }
+      assert.deepEqual(ids, [1]);
+      assert.equal(api.requests.length, 1);
+    });
+  });
+
+  describe('cache', () => {
+    it('serves repeated reads of reference data from one request', async () => {
+      const api = new FakeApi().on('GET', '/regions', { body: { regions: [{ slug: 'syd', name: 'Sydney' }] } });
+      const client = createClient(api);
+
+      await Promise.all([client.listRegions(), client.listRegions()]);
+      await client.listRegions();
+      assert.equal(api.requests.length, 1);
+      assert.equal(client.clearCache(), 1);
+      await client.listRegions();
+      assert.equal(api.requests.length, 2);
+    });
+
+    it('drops a cached server once it is changed', async () => {
+      const api = new FakeApi()
+        .on('GET', '/servers/1', { body: { server: { id: 1, name: 'web1' } } })
+        .on('POST', '/servers/1/actions', { body: { action: { id: 51, type: 'rename' } } });
+      const client = createClient(api);
+
+      await client.getServer(1);
+      await client.performServerAction(1, { type: 'rename', name: 'web2' });
+      await client.getServer(1);
+      assert.equal(api.sent.filter(sent => sent === 'GET /servers/1').length, 2);
+    });
+
+    it('can be turned off', async () => {
+      const api = new FakeApi().on('GET', '/regions', { body: { regions: [] } });
+      const client = createClient(api, { cache: { enabled: false } });
+      await client.listRegions();
+      await client.listRegions();
+      assert.equal(api.requests.length, 2);
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    // A fetch that never answers, failing only when its request is aborted
+    function silentFetch(): typeof fetch & { calls: number } {
+      const fetch = (async (_input: unknown, init?: RequestInit) => {
+        fetch.calls++;
+        return new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        });
+      }) as typeof globalThis.fetch & { calls: number };
+      fetch.calls = 0;
+      return fetch;
+    }
+
+    it('gives up on an attempt after the timeout with a 408, retrying reads', async () => {
+      const fetch = silentFetch();
+      const client = new BinaryLaneClient(TOKEN, { baseUrl: BASE_URL, fetch, timeouts: { default: 10 }, retryConfig: { maxRetries: 1, baseDelay: 1 } });
+      await assert.rejects(client.getAccount(), (error: unknown) =>
+        error instanceof ApiError && error.statusCode === 408 && /within 10ms/.test(error.message));
+      assert.equal(fetch.calls, 2);
+    });
+
+    it('prefers the per-call timeout, then the per-method one', async () => {
+      const client = new BinaryLaneClient(TOKEN, {
+        baseUrl: BASE_URL,
+        fetch: silentFetch(),
+        timeouts: { default: 60000, methods: { getServer: 10 } },
+        retryConfig: { maxRetries: 0 },
+      });
+      await assert.rejects(client.getServer(1), /within 10ms/);
+      await assert.rejects(client.getAccount({ timeout: 20 }), /within 20ms/);
+    });
+
+    it('stops a request when its signal is aborted', async () => {
+      const controller = new AbortController();
+      const client = new BinaryLaneClient(TOKEN, { baseUrl: BASE_URL, fetch: silentFetch() });
+      const request = client.getAccount({ signal: controller.signal });
+      controller.abort(new Error('Caller went away'));
+      await assert.rejects(request, /Caller went away/);
+    });
+
+    it('frees the slot of a cancelled request, and drops cancelled requests from the queue', async () => {
+      const api = new FakeApi().on('GET', '/account', { body: { account: { email: 'a@example.com' } } });
+      const fetch = silentFetch();
+      let hang = true;
+      const client = new BinaryLaneClient(TOKEN, {
+        baseUrl: BASE_URL,
+        maxConcurrent: 1,
+        fetch: (input, init) => hang ? fetch(input, init) : api.fetch(input, init),
+      });
+
+      const first = new AbortController();
+      const queued = new AbortController();
+      const running = client.getAccount({ signal: first.signal });
+      const waiting = client.getAccount({ signal: queued.signal });
+      queued.abort();
+      await assert.rejects(waiting, { name: 'AbortError' });
+
+      first.abort();
+      await assert.rejects(running, { name: 'AbortError' });
+      hang = false;
+      await client.getAccount();
+      assert.equal(fetch.calls, 1);
+      assert.equal(api.requests.length, 1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('fails fast once consecutive server errors open the circuit', async () => {
+      const api = new FakeApi().on('GET', '/account', UNAVAILABLE);
+      const client = createClient(api, { retryConfig: { maxRetries: 0 }, circuitBreaker: { failureThreshold: 2 } });
+
+      await assert.rejects(client.getAccount(), { statusCode: 503 });
+      await assert.rejects(client.getAccount(), { statusCode: 503 });
+      await assert.rejects(client.getAccount(), CircuitOpenError);
+      assert.equal(api.requests.length, 2);
+      assert.equal(client.getHealth().circuit.state, 'open');
+    });
+
+    it('stops retrying once the circuit opens', async () => {
+      const api = new FakeApi().on('GET', '/account', UNAVAILABLE);
+      const client = createClient(api, { retryConfig: { maxRetries: 5 }, circuitBreaker: { failureThreshold: 2 } });
+      await assert.rejects(client.getAccount(), CircuitOpenError);
+      assert.equal(api.requests.length, 2);
+    });
+
+    it('does not count client errors against the API', async () => {
+      const api = new FakeApi().on('GET', '/servers/9', { status: 404, body: { detail: 'Server not found' } });
+      const client = createClient(api, { circuitBreaker: { failureThreshold: 1 } });
+      await assert.rejects(client.getServer(9), { statusCode: 404 });
+      assert.deepEqual(client.getHealth().circuit, { state: 'closed', consecutive_failures: 0 });
+    });
+  });
+
+  describe('response validation', () => {
+    const malformed = { body: { account: { email: 'a@example.com', email_verified: 'yes', server_limit: 5, status: 'active' } } };
+
+    it('rejects an unexpected response in strict mode, without retrying', async () => {
+      const api = new FakeApi().on('GET', '/account', malformed);
+      await assert.rejects(createClient(api, { responseValidation: 'strict' }).getAccount(), (error: unknown) =>
+        error instanceof ResponseValidationError && error.issues[0].path === 'account.email_verified');
+      assert.equal(api.requests.length, 1);
+    });
+
+    it('passes an unexpected response through in warn mode', async () => {
+      const api = new FakeApi().on('GET', '/account', malformed);
+      const { account } = await createClient(api, { responseValidation: 'warn' }).getAccount();
+      assert.equal(account.email_verified, 'yes');
+    });
+  });
+
+  describe('dry-run view', () => {
+    it('sends reads but captures the first change', async () => {
+      const api = new FakeApi().on('GET', '/servers/1', { body: { server: { id: 1, name: 'web1' } } });
+      const view = createClient(api).dryRun();
+
+      await view.getServer(1);
+      await assert.rejects(view.deleteSshKey(8), (error: unknown) =>
+        error instanceof DryRunRequest && error.method === 'DELETE' && error.path === '/account/keys/8');
+      assert.deepEqual(api.sent, ['GET /servers/1']);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Inbound authentication tests: static API keys, HMAC-signed bearer tokens and scopes
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AuthConfigSchema, Authenticator, hasFullAccess, isGroupAllowed, isToolAllowed, issueBearerToken } from '../src/auth.js';
+import { getToolGroup } from '../src/tools.js';
+
+const KEY = 'k'.repeat(32);
+const SECRET = 's'.repeat(32);
+
+const authenticator = new Authenticator(AuthConfigSchema.parse({
+  apiKeys: [{ id: 'ci', key: KEY, scopes: ['servers'] }],
+  tokenSecret: SECRET,
+}));
+
+describe('Authenticator', () => {
+  it('accepts an API key as a bearer credential or in X-API-Key', () => {
+    for (const headers of [{ authorization: `Bearer ${KEY}` }, { 'x-api-key': KEY }]) {
+      const auth = authenticator.authenticate(headers);
+      assert.equal(auth?.clientId, 'ci');
+      assert.deepEqual(auth?.scopes, ['servers']);
+    }
+  });
+
+  it('rejects missing and unknown credentials', () => {
+    assert.equal(authenticator.authenticate({}), undefined);
+    assert.equal(authenticator.authenticate({ authorization: `Bearer ${'x'.repeat(32)}` }), undefined);
+    assert.equal(authenticator.authenticate({ authorization: `Basic ${KEY}` }), undefined);
+  });
+
+  it('accepts a signed token until it expires', () => {
+    const token = issueBearerToken(SECRET, 'nightly-report', ['account'], 60);
+    const auth = authenticator.authenticate({ authorization: `Bearer ${token}` });
+    assert.equal(auth?.clientId, 'nightly-report');
+    assert.deepEqual(auth?.scopes, ['account']);
+    assert.ok(auth?.expiresAt);
+
+    const expired = issueBearerToken(SECRET, 'nightly-report', ['account'], -1);
+    assert.equal(authenticator.authenticate({ authorization: `Bearer ${expired}` }), undefined);
+  });
+
+  it('rejects tokens signed with another secret or altered', () => {
+    const foreign = issueBearerToken('o'.repeat(32), 'intruder', ['*']);
+    assert.equal(authenticator.authenticate({ authorization: `Bearer ${foreign}` }), undefined);
+
+    const [, signature] = issueBearerToken(SECRET, 'reader', ['account']).split('.');
+    const widened = Buffer.from(JSON.stringify({ sub: 'reader', scopes: ['*'] })).toString('base64url');
+    assert.equal(authenticator.authenticate({ authorization: `Bearer ${widened}.${signature}` }), undefined);
+  });
+});
+
+describe('AuthConfigSchema', () => {
+  it('requires a key or a token secret, of a safe length, with known scopes', () => {
+    assert.ok(!AuthConfigSchema.safeParse({}).success);
+    assert.ok(!AuthConfigSchema.safeParse({ tokenSecret: 'short' }).success);
+    assert.ok(!AuthConfigSchema.safeParse({ apiKeys: [{ id: 'a', key: 'short', scopes: ['*'] }] }).success);
+    assert.ok(!AuthConfigSchema.safeParse({ apiKeys: [{ id: 'a', key: KEY, scopes: ['everything'] }] }).success);
+    assert.ok(AuthConfigSchema.safeParse({ apiKeys: [{ id: 'a', key: KEY, scopes: ['*'] }] }).success);
+  });
+});
+
+describe('isToolAllowed', () => {
+  it('allows callers without auth info everything', () => {
+    assert.equal(isToolAllowed(undefined, 'delete_server'), true);
+  });
+
+  it('allows tools in the caller\'s scopes, or every tool with *', () => {
+    const auth = { token: KEY, clientId: 'ci', scopes: ['servers'] };
+    assert.equal(getToolGroup('delete_server'), 'servers');
+    assert.equal(isToolAllowed(auth, 'delete_server'), true);
+    assert.equal(isToolAllowed(auth, 'delete_domain'), false);
+    assert.equal(isToolAllowed({ ...auth, scopes: ['*'] }, 'delete_domain'), true);
+  });
+});
+
+describe('isGroupAllowed', () => {
+  it('checks a single group against the caller\'s scopes', () => {
+    const auth = { token: KEY, clientId: 'ci', scopes: ['domains'] };
+    assert.equal(isGroupAllowed(undefined, 'servers'), true);
+    assert.equal(isGroupAllowed(auth, 'domains'), true);
+    assert.equal(isGroupAllowed(auth, 'servers'), false);
+  });
+});
+
+describe('hasFullAccess', () => {
+  it('is given to callers without auth info and callers with the * scope', () => {
+    const auth = { token: KEY, clientId: 'ci', scopes: ['servers'] };
+    assert.equal(hasFullAccess(undefined), true);
+    assert.equal(hasFullAccess(auth), false);
+    assert.equal(hasFullAccess({ ...auth, scopes: ['*'] }), true);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Response cache tests: cached endpoints, expiry, invalidation after changes and persistence to disk
+ */
+
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { ResponseCache } from '../src/cache.js';
+
+// A cache holding each path as its own value
+function cacheOf(paths: string[], cache = new ResponseCache()): ResponseCache {
+  for (const path of paths) {
+    cache.set(path, cache.endpointFor(path.split('?')[0]) ?? 'servers', path);
+  }
+  return cache;
+}
+
+function cachedPaths(cache: ResponseCache, paths: string[]): string[] {
+  return paths.filter(path => cache.get(path, 'servers') !== undefined);
+}
+
+describe('ResponseCache', () => {
+  it('caches only slow-changing endpoints', () => {
+    const cache = new ResponseCache();
+    assert.equal(cache.endpointFor('/regions'), 'regions');
+    assert.equal(cache.endpointFor('/images/ubuntu-24.04'), 'images');
+    assert.equal(cache.endpointFor('/domains/example.com/records'), 'domain_records');
+    assert.equal(cache.endpointFor('/servers/1'), 'servers');
+    assert.equal(cache.endpointFor('/servers'), undefined);
+    assert.equal(cache.endpointFor('/actions/900'), undefined);
+  });
+
+  it('caches nothing for endpoints with a TTL of 0, or when disabled', () => {
+    assert.equal(new ResponseCache({ ttls: { regions: 0 } }).endpointFor('/regions'), undefined);
+    assert.equal(new ResponseCache({ enabled: false }).endpointFor('/sizes'), undefined);
+  });
+
+  it('expires entries after their TTL', () => {
+    const cache = new ResponseCache({ ttls: { sizes: 1 } });
+    const now = Date.now();
+    cache.set('/sizes', 'sizes', ['std-min']);
+    assert.deepEqual(cache.get('/sizes', 'sizes'), ['std-min']);
+
+    const realNow = Date.now;
+    Date.now = () => now + 1001;
+    try {
+      assert.equal(cache.get('/sizes', 'sizes'), undefined);
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  it('counts hits and misses per endpoint', () => {
+    const cache = cacheOf(['/regions']);
+    cache.get('/regions', 'regions');
+    cache.get('/sizes', 'sizes');
+    const stats = cache.stats();
+    assert.equal(stats.entries, 1);
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.misses, 1);
+    assert.deepEqual(stats.endpoints.sizes, { hits: 0, misses: 1 });
+  });
+
+  it('drops the changed resource, everything under it and its collection', () => {
+    const paths = ['/servers/1', '/servers/1/backups', '/servers/2', '/regions'];
+    const cache = cacheOf(paths);
+    cache.invalidate('/servers/1');
+    assert.deepEqual(cachedPaths(cache, paths), ['/servers/2', '/regions']);
+    assert.equal(cache.stats().invalidations, 2);
+  });
+
+  it('drops every domain after any domain change, as domains are named by name or ID', () => {
+    const paths = ['/domains/example.com/records', '/domains/example.com/records?page=2', '/domains/other.com/records', '/domains/nameservers', '/regions'];
+    const cache = cacheOf(paths);
+    cache.invalidate('/domains/12/records/6');
+    assert.deepEqual(cachedPaths(cache, paths), ['/regions']);
+  });
+
+  it('discards a response fetched before its key was invalidated', () => {
+    const cache = new ResponseCache();
+    const stale = cache.generation('/servers/1');
+    cache.invalidate('/servers/1/actions');
+    cache.set('/servers/1', 'servers', 'stale', stale);
+    assert.equal(cache.get('/servers/1', 'servers'), undefined);
+
+    cache.set('/servers/1', 'servers', 'fresh', cache.generation('/servers/1'));
+    assert.equal(cache.get('/servers/1', 'servers'), 'fresh');
+
+    const beforeClear = cache.generation('/regions');
+    cache.clear();
+    cache.set('/regions', 'regions', 'stale', beforeClear);
+    assert.equal(cache.stats().entries, 0);
+  });
+
+  it('drops images after a server change, and servers after an image change', () => {
+    const paths = ['/servers/1', '/servers/2', '/images/42', '/sizes'];
+    const cache = cacheOf(paths);
+    cache.invalidate('/servers/1/actions');
+    assert.deepEqual(cachedPaths(cache, paths), ['/servers/2', '/sizes']);
+
+    cacheOf(['/images/42'], cache);
+    cache.invalidate('/images/42');
+    assert.deepEqual(cachedPaths(cache, paths), ['/sizes']);
+  });
+
+  it('clears every entry', () => {
+    const cache = cacheOf(['/regions', '/sizes']);
+    assert.equal(cache.clear(), 2);
+    assert.equal(cache.stats().entries, 0);
+  });
+
+  describe('on disk', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'binarylane-mcp-cache-'));
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('keeps unexpired entries across restarts', async () => {
+      const file = join(dir, 'nested', 'cache.json');
+      const cache = new ResponseCache({}, file);
+      cache.set('/regions', 'regions', [{ slug: 'syd' }]);
+      assert.ok(!existsSync(file));
+      await cache.flush();
+      assert.ok(existsSync(file));
+
+      const reloaded = new ResponseCache({}, file);
+      assert.deepEqual(reloaded.get('/regions', 'regions'), [{ slug: 'syd' }]);
+    });
+
+    it('starts empty without a cache file', () => {
+      assert.equal(new ResponseCache({}, join(dir, 'missing.json')).stats().entries, 0);
+    });
+  });
+});
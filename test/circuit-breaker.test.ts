@@ -0,0 +1,84 @@
+/**
+ * CircuitBreaker tests: opening after consecutive failures, failing fast, and the half-open probe
+ */
+
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { describe, it } from 'node:test';
+
+import { CircuitBreaker, CircuitOpenError } from '../src/circuit-breaker.js';
+
+// A breaker opened by failureThreshold consecutive failures
+function openBreaker(resetTimeout = 20): CircuitBreaker {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout });
+  for (let i = 0; i < 2; i++) {
+    breaker.acquire();
+    breaker.recordFailure();
+  }
+  return breaker;
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after failureThreshold consecutive failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    assert.equal(breaker.status().state, 'closed');
+
+    breaker.recordFailure();
+    assert.equal(breaker.status().state, 'open');
+    assert.equal(breaker.status().consecutive_failures, 3);
+  });
+
+  it('fails fast while open', () => {
+    const breaker = openBreaker(30000);
+    assert.throws(() => breaker.check(), (error: unknown) => error instanceof CircuitOpenError && error.retryInMs > 29000);
+    assert.throws(() => breaker.acquire(), CircuitOpenError);
+  });
+
+  it('lets one probe through after resetTimeout', async () => {
+    const breaker = openBreaker();
+    await sleep(30);
+
+    breaker.acquire();
+    assert.equal(breaker.status().state, 'half-open');
+    assert.throws(() => breaker.acquire(), CircuitOpenError);
+  });
+
+  it('closes when the probe succeeds', async () => {
+    const breaker = openBreaker();
+    await sleep(30);
+    breaker.acquire();
+    breaker.recordSuccess();
+
+    assert.deepEqual(breaker.status(), { state: 'closed', consecutive_failures: 0 });
+    breaker.acquire();
+  });
+
+  it('reopens when the probe fails', async () => {
+    const breaker = openBreaker();
+    await sleep(30);
+    breaker.acquire();
+    breaker.recordFailure();
+
+    assert.equal(breaker.status().state, 'open');
+    assert.throws(() => breaker.check(), CircuitOpenError);
+  });
+
+  it('frees the probe when its request never reached the API', async () => {
+    const breaker = openBreaker();
+    await sleep(30);
+    breaker.acquire();
+    breaker.release();
+    breaker.acquire();
+  });
+
+  it('never opens when disabled', () => {
+    const breaker = new CircuitBreaker({ enabled: false, failureThreshold: 1 });
+    breaker.recordFailure();
+    breaker.acquire();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Completion tests: argument sources, prefix matching, narrowing by region and caching
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { complete, getCompletionGroup, getCompletionSource } from '../src/completions.js';
+import { createClient, FakeApi } from './helpers.js';
+
+describe('getCompletionSource', () => {
+  it('finds sources for prompt and resource template arguments', () => {
+    assert.equal(getCompletionSource({ type: 'ref/prompt', name: 'audit_dns' }, 'domain'), 'domains');
+    assert.equal(getCompletionSource({ type: 'ref/resource', uri: 'binarylane://servers/{id}' }, 'id'), 'servers');
+    assert.equal(getCompletionSource({ type: 'ref/resource', uri: 'binarylane://vpcs/{id}' }, 'name'), undefined);
+    assert.equal(getCompletionSource({ type: 'ref/prompt', name: 'rotate_ssh_keys' }, 'new_key_name'), undefined);
+  });
+
+  it('needs the scope of the group each source reads from', () => {
+    assert.equal(getCompletionGroup('sizes'), 'regions');
+    assert.equal(getCompletionGroup('domains'), 'domains');
+  });
+});
+
+describe('complete', () => {
+  it('matches the prefix against values and names, ignoring case', async () => {
+    const api = new FakeApi().on('GET', '/regions', { body: { regions: [
+      { slug: 'syd', name: 'Sydney', available: true },
+      { slug: 'per', name: 'Perth', available: true },
+      { slug: 'sin', name: 'Singapore', available: false },
+    ] } });
+    const client = createClient(api);
+
+    assert.deepEqual(await complete(client, 'regions', 'S'), { values: ['syd'], total: 1, hasMore: false });
+    assert.deepEqual((await complete(client, 'regions', 'perth')).values, ['per']);
+    assert.deepEqual((await complete(client, 'regions', '')).values, ['syd', 'per']);
+  });
+
+  it('narrows sizes and images to the chosen region', async () => {
+    const api = new FakeApi().on('GET', '/sizes', { body: { sizes: [
+      { slug: 'std-min', available: true, regions: ['syd', 'per'] },
+      { slug: 'std-1vcpu', available: true, regions: ['per'] },
+    ] } });
+    assert.deepEqual((await complete(createClient(api), 'sizes', 'std', 'syd')).values, ['std-min']);
+  });
+
+  it('reuses list results for each client', async () => {
+    const api = new FakeApi().on('GET', '/servers', { body: { servers: [{ id: 12, name: 'web1' }, { id: 13, name: 'db1' }] } });
+    const client = createClient(api);
+
+    assert.deepEqual((await complete(client, 'servers', 'web')).values, ['12']);
+    assert.deepEqual((await complete(client, 'servers', '1')).values, ['12', '13']);
+    assert.equal(api.requests.length, 1);
+
+    await complete(createClient(api), 'servers', '');
+    assert.equal(api.requests.length, 2);
+  });
+
+  it('does not cache failures', async () => {
+    let fail = true;
+    const api = new FakeApi().on('GET', '/vpcs', () => fail
+      ? { status: 400, body: { detail: 'Bad Request' } }
+      : { body: { vpcs: [{ id: 3, name: 'private' }] } });
+    const client = createClient(api);
+
+    await assert.rejects(complete(client, 'vpcs', ''));
+    fail = false;
+    assert.deepEqual((await complete(client, 'vpcs', 'priv')).values, ['3']);
+  });
+
+  it('returns at most 100 values, reporting the total', async () => {
+    const domains = Array.from({ length: 120 }, (_, i) => ({ id: i, name: `site${i}.example.com` }));
+    const api = new FakeApi().on('GET', '/domains', { body: { domains } });
+    const result = await complete(createClient(api), 'domains', 'site');
+    assert.equal(result.values.length, 100);
+    assert.equal(result.total, 120);
+    assert.equal(result.hasMore, true);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Configuration tests: JSON and YAML files, environment and flag overlays, and validation errors
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { ConfigError, loadConfig } from '../src/config.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'binarylane-mcp-config-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function writeFile(name: string, contents: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, contents);
+  return path;
+}
+
+// Run loadConfig and return the ConfigError it throws
+function configError(sources: Parameters<typeof loadConfig>[0]): ConfigError {
+  try {
+    loadConfig(sources);
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error;
+  }
+  assert.fail('Expected a ConfigError');
+}
+
+describe('loadConfig', () => {
+  it('applies defaults when there is nothing to load', () => {
+    const config = loadConfig({ env: {}, flags: {} });
+    assert.deepEqual(config.transport, { type: 'stdio', host: '127.0.0.1', port: 3000, dnsRebindingProtection: true, sessionIdleTimeout: 1_800_000 });
+    assert.equal(config.safety.mode, 'full');
+    assert.equal(config.audit.enabled, true);
+    assert.equal(config.logging.level, 'info');
+  });
+
+  it('reads JSON files, and YAML files by their extension', () => {
+    const json = writeFile('config.json', JSON.stringify({ transport: { type: 'http', port: 8080 }, logging: { level: 'debug' } }));
+    const yaml = writeFile('config.yaml', 'transport:\n  type: http\n  port: 8080\nlogging:\n  level: debug\n');
+    for (const path of [json, yaml]) {
+      const config = loadConfig({ path, env: {}, flags: {} });
+      assert.equal(config.transport.type, 'http');
+      assert.equal(config.transport.port, 8080);
+      assert.equal(config.logging.level, 'debug');
+    }
+  });
+
+  it('lets environment variables override the file, and flags override both', () => {
+    const path = writeFile('overlay.json', JSON.stringify({ transport: { type: 'http', port: 8080 }, api: { cache: { enabled: false } } }));
+    const config = loadConfig({
+      path,
+      env: { BINARYLANE_MCP_PORT: '9000', BINARYLANE_MCP_CACHE: 'yes', BINARYLANE_MCP_MODE: 'read-only', BINARYLANE_MCP_DRY_RUN: 'true', BINARYLANE_MCP_TOOL_GROUPS: 'servers, regions' },
+      flags: { port: '9100', mode: 'no-destructive' },
+    });
+    assert.equal(config.transport.type, 'http');
+    assert.equal(config.transport.port, 9100);
+    assert.equal(config.api.cache?.enabled, true);
+    assert.equal(config.safety.mode, 'no-destructive');
+    assert.equal(config.safety.dryRun, true);
+    assert.deepEqual(config.tools.enabledGroups, ['servers', 'regions']);
+  });
+
+  it('reads whole sections from separate files', () => {
+    const accounts = writeFile('accounts.yml', `accounts:\n  prod:\n    tokenEnv: PROD_TOKEN\n`);
+    const policy = writeFile('policy.json', JSON.stringify({ rules: [{ name: 'keep', resource: 'server', match: { ids: [1] }, deny: ['*'] }] }));
+    const config = loadConfig({ env: { BINARYLANE_MCP_POLICY_CONFIG: policy }, flags: { 'accounts-config': accounts } });
+    assert.deepEqual(config.accounts?.accounts, { prod: { tokenEnv: 'PROD_TOKEN' } });
+    assert.deepEqual(config.policy?.rules.map(rule => rule.name), ['keep']);
+  });
+
+  it('names each invalid setting and where its value came from', () => {
+    const path = writeFile('invalid.json', JSON.stringify({ logging: { level: 'loud' }, tools: { enabledGroups: ['nope'] } }));
+    const error = configError({ path, env: { BINARYLANE_MCP_PORT: 'many' }, flags: {} });
+    assert.equal(error.message, `Invalid configuration in ${path}`);
+    assert.ok(error.issues.some(issue => issue.startsWith('transport.port (from environment variable BINARYLANE_MCP_PORT): ')));
+    assert.ok(error.issues.some(issue => issue.startsWith('logging.level: ')));
+    assert.ok(error.issues.some(issue => issue.includes('Unknown tool group "nope"')));
+  });
+
+  it('rejects unknown tools, and tools both allowed and denied', () => {
+    const path = writeFile('safety.json', JSON.stringify({ safety: { allowTools: ['delete_server', 'launch_rockets'], denyTools: ['delete_server'] } }));
+    const { issues } = configError({ path, env: {}, flags: {} });
+    assert.ok(issues.some(issue => issue.includes('Unknown tool "launch_rockets"')));
+    assert.ok(issues.some(issue => issue.includes('Tool "delete_server" is listed in both allowTools and denyTools')));
+  });
+
+  it('rejects unknown settings', () => {
+    const path = writeFile('unknown.json', JSON.stringify({ transport: { tls: true } }));
+    assert.match(configError({ path, env: {}, flags: {} }).issues.join('\n'), /tls/);
+  });
+
+  it('reports unreadable, malformed and non-object files', () => {
+    assert.match(configError({ path: join(dir, 'missing.json'), env: {}, flags: {} }).message, /^Cannot read config file/);
+    assert.match(configError({ path: writeFile('bad.json', '{'), env: {}, flags: {} }).message, /^Invalid JSON in config file/);
+    assert.match(configError({ path: writeFile('bad.yaml', 'a: [1'), env: {}, flags: {} }).message, /^Invalid YAML in config file/);
+    const list = configError({ path: writeFile('list.yaml', '- 1\n- 2\n'), env: {}, flags: {} });
+    assert.deepEqual(list.issues, ['The config file must contain an object of settings']);
+  });
+});
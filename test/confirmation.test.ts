@@ -0,0 +1,58 @@
+/**
+ * ConfirmationStore tests: tokens are single-use, short-lived and tied to one call
+ */
+
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { describe, it } from 'node:test';
+
+import { ConfirmationError, ConfirmationStore } from '../src/confirmation.js';
+
+const REQUEST = { tool: 'delete_server', account: 'default', caller: 'alice', args: { server_id: 1, reason: 'retired' } };
+
+describe('ConfirmationStore', () => {
+  it('redeems a token once', () => {
+    const store = new ConfirmationStore();
+    const { confirmation_token } = store.issue(REQUEST);
+
+    store.redeem(confirmation_token, REQUEST);
+    assert.throws(() => store.redeem(confirmation_token, REQUEST), /unknown, expired or already used/);
+  });
+
+  it('ignores the order of arguments', () => {
+    const store = new ConfirmationStore();
+    const { confirmation_token } = store.issue(REQUEST);
+    store.redeem(confirmation_token, { ...REQUEST, args: { reason: 'retired', server_id: 1 } });
+  });
+
+  it('refuses a token for a different tool, account, caller or arguments', () => {
+    const store = new ConfirmationStore();
+    for (const other of [
+      { ...REQUEST, tool: 'delete_vpc' },
+      { ...REQUEST, account: 'staging' },
+      { ...REQUEST, caller: 'bob' },
+      { ...REQUEST, caller: undefined },
+      { ...REQUEST, args: { server_id: 2, reason: 'retired' } },
+      { ...REQUEST, args: { server_id: 1 } },
+    ]) {
+      const { confirmation_token } = store.issue(REQUEST);
+      assert.throws(() => store.redeem(confirmation_token, other), (error: unknown) =>
+        error instanceof ConfirmationError && error.tool === other.tool);
+      // A mismatch does not use the token up
+      store.redeem(confirmation_token, REQUEST);
+    }
+  });
+
+  it('refuses a token after it expires', async () => {
+    const store = new ConfirmationStore(20);
+    const { confirmation_token, expires_at } = store.issue(REQUEST);
+    assert.ok(Date.parse(expires_at) > Date.now() - 1000);
+
+    await sleep(40);
+    assert.throws(() => store.redeem(confirmation_token, REQUEST), ConfirmationError);
+  });
+
+  it('refuses tokens it did not issue', () => {
+    assert.throws(() => new ConfirmationStore().redeem('made-up', REQUEST), ConfirmationError);
+  });
+});
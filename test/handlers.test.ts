@@ -0,0 +1,330 @@
+/**
+ * Handler integration tests: every tool handler is called against the fake API and must send the
+ * request the BinaryLane API expects for it
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+
+import { AuditLog } from '../src/audit-log.js';
+import { ConfirmationError } from '../src/confirmation.js';
+import { runDryRun } from '../src/dry-run.js';
+import { allHandlers } from '../src/handlers.js';
+import { allTools } from '../src/tools.js';
+import { createAccounts, createContext, FakeApi } from './helpers.js';
+
+const SERVER = {
+  id: 1,
+  name: 'web1',
+  status: 'active',
+  size_slug: 'std-min',
+  region: { slug: 'syd', name: 'Sydney' },
+  networks: { v4: [{ ip_address: '203.0.113.10', type: 'public' }], v6: [] },
+  disks: [{ id: 11, size_gigabytes: 20, description: 'Primary' }],
+};
+
+// An API holding one server, load balancer, VPC and domain, that accepts every change
+function fakeApi(): FakeApi {
+  return new FakeApi()
+    .on('GET', /.*/, { body: {} })
+    .on('POST', /.*/, { body: { action: { id: 900, status: 'in-progress', type: 'reboot' } } })
+    .on('PUT', /.*/, { body: {} })
+    .on('PATCH', /.*/, { body: {} })
+    .on('DELETE', /.*/, { status: 204 })
+    .on('GET', '/servers/1', { body: { server: SERVER } })
+    .on('GET', '/load_balancers/5', { body: { load_balancer: { id: 5, name: 'lb', ip: '203.0.113.5', status: 'active', server_ids: [1, 2] } } })
+    .on('GET', '/vpcs/3', { body: { vpc: { id: 3, name: 'private', ip_range: '10.240.0.0/16', route_entries: [] } } })
+    .on('GET', '/domains/example.com', { body: { domain: { id: 4, name: 'example.com', current_nameservers: ['ns1.binarylane.com.au'] } } })
+    .on('POST', '/servers', { body: { server: SERVER, links: { actions: [{ id: 900, rel: 'create' }] } } });
+}
+
+const RULE = { entry_protocol: 'http', entry_port: 80, target_protocol: 'http', target_port: 80 };
+
+// Arguments for each tool and the request it must send, or null for tools that do not call the API
+const CALLS: Record<string, { args: Record<string, unknown>; request: string | null }> = {
+  list_accounts: { args: {}, request: null },
+  get_account: { args: {}, request: 'GET /account' },
+  get_balance: { args: {}, request: 'GET /customers/my/balance' },
+  list_invoices: { args: {}, request: 'GET /customers/my/invoices' },
+  get_invoice: { args: { invoice_id: 7 }, request: 'GET /customers/my/invoices/7' },
+  get_unpaid_invoices: { args: {}, request: 'GET /customers/my/unpaid-payment-failed-invoices' },
+  proceed_action: { args: { action_id: 900, proceed: true }, request: 'POST /actions/900/proceed' },
+  list_servers: { args: {}, request: 'GET /servers' },
+  get_server: { args: { server_id: 1 }, request: 'GET /servers/1' },
+  create_server: { args: { size: 'std-min', image: 'ubuntu-24.04', region: 'syd', name: 'web2' }, request: 'POST /servers' },
+  delete_server: { args: { server_id: 1 }, request: 'DELETE /servers/1' },
+  server_action: { args: { server_id: 1, action_type: 'reboot' }, request: 'POST /servers/1/actions' },
+  list_server_actions: { args: { server_id: 1 }, request: 'GET /servers/1/actions' },
+  get_server_action: { args: { server_id: 1, action_id: 900 }, request: 'GET /servers/1/actions/900' },
+  get_server_backups: { args: { server_id: 1 }, request: 'GET /servers/1/backups' },
+  get_server_snapshots: { args: { server_id: 1 }, request: 'GET /servers/1/snapshots' },
+  upload_backup: { args: { server_id: 1, url: 'https://example.com/backup.img' }, request: 'POST /servers/1/backups' },
+  get_server_firewall: { args: { server_id: 1 }, request: 'GET /servers/1/advanced_firewall_rules' },
+  get_server_console: { args: { server_id: 1 }, request: 'GET /servers/1/console' },
+  get_data_usage: { args: { server_id: 1 }, request: 'GET /data_usages/1/current' },
+  list_all_data_usage: { args: {}, request: 'GET /data_usages/current' },
+  get_server_kernels: { args: { server_id: 1 }, request: 'GET /servers/1/kernels' },
+  get_server_features: { args: { server_id: 1 }, request: 'GET /servers/1/available_advanced_features' },
+  get_server_threshold_alerts: { args: { server_id: 1 }, request: 'GET /servers/1/threshold_alerts' },
+  list_exceeded_alerts: { args: {}, request: 'GET /servers/threshold_alerts' },
+  get_server_software: { args: { server_id: 1 }, request: 'GET /servers/1/software' },
+  get_server_user_data: { args: { server_id: 1 }, request: 'GET /servers/1/user_data' },
+  get_server_metrics: { args: { server_id: 1 }, request: 'GET /samplesets/1' },
+  get_server_latest_metrics: { args: { server_id: 1 }, request: 'GET /samplesets/1/latest' },
+  list_images: { args: {}, request: 'GET /images' },
+  get_image: { args: { image_id: 'ubuntu-24.04' }, request: 'GET /images/ubuntu-24.04' },
+  delete_image: { args: { image_id: '42' }, request: 'DELETE /images/42' },
+  update_image: { args: { image_id: 42, name: 'golden' }, request: 'PUT /images/42' },
+  get_image_download: { args: { image_id: 42 }, request: 'GET /images/42/download' },
+  list_ssh_keys: { args: {}, request: 'GET /account/keys' },
+  get_ssh_key: { args: { key_id: 8 }, request: 'GET /account/keys/8' },
+  create_ssh_key: { args: { name: 'laptop', public_key: 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIB laptop' }, request: 'POST /account/keys' },
+  update_ssh_key: { args: { key_id: 8, name: 'desktop' }, request: 'PUT /account/keys/8' },
+  delete_ssh_key: { args: { key_id: 8 }, request: 'DELETE /account/keys/8' },
+  list_domains: { args: {}, request: 'GET /domains' },
+  get_domain: { args: { domain_name: 'example.com' }, request: 'GET /domains/example.com' },
+  create_domain: { args: { name: 'example.org' }, request: 'POST /domains' },
+  delete_domain: { args: { domain_name: 'example.com' }, request: 'DELETE /domains/example.com' },
+  list_domain_records: { args: { domain_name: 'example.com' }, request: 'GET /domains/example.com/records' },
+  get_domain_record: { args: { domain_name: 'example.com', record_id: 6 }, request: 'GET /domains/example.com/records/6' },
+  create_domain_record: { args: { domain_name: 'example.com', type: 'A', name: 'www', data: '203.0.113.10' }, request: 'POST /domains/example.com/records' },
+  update_domain_record: { args: { domain_name: 'example.com', record_id: 6, data: '203.0.113.11' }, request: 'PUT /domains/example.com/records/6' },
+  delete_domain_record: { args: { domain_name: 'example.com', record_id: 6 }, request: 'DELETE /domains/example.com/records/6' },
+  list_nameservers: { args: {}, request: 'GET /domains/nameservers' },
+  refresh_nameserver_cache: { args: { domain_name: 'example.com' }, request: 'POST /domains/refresh_nameserver_cache' },
+  list_ipv6_reverse_names: { args: {}, request: 'GET /reverse_names/ipv6' },
+  update_ipv6_reverse: { args: { server_id: 1, ip_address: '2001:db8::1', reverse_name: 'web1.example.com' }, request: 'PUT /reverse_names/ipv6' },
+  list_vpcs: { args: {}, request: 'GET /vpcs' },
+  get_vpc: { args: { vpc_id: 3 }, request: 'GET /vpcs/3' },
+  create_vpc: { args: { name: 'private2' }, request: 'POST /vpcs' },
+  update_vpc: { args: { vpc_id: 3, name: 'renamed' }, request: 'PATCH /vpcs/3' },
+  delete_vpc: { args: { vpc_id: 3 }, request: 'DELETE /vpcs/3' },
+  get_vpc_members: { args: { vpc_id: 3 }, request: 'GET /vpcs/3/members' },
+  list_load_balancers: { args: {}, request: 'GET /load_balancers' },
+  get_load_balancer: { args: { load_balancer_id: 5 }, request: 'GET /load_balancers/5' },
+  create_load_balancer: { args: { name: 'lb2', forwarding_rules: [RULE] }, request: 'POST /load_balancers' },
+  update_load_balancer: { args: { load_balancer_id: 5, name: 'lb' }, request: 'PUT /load_balancers/5' },
+  delete_load_balancer: { args: { load_balancer_id: 5 }, request: 'DELETE /load_balancers/5' },
+  get_load_balancer_availability: { args: { region: 'syd' }, request: 'GET /load_balancers/availability' },
+  add_servers_to_load_balancer: { args: { load_balancer_id: 5, server_ids: [3] }, request: 'POST /load_balancers/5/servers' },
+  remove_servers_from_load_balancer: { args: { load_balancer_id: 5, server_ids: [2] }, request: 'DELETE /load_balancers/5/servers' },
+  add_forwarding_rules: { args: { load_balancer_id: 5, forwarding_rules: [RULE] }, request: 'POST /load_balancers/5/forwarding_rules' },
+  remove_forwarding_rules: { args: { load_balancer_id: 5, forwarding_rules: [RULE] }, request: 'DELETE /load_balancers/5/forwarding_rules' },
+  list_regions: { args: {}, request: 'GET /regions' },
+  list_sizes: { args: {}, request: 'GET /sizes' },
+  list_actions: { args: {}, request: 'GET /actions' },
+  get_action: { args: { action_id: 900 }, request: 'GET /actions/900' },
+  list_software: { args: {}, request: 'GET /software' },
+  get_software: { args: { software_id: 2 }, request: 'GET /software/2' },
+  list_software_for_os: { args: { operating_system_id: 'ubuntu' }, request: 'GET /software/operating_system/ubuntu' },
+  get_cache_stats: { args: {}, request: null },
+  clear_cache: { args: {}, request: null },
+  get_health: { args: {}, request: null },
+  query_audit_log: { args: {}, request: null },
+};
+
+// Tools whose handler asks for a confirmation token before making the change
+const CONFIRMED = ['delete_server', 'delete_domain', 'delete_vpc', 'remove_servers_from_load_balancer'];
+
+function setUp(tool: string) {
+  const api = fakeApi();
+  const accounts = createAccounts(api);
+  const audit = new AuditLog(join(mkdtempSync(join(tmpdir(), 'binarylane-mcp-')), 'audit.jsonl'));
+  const context = createContext(tool, accounts, { audit });
+  const { client } = accounts.resolve();
+  return { api, client, context };
+}
+
+describe('tool handlers', () => {
+  it('cover every tool, and every tool has a call below', () => {
+    assert.deepEqual(Object.keys(allHandlers).sort(), allTools.map(tool => tool.name).sort());
+    assert.deepEqual(Object.keys(CALLS).sort(), Object.keys(allHandlers).sort());
+  });
+
+  for (const [tool, { args, request }] of Object.entries(CALLS)) {
+    it(`${tool} ${request ? `sends ${request}` : 'answers without calling the API'}`, async () => {
+      const { api, client, context } = setUp(tool);
+      const handler = allHandlers[tool];
+
+      let result = await handler(client, args, context) as Record<string, unknown>;
+      if (CONFIRMED.includes(tool)) {
+        assert.equal(result.confirmation_required, true);
+        assert.ok(api.requests.every(({ method }) => method === 'GET'), 'the preview only reads');
+        result = await handler(client, { ...args, confirmation_token: result.confirmation_token }, context) as Record<string, unknown>;
+      }
+
+      assert.equal(result.success, true);
+      if (request === null) {
+        assert.deepEqual(api.sent, []);
+      } else {
+        assert.ok(api.sent.includes(request), `sent ${JSON.stringify(api.sent)}`);
+        assert.equal(api.requests.filter(({ method }) => method !== 'GET').length, request.startsWith('GET') ? 0 : 1);
+      }
+    });
+  }
+
+  it('send the token and JSON body with each change', async () => {
+    const { api, client, context } = setUp('create_domain_record');
+    await allHandlers.create_domain_record(client, CALLS.create_domain_record.args, context);
+
+    const [sent] = api.requests;
+    assert.equal(sent.headers.get('Authorization'), `Bearer ${'a'.repeat(64)}`);
+    assert.deepEqual(sent.body, { type: 'A', name: 'www', data: '203.0.113.10' });
+  });
+
+  it('send every page when all is set', async () => {
+    const { api, client, context } = setUp('list_servers');
+    api.on('GET', '/servers', ({ query }) => query.get('page') === '1'
+      ? { body: { servers: [{ id: 1 }], links: { pages: { next: '/servers?page=2' } } } }
+      : { body: { servers: [{ id: 2 }] } });
+
+    const result = await allHandlers.list_servers(client, { all: true }, context) as { data: { servers: unknown[]; truncated: boolean } };
+    assert.deepEqual(result.data, { servers: [{ id: 1 }, { id: 2 }], truncated: false });
+    assert.deepEqual(api.requests.map(({ query }) => query.get('page')), ['1', '2']);
+  });
+
+  it('map kernel_id onto the API\'s kernel parameter', async () => {
+    const { api, client, context } = setUp('server_action');
+    await allHandlers.server_action(client, { server_id: 1, action_type: 'change_kernel', kernel_id: 12 }, context);
+    assert.deepEqual(api.requests.at(-1)?.body, { type: 'change_kernel', kernel: 12 });
+  });
+
+  it('reject invalid arguments before calling the API', async () => {
+    const { api, client, context } = setUp('get_server');
+    await assert.rejects(allHandlers.get_server(client, { server_id: -1 }, context));
+    assert.deepEqual(api.sent, []);
+  });
+});
+
+describe('confirmation', () => {
+  it('previews what would be lost without changing anything', async () => {
+    const { api, client, context } = setUp('delete_server');
+    const result = await allHandlers.delete_server(client, { server_id: 1 }, context) as {
+      preview: { server: { name: string; ipv4_addresses: string[] } };
+    };
+    assert.equal(result.preview.server.name, 'web1');
+    assert.deepEqual(result.preview.server.ipv4_addresses, ['203.0.113.10']);
+    assert.ok(!api.sent.includes('DELETE /servers/1'));
+  });
+
+  it('refuses a token used twice or given with different arguments', async () => {
+    const { api, client, context } = setUp('delete_server');
+    const { confirmation_token } = await allHandlers.delete_server(client, { server_id: 1 }, context) as { confirmation_token: string };
+
+    await assert.rejects(allHandlers.delete_server(client, { server_id: 2, confirmation_token }, context), ConfirmationError);
+    await allHandlers.delete_server(client, { server_id: 1, confirmation_token }, context);
+    await assert.rejects(allHandlers.delete_server(client, { server_id: 1, confirmation_token }, context), ConfirmationError);
+    assert.equal(api.sent.filter(request => request === 'DELETE /servers/1').length, 1);
+  });
+
+  it('refuses a token issued for another account', async () => {
+    const { client, context } = setUp('delete_vpc');
+    const { confirmation_token } = await allHandlers.delete_vpc(client, { vpc_id: 3 }, context) as { confirmation_token: string };
+    await assert.rejects(
+      allHandlers.delete_vpc(client, { vpc_id: 3, confirmation_token }, { ...context, account: 'other' }),
+      ConfirmationError
+    );
+  });
+
+  it('warns when no backends would be left behind a load balancer', async () => {
+    const { client, context } = setUp('remove_servers_from_load_balancer');
+    const result = await allHandlers.remove_servers_from_load_balancer(client, { load_balancer_id: 5, server_ids: [1, 2] }, context) as {
+      preview: { remaining: number[]; warning?: string };
+    };
+    assert.deepEqual(result.preview.remaining, []);
+    assert.ok(result.preview.warning);
+  });
+});
+
+describe('waiting for actions', () => {
+  it('returns the action a change started once it completes', async () => {
+    const { api, client, context } = setUp('server_action');
+    const progress: number[] = [];
+    api.on('GET', '/actions/900', { body: { action: { id: 900, type: 'reboot', status: 'completed', progress: { percent_complete: 100 } } } });
+
+    const result = await allHandlers.server_action(client, { server_id: 1, action_type: 'reboot', wait: true }, {
+      ...context,
+      reportProgress: async percent => { progress.push(percent); },
+    }) as { data: { action: { status: string }; wait: { completed: boolean } } };
+    assert.equal(result.data.action.status, 'completed');
+    assert.equal(result.data.wait.completed, true);
+    assert.deepEqual(progress, [100]);
+  });
+
+  it('return at once without wait', async () => {
+    const { api, client, context } = setUp('server_action');
+    await allHandlers.server_action(client, { server_id: 1, action_type: 'reboot' }, context);
+    assert.ok(!api.sent.includes('GET /actions/900'), 'the action is not polled');
+  });
+});
+
+describe('dry runs', () => {
+  it('capture the change instead of sending it', async () => {
+    const { api, client, context } = setUp('server_action');
+    const result = await runDryRun(allHandlers.server_action, client, { server_id: 1, action_type: 'reboot' }, context);
+
+    assert.deepEqual(result.request, { method: 'POST', path: '/servers/1/actions', body: { type: 'reboot' } });
+    assert.deepEqual(result.resolved, [{ argument: 'server_id', value: 1, name: 'web1' }]);
+    assert.ok(api.requests.every(({ method }) => method === 'GET'));
+  });
+
+  it('skip confirmation, leaving nothing to redeem', async () => {
+    const { api, client, context } = setUp('delete_server');
+    const result = await runDryRun(allHandlers.delete_server, client, { server_id: 1 }, context);
+    assert.equal(result.request?.method, 'DELETE');
+    assert.ok(!api.sent.includes('DELETE /servers/1'));
+  });
+
+  it('report arguments naming resources that do not exist', async () => {
+    const { api, client, context } = setUp('server_action');
+    api.on('GET', '/servers/99', { status: 404, body: { detail: 'Server not found' } });
+    await assert.rejects(
+      runDryRun(allHandlers.server_action, client, { server_id: 99, action_type: 'reboot' }, context),
+      { name: 'DryRunError', message: /server_id: no server 99 exists/ }
+    );
+  });
+
+  it('look up images given as numeric strings by ID', async () => {
+    const { api, client, context } = setUp('create_server');
+    api
+      .on('GET', '/sizes', { body: { sizes: [{ slug: 'std-min' }] } })
+      .on('GET', '/regions', { body: { regions: [{ slug: 'syd', name: 'Sydney' }] } })
+      .on('GET', '/images/7', { body: { image: { id: 7, name: 'Ubuntu 24.04' } } });
+
+    const result = await runDryRun(allHandlers.create_server, client, { size: 'std-min', image: '7', region: 'syd' }, context);
+    assert.ok(result.resolved.some(({ argument, name }) => argument === 'image' && name === 'Ubuntu 24.04'));
+    assert.ok(api.sent.includes('GET /images/7'));
+  });
+});
+
+describe('query_audit_log', () => {
+  it('returns entries for the selected account, and entries without one', async () => {
+    const { client, context } = setUp('query_audit_log');
+    for (const account of ['default', 'staging', 'default', undefined]) {
+      context.audit?.record({ tool: 'delete_server', account, caller: 'stdio', arguments: { server_id: 1 }, outcome: 'denied' });
+    }
+
+    const result = await allHandlers.query_audit_log(client, {}, context) as { data: { total: number } };
+    assert.equal(result.data.total, 3);
+  });
+
+  it('shows callers without the * scope only their own entries', async () => {
+    const { client, context } = setUp('query_audit_log');
+    for (const caller of ['alice', 'bob', 'alice']) {
+      context.audit?.record({ tool: 'delete_server', account: 'default', caller, arguments: { server_id: 1 }, outcome: 'success' });
+    }
+
+    const own = await allHandlers.query_audit_log(client, {}, { ...context, caller: 'bob', fullAccess: false }) as { data: { total: number } };
+    const everyone = await allHandlers.query_audit_log(client, {}, context) as { data: { total: number } };
+    assert.equal(own.data.total, 1);
+    assert.equal(everyone.data.total, 3);
+  });
+
+  it('fails when the audit log is disabled', async () => {
+    const { client, context } = setUp('query_audit_log');
+    await assert.rejects(allHandlers.query_audit_log(client, {}, { ...context, audit: undefined }), /audit log is disabled/);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Test helpers for BinaryLane MCP Server
+ * A stand-in for the BinaryLane API behind the client's fetch option, and the per-call context handlers expect
+ */
+
+import { createServer } from 'node:net';
+
+import { AccountRegistry } from '../src/accounts.js';
+import { BinaryLaneClient, ClientConfig } from '../src/api-client.js';
+import { ConfirmationStore } from '../src/confirmation.js';
+import type { ToolContext } from '../src/handlers.js';
+import { setLogLevel } from '../src/logger.js';
+
+// Retries log warnings that would otherwise clutter the test output
+setLogLevel('error');
+
+export const BASE_URL = 'https://api.binarylane.test/v2';
+export const TOKEN = 'a'.repeat(64);
+
+// One request as the API received it
+export interface SentRequest {
+  method: string;
+  path: string;               // without the base URL or query string
+  query: URLSearchParams;
+  headers: Headers;
+  body?: unknown;
+}
+
+export interface Reply {
+  status?: number;            // default: 200
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// A reply, or a function building one; throwing simulates a network error
+export type Responder = Reply | ((request: SentRequest) => Reply | Promise<Reply>);
+
+interface Route {
+  method: string;
+  path: string | RegExp;
+  respond: Responder;
+}
+
+/**
+ * Answers the client's requests from routes, recording each one. The most recently added matching
+ * route answers; requests no route matches get a 404.
+ */
+export class FakeApi {
+  readonly requests: SentRequest[] = [];
+  private routes: Route[] = [];
+
+  /**
+   * Answer requests for a path. A string matches the path exactly, a RegExp anywhere;
+   * the method "*" matches every method.
+   */
+  on(method: string, path: string | RegExp, respond: Responder): this {
+    this.routes.unshift({ method, path, respond });
+    return this;
+  }
+
+  // "METHOD /path" for each request received, in order
+  get sent(): string[] {
+    return this.requests.map(({ method, path }) => `${method} ${path}`);
+  }
+
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = new URL(String(input));
+    if (!url.href.startsWith(BASE_URL)) {
+      throw new TypeError(`Unexpected URL ${url.href}`);
+    }
+    const request: SentRequest = {
+      method: init?.method ?? 'GET',
+      path: url.pathname.slice(new URL(BASE_URL).pathname.length),
+      query: url.searchParams,
+      headers: new Headers(init?.headers),
+      ...(typeof init?.body === 'string' && { body: JSON.parse(init.body) }),
+    };
+    this.requests.push(request);
+
+    const route = this.routes.find(({ method, path }) =>
+      (method === '*' || method === request.method)
+      && (typeof path === 'string' ? path === request.path : path.test(request.path)));
+    const reply = !route
+      ? { status: 404, body: { detail: `No route for ${request.method} ${request.path}` } }
+      : typeof route.respond === 'function' ? await route.respond(request) : route.respond;
+
+    const status = reply.status ?? 200;
+    return new Response(status === 204 ? null : JSON.stringify(reply.body ?? {}), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...reply.headers },
+    });
+  };
+}
+
+/**
+ * A client sending to the fake API, with retries that back off for milliseconds rather than seconds.
+ */
+export function createClient(api: FakeApi, config?: ClientConfig): BinaryLaneClient {
+  return new BinaryLaneClient(TOKEN, clientConfig(api, config));
+}
+
+export function clientConfig(api: FakeApi, config?: ClientConfig): ClientConfig {
+  return {
+    baseUrl: BASE_URL,
+    fetch: api.fetch,
+    responseValidation: 'off',
+    ...config,
+    retryConfig: { baseDelay: 1, maxDelay: 5, ...config?.retryConfig },
+  };
+}
+
+/**
+ * The context a handler receives for a call by an unauthenticated caller on the default account.
+ */
+export function createContext(tool: string, accounts: AccountRegistry, overrides?: Partial<ToolContext>): ToolContext {
+  return {
+    tool,
+    account: accounts.defaultAccount,
+    accounts,
+    fullAccess: true,
+    confirmations: new ConfirmationStore(),
+    dryRun: false,
+    signal: new AbortController().signal,
+    reportProgress: async () => undefined,
+    ...overrides,
+  };
+}
+
+export function createAccounts(api: FakeApi, config?: ClientConfig): AccountRegistry {
+  return new AccountRegistry([{ name: 'default', token: TOKEN }], undefined, clientConfig(api, config));
+}
+
+/**
+ * A TCP port on the loopback interface that nothing is listening on.
+ */
+export async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  return port;
+}
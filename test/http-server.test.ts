@@ -0,0 +1,241 @@
+/**
+ * HTTP transport tests: Streamable HTTP and legacy SSE sessions, each with its own Server
+ */
+
+import assert from 'node:assert/strict';
+import { request } from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { AuthConfigSchema, Authenticator } from '../src/auth.js';
+import { startHttpServer } from '../src/http-server.js';
+import { freePort } from './helpers.js';
+
+// A server with one tool, counting how many were created and closed
+function serverFactory() {
+  const factory = () => {
+    factory.created++;
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'ping', inputSchema: { type: 'object' as const } }],
+    }));
+    server.onclose = () => factory.closed++;
+    return server;
+  };
+  factory.created = 0;
+  factory.closed = 0;
+  return factory;
+}
+
+// Status of a GET with the given headers; node:http, as fetch may not send Host as given
+function statusOf(url: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    request(url, { headers }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    }).on('error', reject).end();
+  });
+}
+
+describe('startHttpServer', () => {
+  const factory = serverFactory();
+  let baseUrl: string;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    close = await startHttpServer(factory, { host: '127.0.0.1', port });
+  });
+
+  after(() => close());
+
+  it('serves Streamable HTTP sessions at /mcp', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await client.connect(transport);
+
+    const { tools } = await client.listTools();
+    assert.deepEqual(tools.map(tool => tool.name), ['ping']);
+    assert.ok(transport.sessionId);
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it('serves legacy SSE sessions at /sse', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    const { tools } = await client.listTools();
+    assert.deepEqual(tools.map(tool => tool.name), ['ping']);
+    await client.close();
+  });
+
+  it('creates a Server for each session', async () => {
+    const created = factory.created;
+    const clients = [new Client({ name: 'a', version: '1.0.0' }), new Client({ name: 'b', version: '1.0.0' })];
+    for (const client of clients) {
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    }
+    assert.equal(factory.created, created + 2);
+    await Promise.all(clients.map(client => client.close()));
+  });
+
+  it('rejects requests without a session that do not initialize one', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 400);
+  });
+
+  it('rejects unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', 'Mcp-Session-Id': 'nope' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 404);
+    assert.equal((await fetch(`${baseUrl}/messages?sessionId=nope`, { method: 'POST', body: '{}' })).status, 404);
+  });
+
+  it('rejects malformed JSON and unknown paths', async () => {
+    const malformed = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+    assert.equal(malformed.status, 400);
+    assert.equal((await fetch(`${baseUrl}/other`)).status, 404);
+  });
+});
+
+describe('startHttpServer with authentication', () => {
+  const authenticator = new Authenticator(AuthConfigSchema.parse({
+    apiKeys: [
+      { id: 'alice', key: 'a'.repeat(32), scopes: ['*'] },
+      { id: 'bob', key: 'b'.repeat(32), scopes: ['*'] },
+    ],
+  }));
+  let baseUrl: string;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    close = await startHttpServer(serverFactory(), { host: '127.0.0.1', port, authenticate: req => authenticator.authenticate(req.headers) });
+  });
+
+  after(() => close());
+
+  function connect(key: string) {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${key}` } },
+    });
+    return { client, transport, connected: client.connect(transport) };
+  }
+
+  it('refuses requests without valid credentials', async () => {
+    for (const path of ['/mcp', '/sse']) {
+      const response = await fetch(`${baseUrl}${path}`, { headers: { Authorization: `Bearer ${'x'.repeat(32)}` } });
+      assert.equal(response.status, 401);
+      assert.match(response.headers.get('WWW-Authenticate') ?? '', /^Bearer/);
+    }
+  });
+
+  it('serves callers with a valid key', async () => {
+    const { client, connected } = connect('a'.repeat(32));
+    await connected;
+    assert.equal((await client.listTools()).tools.length, 1);
+    await client.close();
+  });
+
+  it('hides a session from other callers', async () => {
+    const { client, transport, connected } = connect('a'.repeat(32));
+    await connected;
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${'b'.repeat(32)}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        'Mcp-Session-Id': transport.sessionId as string,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 404);
+    await client.close();
+  });
+});
+
+describe('startHttpServer with allowed hosts', () => {
+  let baseUrl: string;
+  let port: number;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    close = await startHttpServer(serverFactory(), {
+      host: '127.0.0.1',
+      port,
+      allowedHosts: ['127.0.0.1', 'localhost', '::1'],
+      allowedOrigins: ['https://agents.example.com'],
+    });
+  });
+
+  after(() => close());
+
+  it('serves clients on an allowed host', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    assert.equal((await client.listTools()).tools.length, 1);
+    await client.close();
+  });
+
+  it('refuses requests naming another host, as after DNS rebinding', async () => {
+    assert.equal(await statusOf(`${baseUrl}/sse`, { Host: `attacker.example:${port}` }), 403);
+    assert.equal(await statusOf(`${baseUrl}/other`, { Host: `[::1]:${port}` }), 404);
+  });
+
+  it('refuses requests from other origins', async () => {
+    for (const origin of ['https://attacker.example', 'null', 'not a url']) {
+      assert.equal(await statusOf(`${baseUrl}/sse`, { Origin: origin }), 403, origin);
+    }
+    assert.equal(await statusOf(`${baseUrl}/other`, { Origin: `http://localhost:${port}` }), 404);
+    assert.equal(await statusOf(`${baseUrl}/other`, { Origin: 'https://agents.example.com' }), 404);
+  });
+});
+
+describe('startHttpServer with an idle timeout', () => {
+  const factory = serverFactory();
+  let baseUrl: string;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    close = await startHttpServer(factory, { host: '127.0.0.1', port, sessionIdleTimeout: 50 });
+  });
+
+  after(() => close());
+
+  it('closes sessions, and their Servers, after the timeout without requests', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await client.connect(transport);
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    assert.equal(factory.closed, 1);
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', 'Mcp-Session-Id': transport.sessionId as string },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 404);
+    await client.close();
+  });
+});
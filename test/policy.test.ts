@@ -0,0 +1,97 @@
+/**
+ * Protected-resource policy tests: rule validation, and matching calls by ID, name pattern, region and account
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { describeTarget, PolicyConfigSchema, PolicyDeniedError, PolicyEngine } from '../src/policy.js';
+import { createClient, FakeApi } from './helpers.js';
+
+function engine(rules: unknown[]): PolicyEngine {
+  return new PolicyEngine(PolicyConfigSchema.parse({ rules }));
+}
+
+function fakeApi(): FakeApi {
+  return new FakeApi()
+    .on('GET', '/servers/1', { body: { server: { id: 1, name: 'db-prod-1', region: { slug: 'syd' } } } })
+    .on('GET', '/servers/2', { body: { server: { id: 2, name: 'web-staging', region: { slug: 'mel' } } } })
+    .on('GET', '/vpcs/3', { body: { vpc: { id: 3, name: 'core' } } });
+}
+
+describe('PolicyConfigSchema', () => {
+  it('needs something to match and an operation to deny or confirm', () => {
+    assert.ok(!PolicyConfigSchema.safeParse({ rules: [{ name: 'a', resource: 'server', match: {}, deny: ['*'] }] }).success);
+    assert.ok(!PolicyConfigSchema.safeParse({ rules: [{ name: 'a', resource: 'server', match: { ids: [1] } }] }).success);
+    assert.ok(PolicyConfigSchema.safeParse({ rules: [{ name: 'a', resource: 'server', match: { ids: [1] }, confirm: ['reboot'] }] }).success);
+  });
+
+  it('rejects unknown operations, and matches that do not suit the resource', () => {
+    const rule = { name: 'a', resource: 'server', match: { ids: [1] } };
+    assert.match(JSON.stringify(PolicyConfigSchema.safeParse({ rules: [{ ...rule, deny: ['explode'] }] }).error?.issues),
+      /Unknown operation \\"explode\\"/);
+    assert.ok(!PolicyConfigSchema.safeParse({ rules: [{ ...rule, resource: 'vpc', match: { regions: ['syd'] }, deny: ['*'] }] }).success);
+    assert.ok(!PolicyConfigSchema.safeParse({ rules: [{ ...rule, resource: 'domain', deny: ['*'] }] }).success);
+  });
+});
+
+describe('PolicyEngine', () => {
+  it('matches servers by ID without looking them up', async () => {
+    const api = fakeApi();
+    const policy = engine([{ name: 'keep', resource: 'server', match: { ids: [1] }, deny: ['delete_server'] }]);
+
+    const decision = await policy.evaluate('delete_server', { server_id: 1 }, 'default', createClient(api));
+    assert.equal(decision?.effect, 'deny');
+    assert.equal(await policy.evaluate('delete_server', { server_id: 2 }, 'default', createClient(api)), undefined);
+    assert.deepEqual(api.sent, []);
+  });
+
+  it('matches name patterns and regions from the API', async () => {
+    const policy = engine([
+      { name: 'production', resource: 'server', match: { names: ['*-PROD-?'] }, deny: ['*'] },
+      { name: 'sydney', resource: 'server', match: { regions: ['mel'] }, confirm: ['reboot'] },
+    ]);
+    const client = createClient(fakeApi());
+
+    assert.equal((await policy.evaluate('server_action', { server_id: 1, action_type: 'reboot' }, 'default', client))?.rule.name, 'production');
+    const decision = await policy.evaluate('server_action', { server_id: 2, action_type: 'reboot' }, 'default', client);
+    assert.equal(decision?.effect, 'confirm');
+    assert.equal(decision?.operation, 'reboot');
+    assert.equal(await policy.evaluate('server_action', { server_id: 2, action_type: 'power_off' }, 'default', client), undefined);
+  });
+
+  it('prefers a denial to a confirmation', async () => {
+    const policy = engine([
+      { name: 'careful', resource: 'vpc', match: { ids: [3] }, confirm: ['delete_vpc'] },
+      { name: 'never', resource: 'vpc', match: { names: ['core'] }, deny: ['delete_vpc'] },
+    ]);
+    const decision = await policy.evaluate('delete_vpc', { vpc_id: 3 }, 'default', createClient(fakeApi()));
+    assert.equal(decision?.rule.name, 'never');
+    assert.equal(describeTarget(decision!.target), 'VPC 3 (core)');
+  });
+
+  it('leaves reads alone under "*", and applies rules only to their accounts', async () => {
+    const policy = engine([{ name: 'prod', resource: 'server', accounts: ['prod'], match: { ids: [1] }, deny: ['*'] }]);
+    const client = createClient(fakeApi());
+
+    assert.equal(await policy.evaluate('get_server', { server_id: 1 }, 'prod', client), undefined);
+    assert.equal(await policy.evaluate('delete_server', { server_id: 1 }, 'staging', client), undefined);
+    assert.equal((await policy.evaluate('delete_server', { server_id: 1 }, 'prod', client))?.effect, 'deny');
+  });
+
+  it('checks every server a call names', async () => {
+    const policy = engine([{ name: 'keep', resource: 'server', match: { ids: [2] }, deny: ['remove_servers_from_load_balancer'] }]);
+    const decision = await policy.evaluate('remove_servers_from_load_balancer', { load_balancer_id: 5, server_ids: [1, 2] }, 'default', createClient(fakeApi()));
+    assert.deepEqual(decision?.target, { resource: 'server', id: 2 });
+  });
+});
+
+describe('PolicyDeniedError', () => {
+  it('names the rule, the operation and the resource, with the reason', () => {
+    const [rule] = PolicyConfigSchema.parse({
+      rules: [{ name: 'dns', resource: 'domain', match: { names: ['example.com'] }, deny: ['*'], reason: 'Ask the DNS team' }],
+    }).rules;
+    const error = new PolicyDeniedError({ effect: 'deny', rule, operation: 'delete_domain', target: { resource: 'domain', name: 'example.com' } });
+    assert.equal(error.message, 'Denied by policy "dns": delete_domain is not allowed on domain example.com. Ask the DNS team');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Prompt tests: listing by available tool groups, argument validation and rendering with live data
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { getPromptGroups, listPrompts, renderPrompt } from '../src/prompts.js';
+import { createClient, FakeApi } from './helpers.js';
+
+function text(result: Awaited<ReturnType<typeof renderPrompt>>): string {
+  const [{ content }] = result.messages;
+  assert.equal(content.type, 'text');
+  return content.text as string;
+}
+
+describe('listPrompts', () => {
+  it('lists only prompts whose tool groups are all available', () => {
+    assert.deepEqual(listPrompts(() => true).map(prompt => prompt.name),
+      ['provision_web_server', 'rotate_ssh_keys', 'audit_dns', 'investigate_threshold_alerts']);
+    assert.deepEqual(listPrompts(group => group === 'servers').map(prompt => prompt.name), ['investigate_threshold_alerts']);
+  });
+
+  it('describes each argument and accepts an account', () => {
+    const [provision] = listPrompts(() => true);
+    assert.deepEqual(provision.arguments?.map(({ name, required }) => [name, required]),
+      [['name', true], ['region', false], ['size', false], ['image', false], ['account', false]]);
+  });
+
+  it('knows the groups each prompt needs', () => {
+    assert.deepEqual(getPromptGroups('audit_dns'), ['domains', 'servers']);
+    assert.equal(getPromptGroups('nope'), undefined);
+  });
+});
+
+describe('renderPrompt', () => {
+  it('renders a playbook from the account\'s live data', async () => {
+    const api = new FakeApi()
+      .on('GET', '/domains/example.com', { body: { domain: { id: 4, name: 'example.com', current_nameservers: ['ns1.binarylane.com.au'] } } })
+      .on('GET', '/domains/example.com/records', { body: { domain_records: [
+        { id: 6, type: 'A', name: 'www', data: '203.0.113.10', ttl: 3600 },
+        { id: 7, type: 'A', name: 'old', data: '198.51.100.1', ttl: 3600 },
+      ] } })
+      .on('GET', '/servers', { body: { servers: [{ id: 1, name: 'web1', networks: { v4: [{ ip_address: '203.0.113.10', type: 'public' }], v6: [] } }] } });
+
+    const result = text(await renderPrompt(createClient(api), 'audit_dns', { domain: 'example.com' }));
+    assert.match(result, /Current nameservers: ns1\.binarylane\.com\.au/);
+    assert.match(result, /not owned by any server in this account:\n- A old -> 198\.51\.100\.1\n\n/);
+  });
+
+  it('names the action_type argument in server_action steps', async () => {
+    const api = new FakeApi().on('GET', '/servers/threshold_alerts', { body: { current_server_alerts: [
+      { server_id: 1, alert_type: 'cpu', value: 80, current_value: 97 },
+    ] } });
+
+    const result = text(await renderPrompt(createClient(api), 'investigate_threshold_alerts', {}));
+    assert.match(result, /server 1: cpu is 97 \(threshold 80\)/);
+    assert.match(result, /server_action action_type "resize"/);
+  });
+
+  it('validates arguments before calling the API', async () => {
+    const api = new FakeApi();
+    await assert.rejects(renderPrompt(createClient(api), 'investigate_threshold_alerts', { server_id: 'web1' }), /numeric server ID/);
+    await assert.rejects(renderPrompt(createClient(api), 'audit_dns', {}), { name: 'ZodError' });
+    assert.deepEqual(api.sent, []);
+  });
+
+  it('rejects unknown prompts', async () => {
+    await assert.rejects(renderPrompt(createClient(new FakeApi()), 'nope', {}), /Unknown prompt: nope/);
+  });
+});
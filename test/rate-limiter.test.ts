@@ -0,0 +1,95 @@
+/**
+ * RateLimiter tests: concurrency slots, priority order and pauses requested by the API
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { RateLimiter, RequestPriority } from '../src/rate-limiter.js';
+
+const cancelled = () => new Error('cancelled');
+
+// Resolves once pending grants and timers have had a chance to run
+function settle(ms = 5): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('RateLimiter', () => {
+  it('holds requests beyond maxConcurrent until a slot is released', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, requestsPerSecond: 1000 });
+    await limiter.acquire('read', undefined, cancelled);
+
+    let granted = false;
+    const waiting = limiter.acquire('read', undefined, cancelled).then(() => { granted = true; });
+    await settle();
+    assert.equal(granted, false);
+
+    limiter.release();
+    await waiting;
+    assert.equal(limiter.stats().active, 1);
+  });
+
+  it('lets a retry that already holds a slot through', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, requestsPerSecond: 1000 });
+    await limiter.acquire('write', undefined, cancelled);
+    await limiter.acquire('write', undefined, cancelled, true);
+    assert.equal(limiter.stats().active, 1);
+  });
+
+  it('serves changes, then reads, then bulk reads', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, requestsPerSecond: 1000 });
+    await limiter.acquire('read', undefined, cancelled);
+
+    const order: RequestPriority[] = [];
+    const waiting = (['bulk', 'read', 'write'] as const).map(priority =>
+      limiter.acquire(priority, undefined, cancelled).then(() => { order.push(priority); }));
+    for (let i = 0; i < 3; i++) {
+      limiter.release();
+      await settle();
+    }
+    await Promise.all(waiting);
+    assert.deepEqual(order, ['write', 'read', 'bulk']);
+  });
+
+  it('spends tokens and waits for them to refill', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 10, requestsPerSecond: 50, burst: 2 });
+    const started = Date.now();
+    for (let i = 0; i < 4; i++) {
+      await limiter.acquire('read', undefined, cancelled);
+    }
+    // Two tokens in the bucket, then one every 20ms
+    assert.ok(Date.now() - started >= 30);
+  });
+
+  it('pauses when the API answers 429 with Retry-After', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000 });
+    limiter.update(new Response(null, { status: 429, headers: { 'Retry-After': '1' } }));
+    assert.ok(limiter.stats().paused_until);
+
+    let granted = false;
+    const waiting = limiter.acquire('write', undefined, cancelled).then(() => { granted = true; });
+    await settle(200);
+    assert.equal(granted, false);
+    await waiting;
+  });
+
+  it('slows down to the rate the API reports remaining', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10 });
+    limiter.update(new Response(null, { status: 200, headers: { 'RateLimit-Remaining': '30', 'RateLimit-Reset': '60' } }));
+    assert.equal(limiter.stats().requests_per_second, 0.5);
+
+    limiter.update(new Response(null, { status: 200 }));
+    assert.equal(limiter.stats().requests_per_second, 10);
+  });
+
+  it('drops a cancelled waiter from the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, requestsPerSecond: 1000 });
+    await limiter.acquire('read', undefined, cancelled);
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire('bulk', controller.signal, cancelled);
+    controller.abort();
+    await assert.rejects(waiting, /cancelled/);
+    assert.equal(limiter.stats().queues.bulk.queued, 0);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Resource tests: URI matching, reading through the client, listing by scope and watched fields
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { listResources, matchResource, resourceTemplates } from '../src/resources.js';
+import { createClient, FakeApi } from './helpers.js';
+
+describe('matchResource', () => {
+  it('matches each template and captures its variables', () => {
+    assert.deepEqual(matchResource('binarylane://servers/12')?.params, ['12']);
+    assert.equal(matchResource('binarylane://servers/12')?.group, 'servers');
+    assert.deepEqual(matchResource('binarylane://domains/example.com/zone')?.params, ['example.com']);
+    assert.equal(matchResource('binarylane://load-balancers/5/')?.group, 'load_balancers');
+    assert.deepEqual(matchResource('binarylane://account')?.params, []);
+  });
+
+  it('reads the account from the query string', () => {
+    assert.equal(matchResource('binarylane://vpcs/3?account=prod')?.account, 'prod');
+    assert.equal(matchResource('binarylane://vpcs/3')?.account, undefined);
+  });
+
+  it('ignores other schemes, unknown paths and malformed URIs', () => {
+    assert.equal(matchResource('https://servers/12'), undefined);
+    assert.equal(matchResource('binarylane://servers/12/disks'), undefined);
+    assert.equal(matchResource('not a uri'), undefined);
+  });
+
+  it('offers templates only for resources with variables', () => {
+    assert.deepEqual(resourceTemplates.map(template => template.name), ['server', 'action', 'domain-zone', 'vpc', 'load-balancer']);
+  });
+});
+
+describe('reading resources', () => {
+  it('returns the resource the API describes', async () => {
+    const api = new FakeApi().on('GET', '/domains/example.com', { body: { domain: { id: 4, name: 'example.com' } } });
+    const match = matchResource('binarylane://domains/example.com/zone');
+    assert.deepEqual(await match?.read(createClient(api), match.params), { id: 4, name: 'example.com' });
+  });
+
+  it('rejects IDs that are not positive integers before calling the API', async () => {
+    const api = new FakeApi();
+    const match = matchResource('binarylane://servers/abc');
+    await assert.rejects(match!.read(createClient(api), match!.params), /Invalid ID "abc"/);
+    assert.deepEqual(api.sent, []);
+  });
+});
+
+describe('watched fields', () => {
+  it('watch only what subscribers care about', () => {
+    const server = matchResource('binarylane://servers/1')!;
+    const before = { id: 1, status: 'active', networks: {}, disks: [], memory: 1024 };
+    assert.deepEqual(server.watch(before), server.watch({ ...before, memory: 2048 }));
+    assert.notDeepEqual(server.watch(before), server.watch({ ...before, status: 'off' }));
+  });
+
+  it('stop polling actions once they leave in-progress', () => {
+    const action = matchResource('binarylane://actions/900')!;
+    assert.equal(action.isFinal({ status: 'in-progress' }), false);
+    assert.equal(action.isFinal({ status: 'completed' }), true);
+    assert.equal(matchResource('binarylane://vpcs/3')!.isFinal({}), false);
+  });
+});
+
+describe('listResources', () => {
+  const api = new FakeApi()
+    .on('GET', '/servers', { body: { servers: [{ id: 1, name: 'web1' }] } })
+    .on('GET', '/domains', { body: { domains: [{ id: 4, name: 'example.com' }] } })
+    .on('GET', '/vpcs', { body: { vpcs: [{ id: 3, name: 'private' }] } })
+    .on('GET', '/load_balancers', { body: { load_balancers: [{ id: 5, name: 'lb' }] } });
+
+  it('lists the account and every server, zone, VPC and load balancer', async () => {
+    const resources = await listResources(createClient(api), () => true);
+    assert.deepEqual(resources.map(resource => resource.uri), [
+      'binarylane://account',
+      'binarylane://servers/1',
+      'binarylane://domains/example.com/zone',
+      'binarylane://vpcs/3',
+      'binarylane://load-balancers/5',
+    ]);
+  });
+
+  it('leaves out groups the caller has no scope for, without asking the API', async () => {
+    api.requests.length = 0;
+    const resources = await listResources(createClient(api), group => group === 'servers');
+    assert.deepEqual(resources.map(resource => resource.uri), ['binarylane://servers/1']);
+    assert.deepEqual(api.sent, ['GET /servers']);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Response schema tests: matching responses, reported mismatches and their descriptions
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { describeIssues, validateResponse } from '../src/response-schemas.js';
+
+const ACTION = { id: 900, status: 'completed', type: 'reboot', started_at: '2026-01-01T00:00:00Z' };
+
+describe('validateResponse', () => {
+  it('accepts responses of the expected shape, including nulls for unset values and extra properties', () => {
+    assert.deepEqual(validateResponse('getAction', { action: { ...ACTION, completed_at: null, extra: true } }), []);
+    assert.deepEqual(validateResponse('listActions', { actions: [ACTION], links: null, meta: { total: 1 } }), []);
+  });
+
+  it('reports where each mismatch is', () => {
+    const issues = validateResponse('listActions', { actions: [ACTION, { ...ACTION, id: '901' }] });
+    assert.deepEqual(issues.map(issue => issue.path), ['actions[1].id']);
+    assert.deepEqual(validateResponse('getAction', {}).map(issue => issue.path), ['action']);
+  });
+
+  it('accepts anything for methods without a schema', () => {
+    assert.deepEqual(validateResponse('deleteServer', 'anything'), []);
+    assert.deepEqual(validateResponse(undefined, null), []);
+  });
+});
+
+describe('describeIssues', () => {
+  it('lists the first five issues and counts the rest', () => {
+    const issues = Array.from({ length: 7 }, (_, i) => ({ path: `servers[${i}].id`, message: 'Required' }));
+    assert.equal(describeIssues(issues.slice(0, 1)), 'servers[0].id: Required');
+    assert.match(describeIssues(issues), /servers\[4\]\.id: Required; and 2 more$/);
+    assert.equal(describeIssues([{ path: '', message: 'Expected object' }]), '(root): Expected object');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Operating mode tests: which tools each mode withholds, and the allow and deny lists
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { getToolRestriction } from '../src/safety.js';
+import { allTools } from '../src/tools.js';
+
+function tool(name: string) {
+  const found = allTools.find(candidate => candidate.name === name);
+  assert.ok(found, `no tool named ${name}`);
+  return found;
+}
+
+describe('getToolRestriction', () => {
+  it('exposes every tool in full mode', () => {
+    assert.ok(allTools.every(candidate => getToolRestriction({ mode: 'full' }, candidate) === undefined));
+  });
+
+  it('withholds tools that make changes in read-only mode', () => {
+    assert.equal(getToolRestriction({ mode: 'read-only' }, tool('list_servers')), undefined);
+    assert.equal(getToolRestriction({ mode: 'read-only' }, tool('create_server')),
+      'create_server makes changes, and the server is running in read-only mode');
+  });
+
+  it('withholds only destructive tools in no-destructive mode', () => {
+    assert.equal(getToolRestriction({ mode: 'no-destructive' }, tool('create_server')), undefined);
+    assert.equal(getToolRestriction({ mode: 'no-destructive' }, tool('delete_server')),
+      'delete_server is destructive, and the server is running in no-destructive mode');
+  });
+
+  it('exposes allowed tools whatever the mode, and never denied ones', () => {
+    assert.equal(getToolRestriction({ mode: 'read-only', allowTools: ['delete_server'] }, tool('delete_server')), undefined);
+    assert.equal(getToolRestriction({ mode: 'full', denyTools: ['list_servers'] }, tool('list_servers')),
+      'list_servers is listed in safety.denyTools');
+  });
+});
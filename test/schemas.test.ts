@@ -0,0 +1,57 @@
+/**
+ * Argument schema tests: server_action parameters checked against the action type that needs them
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ZodError } from 'zod';
+
+import { ServerActionSchema } from '../src/schemas.js';
+
+// The issues a parse reports, as "path: message"
+function issues(args: Record<string, unknown>): string[] {
+  const result = ServerActionSchema.safeParse({ server_id: 1, ...args });
+  assert.ok(!result.success, 'expected the arguments to be rejected');
+  return result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+}
+
+describe('ServerActionSchema', () => {
+  it('accepts actions without parameters, and keeps only what the action takes', () => {
+    assert.deepEqual(ServerActionSchema.parse({ server_id: 1, action_type: 'reboot', size: 'std-min' }), { server_id: 1, action_type: 'reboot' });
+    assert.deepEqual(ServerActionSchema.parse({ server_id: 1, action_type: 'resize', size: 'std-1vcpu' }), { server_id: 1, action_type: 'resize', size: 'std-1vcpu' });
+  });
+
+  it('reports a missing parameter against the action that needs it', () => {
+    assert.deepEqual(issues({ action_type: 'rebuild' }), ['image: Required for rebuild']);
+    assert.deepEqual(issues({ action_type: 'resize_disk', disk_id: 11 }), ['size_gigabytes: Required for resize_disk']);
+    assert.deepEqual(issues({ action_type: 'change_port_blocking' }), ['enabled: Required for change_port_blocking']);
+  });
+
+  it('requires a backup type, or the backup to replace, for take_backup', () => {
+    assert.deepEqual(issues({ action_type: 'take_backup', replacement_strategy: 'oldest' }),
+      ['backup_type: Required for take_backup unless replacement_strategy is "specified"']);
+    assert.deepEqual(issues({ action_type: 'take_backup', replacement_strategy: 'specified' }),
+      ['backup_id_to_replace: Required for take_backup when replacement_strategy is "specified"']);
+    assert.ok(ServerActionSchema.safeParse({ server_id: 1, action_type: 'take_backup', replacement_strategy: 'specified', backup_id_to_replace: 4 }).success);
+  });
+
+  it('rejects unknown action types and invalid parameters', () => {
+    assert.match(issues({ action_type: 'explode' })[0], /^action_type: Invalid discriminator value/);
+    assert.deepEqual(issues({ action_type: 'add_disk', size_gigabytes: 10 }), ['size_gigabytes: Number must be greater than or equal to 20']);
+    assert.throws(() => ServerActionSchema.parse({ action_type: 'reboot' }), ZodError);
+  });
+
+  it('needs at least one schedule setting for change_backup_schedule, and -1 or a valid day', () => {
+    assert.deepEqual(issues({ action_type: 'change_backup_schedule' }),
+      ['backup_hour_of_day: change_backup_schedule needs at least one of backup_hour_of_day, backup_day_of_week or backup_day_of_month']);
+    assert.deepEqual(issues({ action_type: 'change_backup_schedule', backup_day_of_month: 0 }), ['backup_day_of_month: Must be a day from 1 to 28, or -1']);
+    assert.ok(ServerActionSchema.safeParse({ server_id: 1, action_type: 'change_backup_schedule', backup_day_of_week: -1 }).success);
+  });
+
+  it('takes null for the offsite location, and an empty list of IPv6 reverse nameservers', () => {
+    assert.deepEqual(issues({ action_type: 'change_offsite_backup_location' }), ['offsite_backup_location: Required for change_offsite_backup_location']);
+    assert.ok(ServerActionSchema.safeParse({ server_id: 1, action_type: 'change_offsite_backup_location', offsite_backup_location: null }).success);
+    assert.deepEqual(issues({ action_type: 'change_manage_offsite_backup_copies' }), ['manage_offsite_backup_copies: Required for change_manage_offsite_backup_copies']);
+    assert.ok(ServerActionSchema.safeParse({ server_id: 1, action_type: 'change_ipv6_reverse_nameservers', ipv6_reverse_nameservers: [] }).success);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Subscription tests: the poller notifies on changes to watched state and stops when it can
+ */
+
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { afterEach, describe, it } from 'node:test';
+
+import { ResourcePoller, ResourceState } from '../src/subscriptions.js';
+
+const INTERVAL = 5;
+
+// A check returning each state in turn, repeating the last, and counting its calls
+function states(...fingerprints: Array<[string, boolean?]>) {
+  const check = async (): Promise<ResourceState> => {
+    const [fingerprint, final = false] = fingerprints[Math.min(check.calls++, fingerprints.length - 1)];
+    return { fingerprint, final };
+  };
+  check.calls = 0;
+  return check;
+}
+
+describe('ResourcePoller', () => {
+  let poller: ResourcePoller;
+  afterEach(() => poller.close());
+
+  it('notifies once per change of state', async () => {
+    const updated: string[] = [];
+    poller = new ResourcePoller(async uri => { updated.push(uri); }, INTERVAL);
+    await poller.subscribe('binarylane://servers/1', states(['active'], ['active'], ['off']));
+
+    await sleep(INTERVAL * 10);
+    assert.deepEqual(updated, ['binarylane://servers/1']);
+  });
+
+  it('stops checking a resource once it is final', async () => {
+    const check = states(['in-progress'], ['completed', true]);
+    poller = new ResourcePoller(async () => undefined, INTERVAL);
+    await poller.subscribe('binarylane://actions/900', check);
+
+    await sleep(INTERVAL * 10);
+    assert.equal(check.calls, 2);
+  });
+
+  it('stops checking after unsubscribe', async () => {
+    const check = states(['active']);
+    poller = new ResourcePoller(async () => undefined, INTERVAL);
+    await poller.subscribe('binarylane://servers/1', check);
+    poller.unsubscribe('binarylane://servers/1');
+
+    const calls = check.calls;
+    await sleep(INTERVAL * 5);
+    assert.equal(check.calls, calls);
+  });
+
+  it('keeps polling after a failed check', async () => {
+    const updated: string[] = [];
+    let calls = 0;
+    poller = new ResourcePoller(async uri => { updated.push(uri); }, INTERVAL);
+    await poller.subscribe('binarylane://servers/1', async () => {
+      if (++calls === 2) throw new Error('Service Unavailable');
+      return { fingerprint: calls === 1 ? 'active' : 'off', final: false };
+    });
+
+    await sleep(INTERVAL * 10);
+    assert.deepEqual(updated, ['binarylane://servers/1']);
+  });
+
+  it('fails to subscribe when the first check fails', async () => {
+    poller = new ResourcePoller(async () => undefined, INTERVAL);
+    await assert.rejects(poller.subscribe('binarylane://servers/9', async () => { throw new Error('Server not found'); }), /Server not found/);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tool definition tests: schemas generated from zod, shared options, groups and the tool/handler check
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { allHandlers } from '../src/handlers.js';
+import { allTools, findToolMismatches, getToolGroup, toolGroups } from '../src/tools.js';
+
+function tool(name: string) {
+  const found = allTools.find(t => t.name === name);
+  assert.ok(found, `no tool ${name}`);
+  return found;
+}
+
+describe('tool input schemas', () => {
+  it('are generated from the zod schema the handler parses', () => {
+    const { inputSchema } = tool('get_server');
+    assert.equal(inputSchema.type, 'object');
+    assert.deepEqual(inputSchema.required, ['server_id']);
+    assert.deepEqual(inputSchema.properties?.server_id, { type: 'integer', exclusiveMinimum: 0, description: 'The server ID' });
+    assert.equal('$schema' in inputSchema, false);
+  });
+
+  it('add the account argument to every tool but list_accounts, and wait and all where they apply', () => {
+    assert.deepEqual(allTools.filter(({ inputSchema }) => !inputSchema.properties?.account).map(t => t.name), ['list_accounts']);
+    assert.ok(tool('server_action').inputSchema.properties?.wait);
+    assert.ok(tool('list_servers').inputSchema.properties?.all);
+    assert.equal(tool('get_server').inputSchema.properties?.wait, undefined);
+  });
+
+  it('flatten server_action\'s per-action arguments into one object, listing what each action needs', () => {
+    const { inputSchema, description } = tool('server_action');
+    assert.deepEqual(inputSchema.required, ['server_id', 'action_type']);
+    const actionType = inputSchema.properties?.action_type as { enum: string[] };
+    assert.ok(actionType.enum.includes('reboot') && actionType.enum.includes('change_kernel'));
+    assert.ok(inputSchema.properties?.size && inputSchema.properties?.kernel_id);
+    assert.match(description ?? '', /Required parameters by action_type:\n/);
+    assert.match(description ?? '', /  - rebuild, restore, attach_backup: image\n/);
+    assert.match(description ?? '', /  - clone_using_backup: image, target_server_id\n/);
+  });
+
+  it('inline every subschema rather than using $ref', () => {
+    assert.ok(allTools.every(({ inputSchema }) => !JSON.stringify(inputSchema).includes('$ref')));
+  });
+});
+
+describe('tool groups', () => {
+  it('put every tool in exactly one group', () => {
+    const grouped = Object.values(toolGroups).flat().map(t => t.name).sort();
+    assert.deepEqual(grouped, allTools.map(t => t.name).sort());
+    assert.equal(getToolGroup('create_domain_record'), 'domains');
+    assert.equal(getToolGroup('nope'), undefined);
+  });
+});
+
+describe('findToolMismatches', () => {
+  it('finds none for the registered handlers', () => {
+    assert.deepEqual(findToolMismatches(Object.keys(allHandlers)), []);
+  });
+
+  it('reports tools without a handler and handlers without a tool', () => {
+    const handlers = Object.keys(allHandlers).filter(name => name !== 'get_server');
+    assert.deepEqual(findToolMismatches([...handlers, 'reboot_everything']), [
+      'Tool "get_server" has no handler',
+      'Handler "reboot_everything" has no tool definition',
+    ]);
+  });
+});